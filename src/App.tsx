@@ -1,4 +1,5 @@
 import React from 'react';
+import { X } from 'lucide-react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { useCart } from './hooks/useCart';
 import Header from './components/Header';
@@ -12,16 +13,21 @@ import MemberLogin from './components/MemberLogin';
 import WelcomeModal from './components/WelcomeModal';
 import MemberProfile from './components/MemberProfile';
 import OrderStatusModal from './components/OrderStatusModal';
+import OrderTracking from './components/OrderTracking';
 import { useMenu } from './hooks/useMenu';
 import { useMemberAuth, MemberAuthProvider } from './context/MemberAuthContext';
+import { StaffAuthProvider } from './context/StaffAuthContext';
 import { useOrders } from './hooks/useOrders';
+import { useLiveFlashSales } from './hooks/useFlashSales';
 import Footer from './components/Footer';
+import { isTerminalOrderStatus } from './lib/orderStatus';
 
 function MainApp() {
-  const { currentMember, logout, loading: authLoading } = useMemberAuth();
-  const cart = useCart(currentMember);
-  const { menuItems } = useMenu();
-  const { fetchOrderById } = useOrders();
+  const { currentMember, sessionToken, logout, verifyEmail, loading: authLoading } = useMemberAuth();
+  const { menuItems, loading: menuLoading, error: menuError } = useMenu();
+  const flashSales = useLiveFlashSales(sessionToken);
+  const cart = useCart(currentMember, menuItems, !menuLoading && !menuError, flashSales);
+  const { fetchCustomerOrder } = useOrders();
   
   // Load saved state from localStorage on mount
   const [currentView, setCurrentView] = React.useState<'menu' | 'cart' | 'checkout' | 'member-login'>(() => {
@@ -39,6 +45,9 @@ function MainApp() {
   const [justLoggedIn, setJustLoggedIn] = React.useState(false);
   const [pendingOrderId, setPendingOrderId] = React.useState<string | null>(null);
   const [showOrderStatusModal, setShowOrderStatusModal] = React.useState(false);
+  // Links from member emails: ?reset_password=<token> opens the reset form, ?verify_email=<token> confirms the email
+  const [resetToken, setResetToken] = React.useState<string | null>(null);
+  const [emailLinkNotice, setEmailLinkNotice] = React.useState<{ success: boolean; message: string } | null>(null);
 
   // Save state to localStorage whenever it changes
   React.useEffect(() => {
@@ -128,6 +137,13 @@ function MainApp() {
     };
   }, [currentView]);
 
+  // Send the customer back to the cart to review price changes or unavailable items before paying
+  React.useEffect(() => {
+    if (currentView === 'checkout' && cart.needsReview) {
+      setCurrentView('cart');
+    }
+  }, [currentView, cart.needsReview]);
+
   const handleCategoryClick = (categoryId: string) => {
     setSelectedCategory(categoryId);
     // Clear search when changing category
@@ -170,14 +186,39 @@ function MainApp() {
     }
   }, [currentMember, justLoggedIn]);
 
-  // Redirect from login view if member is already logged in
+  // Redirect from login view if member is already logged in (except to reset the password)
   React.useEffect(() => {
     // Wait for auth to finish loading before checking
-    if (!authLoading && currentMember && currentView === 'member-login') {
+    if (!authLoading && currentMember && currentView === 'member-login' && !resetToken) {
       setCurrentView('menu');
       setJustLoggedIn(true);
     }
-  }, [currentMember, currentView, authLoading]);
+  }, [currentMember, currentView, authLoading, resetToken]);
+
+  // Handle email links, then take the token out of the address bar (later runs find no token)
+  React.useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const resetParam = params.get('reset_password');
+    const verifyParam = params.get('verify_email');
+    if (!resetParam && !verifyParam) return;
+
+    params.delete('reset_password');
+    params.delete('verify_email');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+
+    if (resetParam) {
+      setResetToken(resetParam);
+      setCurrentView('member-login');
+    }
+    if (verifyParam) {
+      verifyEmail(verifyParam).then(result => {
+        setEmailLinkNotice(result.success
+          ? { success: true, message: 'Your email is confirmed. Thank you!' }
+          : { success: false, message: result.error || 'Could not verify your email' });
+      });
+    }
+  }, [verifyEmail]);
 
   // Check for pending order with "place_order" option when app loads
   React.useEffect(() => {
@@ -191,15 +232,15 @@ function MainApp() {
 
       try {
         // Fetch the order to check its status
-        const order = await fetchOrderById(storedOrderId);
+        const order = await fetchCustomerOrder(storedOrderId);
         
         if (order && order.order_option === 'place_order') {
-          // Only show modal if order is still pending or processing
-          if (order.status === 'pending' || order.status === 'processing') {
+          // Only show modal while the order is still in progress
+          if (!isTerminalOrderStatus(order.status)) {
             setPendingOrderId(storedOrderId);
             setShowOrderStatusModal(true);
           } else {
-            // Order is completed (approved/rejected), clear localStorage
+            // Order is completed (delivered/rejected/refunded/cancelled), clear localStorage
             localStorage.removeItem('pendingPlaceOrderId');
           }
         } else {
@@ -214,7 +255,7 @@ function MainApp() {
     };
 
     checkPendingOrder();
-  }, [authLoading, fetchOrderById]);
+  }, [authLoading, fetchCustomerOrder]);
 
 
   const handleMemberClick = () => {
@@ -268,6 +309,16 @@ function MainApp() {
 
   return (
     <div className="min-h-screen theme-page-bg">
+      {emailLinkNotice && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[110] w-[calc(100%-2rem)] max-w-md">
+          <div className={`glass-strong rounded-lg p-3 flex items-start justify-between gap-3 text-sm border ${emailLinkNotice.success ? 'border-green-500/30 text-green-200' : 'border-red-500/30 text-red-200'}`}>
+            <span>{emailLinkNotice.message}</span>
+            <button onClick={() => setEmailLinkNotice(null)} className="text-cafe-textMuted hover:text-cafe-text" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
       {currentView !== 'member-login' && (
         <div className="sticky-nav-bar sticky top-0 z-50 w-full">
           <Header
@@ -299,6 +350,7 @@ function MainApp() {
           selectedCategory={selectedCategory}
           searchQuery={searchQuery}
           currentMember={currentMember}
+          flashSales={flashSales}
           onItemAdded={handleItemAdded}
         />
       )}
@@ -311,6 +363,9 @@ function MainApp() {
           removeFromCart={cart.removeFromCart}
           clearCart={cart.clearCart}
           getTotalPrice={cart.getTotalPrice}
+          priceChanges={cart.priceChanges}
+          onAcknowledgePriceChanges={cart.acknowledgePriceChanges}
+          needsReview={cart.needsReview}
           onContinueShopping={() => handleViewChange('menu')}
           onCheckout={() => handleViewChange('checkout')}
         />
@@ -331,8 +386,13 @@ function MainApp() {
 
       {currentView === 'member-login' && (
         <MemberLogin 
-          onBack={() => handleViewChange('menu')}
+          onBack={() => {
+            setResetToken(null);
+            handleViewChange('menu');
+          }}
           onLoginSuccess={handleLoginSuccess}
+          resetToken={resetToken}
+          onResetDone={() => setResetToken(null)}
         />
       )}
       
@@ -359,7 +419,7 @@ function MainApp() {
           // Don't clear localStorage here - let it clear when order is completed
         }}
         onSucceededClose={() => {
-          // Order is approved/rejected, clear localStorage and close modal
+          // Order is completed, clear localStorage and close modal
           localStorage.removeItem('pendingPlaceOrderId');
           setShowOrderStatusModal(false);
           setPendingOrderId(null);
@@ -382,8 +442,9 @@ function App() {
       <MemberAuthProvider>
         <Routes>
           <Route path="/" element={<MainApp />} />
-          <Route path="/admin" element={<AdminDashboard />} />
+          <Route path="/admin" element={<StaffAuthProvider><AdminDashboard /></StaffAuthProvider>} />
           <Route path="/member/login" element={<MainApp />} />
+          <Route path="/track" element={<OrderTracking />} />
         </Routes>
       </MemberAuthProvider>
     </Router>
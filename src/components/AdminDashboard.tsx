@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Plus, Edit, Trash2, Save, X, ArrowLeft, TrendingUp, Package, Users, Lock, FolderOpen, CreditCard, Settings, ArrowUpDown, ChevronDown, ChevronUp, ShoppingBag, CheckCircle, Star, Activity, FilePlus, List, FolderTree, Wallet, Cog, Trophy, DollarSign, Clock, Gamepad2, Copy } from 'lucide-react';
-import { MenuItem, Variation, CustomField } from '../types';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, TrendingUp, Package, Users, Lock, FolderOpen, CreditCard, Settings, ArrowUpDown, ChevronDown, ChevronUp, ShoppingBag, CheckCircle, Star, Activity, FilePlus, List, FolderTree, Wallet, Cog, Trophy, DollarSign, Clock, Gamepad2, Copy, Ticket, CalendarClock, Zap, UserCog } from 'lucide-react';
+import { MenuItem, Variation, CustomField, BundleComponent, AdminView } from '../types';
+import { isBundle } from '../lib/bundles';
+import { fromManilaDateTimeInput, toManilaDateTimeInput } from '../lib/discountSchedule';
 import { useMenu } from '../hooks/useMenu';
 import { useCategories } from '../hooks/useCategories';
 import { useOrders } from '../hooks/useOrders';
@@ -10,23 +12,28 @@ import PaymentMethodManager from './PaymentMethodManager';
 import SiteSettingsManager from './SiteSettingsManager';
 import OrderManager from './OrderManager';
 import MemberManager from './MemberManager';
+import VoucherManager from './VoucherManager';
+import PromoScheduleManager from './PromoScheduleManager';
+import FlashSaleManager from './FlashSaleManager';
+import StaffManager from './StaffManager';
+import StaffPasswordForm from './StaffPasswordForm';
 import { supabase } from '../lib/supabase';
 import { useSiteSettings } from '../hooks/useSiteSettings';
+import { useStaffAuth } from '../hooks/useStaffAuth';
+import { canOpenAdminView, STAFF_ROLE_LABELS } from '../lib/staffRoles';
 
 const AdminDashboard: React.FC = () => {
   const { siteSettings } = useSiteSettings();
   const orderOption = siteSettings?.order_option || 'order_via_messenger';
   const { orders, fetchOrders } = useOrders(); // Subscription + polling: orders list and badge update
 
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-    return localStorage.getItem('beracah_admin_auth') === 'true';
-  });
+  const { account, loading: authLoading, login, logout } = useStaffAuth();
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loginError, setLoginError] = useState('');
-  const [adminPassword, setAdminPassword] = useState<string>('Diginix@Admin!2025'); // Default fallback
+  const [loggingIn, setLoggingIn] = useState(false);
   const { menuItems, loading, addMenuItem, updateMenuItem, deleteMenuItem, duplicateMenuItem } = useMenu();
   const { categories } = useCategories();
-  type AdminView = 'dashboard' | 'items' | 'add' | 'edit' | 'categories' | 'payments' | 'settings' | 'orders' | 'members';
   const [currentView, setCurrentViewState] = useState<AdminView>(() => {
     const saved = localStorage.getItem('beracah_admin_currentView');
     if (saved && saved !== 'add' && saved !== 'edit') return saved as AdminView;
@@ -38,20 +45,38 @@ const AdminDashboard: React.FC = () => {
       localStorage.setItem('beracah_admin_currentView', view);
     }
   };
+  const canOpen = (view: AdminView) => canOpenAdminView(account?.role, view);
+
+  // Views outside the account's role (e.g. saved by someone else in this browser) fall back to the dashboard
+  useEffect(() => {
+    if (account && !canOpenAdminView(account.role, currentView)) {
+      setCurrentView('dashboard');
+    }
+  }, [account, currentView]);
 
   const pendingOrders = useMemo(
     () => orders.filter((o) => o.status === 'pending' && (o.order_option ?? 'place_order') === 'place_order').length,
     [orders]
   );
+  // Orders the customer cancelled themselves while still pending
+  const customerCancellations = useMemo(
+    () => orders.filter((o) => o.status === 'cancelled' && o.customer_cancelled_at && (o.order_option ?? 'place_order') === 'place_order').length,
+    [orders]
+  );
   const [lastSeenPendingCount, setLastSeenPendingCount] = useState<number>(0);
+  const [lastSeenCancellationCount, setLastSeenCancellationCount] = useState<number>(0);
   const notificationVolumeRef = useRef<number>(0.5);
   const prevPendingCountRef = useRef<number>(0);
+  const prevCancellationCountRef = useRef<number>(0);
   const hasInitializedPendingRef = useRef<boolean>(false);
 
-  // When user opens Orders view, mark current pending count as "seen"
+  // When user opens Orders view, mark current pending and cancellation counts as "seen"
   useEffect(() => {
-    if (currentView === 'orders') setLastSeenPendingCount(pendingOrders);
-  }, [currentView, pendingOrders]);
+    if (currentView === 'orders') {
+      setLastSeenPendingCount(pendingOrders);
+      setLastSeenCancellationCount(customerCancellations);
+    }
+  }, [currentView, pendingOrders, customerCancellations]);
 
   // Refetch orders when dashboard is visible and place_order is on, so badge/count are correct even if Realtime is delayed
   useEffect(() => {
@@ -61,15 +86,17 @@ const AdminDashboard: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps -- fetchOrders is stable enough; avoid refetch on every render
   }, [orderOption, currentView]);
 
-  // Play notification sound only when pending count increases after initial load (new order via realtime)
+  // Play notification sound only when pending or customer-cancelled count increases after initial load
+  // (new order or cancellation via realtime)
   useEffect(() => {
     if (orderOption !== 'place_order') return;
     if (!hasInitializedPendingRef.current) {
       hasInitializedPendingRef.current = true;
       prevPendingCountRef.current = pendingOrders;
+      prevCancellationCountRef.current = customerCancellations;
       return;
     }
-    if (pendingOrders > prevPendingCountRef.current) {
+    if (pendingOrders > prevPendingCountRef.current || customerCancellations > prevCancellationCountRef.current) {
       try {
         const audio = new Audio('/notifSound.mp3');
         audio.volume = Math.min(1, Math.max(0, notificationVolumeRef.current));
@@ -79,29 +106,8 @@ const AdminDashboard: React.FC = () => {
       }
     }
     prevPendingCountRef.current = pendingOrders;
-  }, [orderOption, pendingOrders]);
-
-  // Fetch admin password from database on mount
-  useEffect(() => {
-    const fetchAdminPassword = async () => {
-      try {
-        const { data, error } = await supabase
-          .from('site_settings')
-          .select('value')
-          .eq('id', 'admin_password')
-          .single();
-
-        if (!error && data?.value) {
-          setAdminPassword(data.value);
-        }
-      } catch (err) {
-        console.error('Error fetching admin password:', err);
-        // Keep default password on error
-      }
-    };
-
-    fetchAdminPassword();
-  }, []);
+    prevCancellationCountRef.current = customerCancellations;
+  }, [orderOption, pendingOrders, customerCancellations]);
 
   // Fetch notification volume for new-order sound (used when order_option is place_order)
   useEffect(() => {
@@ -254,6 +260,17 @@ const AdminDashboard: React.FC = () => {
       return;
     }
 
+    // Bundles hold regular packages of this game
+    const invalidBundle = formData.variations.find(v => (v.bundle_items || []).some(component => {
+      const componentPackage = formData.variations!.find(p => p.id === component.variation_id);
+      return !componentPackage || componentPackage.id === v.id || isBundle(componentPackage) ||
+        !Number.isInteger(component.quantity) || component.quantity < 1;
+    }));
+    if (invalidBundle) {
+      alert(`Please choose the packages and quantities in the bundle "${invalidBundle.name}"`);
+      return;
+    }
+
     // Validate discount decimal if enabled
     if (formData.discountActive && formData.discountPercentage !== undefined) {
       if (formData.discountPercentage < 0 || formData.discountPercentage > 1) {
@@ -262,6 +279,17 @@ const AdminDashboard: React.FC = () => {
       }
     }
 
+    if (formData.discountActive && formData.discountPercentage === undefined) {
+      alert('Please set the sale discount or turn the sale off');
+      return;
+    }
+
+    if (formData.discountStartDate && formData.discountEndDate &&
+        new Date(formData.discountEndDate) <= new Date(formData.discountStartDate)) {
+      alert('The sale must end after it starts');
+      return;
+    }
+
     try {
       // Clean up temporary category identifiers before saving
       const cleanedVariations = formData.variations?.map(v => {
@@ -396,14 +424,26 @@ const AdminDashboard: React.FC = () => {
     setShowBulkActions(selectedItems.length > 0);
   }, [selectedItems]);
 
-  const updateVariation = (index: number, field: keyof Variation, value: string | number | null | undefined) => {
+  const updateVariation = (index: number, field: keyof Variation, value: string | number | boolean | null | undefined) => {
     const updatedVariations = [...(formData.variations || [])];
     updatedVariations[index] = { ...updatedVariations[index], [field]: value };
     setFormData({ ...formData, variations: updatedVariations });
   };
 
+  const updateBundleItems = (index: number, bundleItems: BundleComponent[]) => {
+    const updatedVariations = [...(formData.variations || [])];
+    updatedVariations[index] = { ...updatedVariations[index], bundle_items: bundleItems };
+    setFormData({ ...formData, variations: updatedVariations });
+  };
+
   const removeVariation = (index: number) => {
-    const updatedVariations = formData.variations?.filter((_, i) => i !== index) || [];
+    const removedId = formData.variations?.[index]?.id;
+    // Bundles that included the package drop it
+    const updatedVariations = (formData.variations?.filter((_, i) => i !== index) || []).map(v =>
+      v.bundle_items?.some(component => component.variation_id === removedId)
+        ? { ...v, bundle_items: v.bundle_items.filter(component => component.variation_id !== removedId) }
+        : v
+    );
     setFormData({ ...formData, variations: updatedVariations });
   };
 
@@ -463,49 +503,36 @@ const AdminDashboard: React.FC = () => {
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Fetch latest password from database before checking
-    try {
-      const { data, error } = await supabase
-        .from('site_settings')
-        .select('value')
-        .eq('id', 'admin_password')
-        .single();
-
-      const currentPassword = error ? adminPassword : (data?.value || adminPassword);
-
-      if (password === currentPassword) {
-      setIsAuthenticated(true);
-      localStorage.setItem('beracah_admin_auth', 'true');
+    setLoggingIn(true);
+    const result = await login(email, password);
+    setLoggingIn(false);
+    if (result.success) {
       setLoginError('');
-        setPassword('');
-        if (data?.value) {
-          setAdminPassword(data.value);
-        }
+      setPassword('');
     } else {
-      setLoginError('Invalid password');
-      }
-    } catch (err) {
-      // Fallback to stored password on error
-      if (password === adminPassword) {
-        setIsAuthenticated(true);
-        localStorage.setItem('beracah_admin_auth', 'true');
-        setLoginError('');
-        setPassword('');
-      } else {
-        setLoginError('Invalid password');
-      }
+      setLoginError(result.error || 'Invalid email or password');
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('beracah_admin_auth');
+  const handleLogout = async () => {
+    await logout();
     setPassword('');
     setCurrentView('dashboard');
   };
 
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
   // Login Screen
-  if (!isAuthenticated) {
+  if (!account) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="bg-white rounded-xl shadow-lg p-8 w-full max-w-md">
@@ -514,18 +541,31 @@ const AdminDashboard: React.FC = () => {
               <Lock className="h-8 w-8 text-white" />
             </div>
             <h1 className="text-black">Admin Access</h1>
-            <p className="text-gray-600 mt-2">Enter password to access the admin dashboard</p>
+            <p className="text-gray-600 mt-2">Log in with your staff account to access the admin dashboard</p>
           </div>
           
           <form onSubmit={handleLogin}>
+            <div className="mb-4">
+              <label className="block text-xs font-medium text-black mb-2">Email</label>
+              <input
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                placeholder="Enter your email"
+                required
+              />
+            </div>
             <div className="mb-6">
               <label className="block text-xs font-medium text-black mb-2">Password</label>
               <input
                 type="password"
+                autoComplete="current-password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
-                placeholder="Enter admin password"
+                placeholder="Enter your password"
                 required
               />
               {loginError && (
@@ -535,9 +575,10 @@ const AdminDashboard: React.FC = () => {
             
             <button
               type="submit"
-              className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors duration-200 font-medium"
+              disabled={loggingIn}
+              className="w-full bg-green-600 text-white py-3 rounded-lg hover:bg-green-700 transition-colors duration-200 font-medium disabled:opacity-50"
             >
-              Access Dashboard
+              {loggingIn ? 'Logging in...' : 'Access Dashboard'}
             </button>
           </form>
         </div>
@@ -545,6 +586,11 @@ const AdminDashboard: React.FC = () => {
     );
   }
 
+  // Switched to the dashboard by the effect above
+  if (!canOpen(currentView)) {
+    return null;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -833,6 +879,56 @@ const AdminDashboard: React.FC = () => {
                 </div>
             </div>
 
+                  {/* Scheduled Sale Section */}
+                  <div>
+                    <h4 className="text-xs font-playfair font-medium text-black mb-2">Scheduled Sale</h4>
+                    <label className="flex items-center space-x-2 mb-4">
+                      <input
+                        type="checkbox"
+                        checked={formData.discountActive || false}
+                        onChange={(e) => setFormData({ ...formData, discountActive: e.target.checked })}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-xs font-medium text-black">Enable sale</span>
+                    </label>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-black mb-2">Discount</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="1"
+                          step="0.01"
+                          value={formData.discountPercentage !== undefined ? formData.discountPercentage : ''}
+                          onChange={(e) => setFormData({ ...formData, discountPercentage: e.target.value !== '' ? Number(e.target.value) : undefined })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                          placeholder="0.10"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Off the regular price (0.10 = 10%)</p>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-black mb-2">Starts</label>
+                        <input
+                          type="datetime-local"
+                          value={toManilaDateTimeInput(formData.discountStartDate)}
+                          onChange={(e) => setFormData({ ...formData, discountStartDate: fromManilaDateTimeInput(e.target.value) })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Manila time. Empty = starts now</p>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-black mb-2">Ends</label>
+                        <input
+                          type="datetime-local"
+                          value={toManilaDateTimeInput(formData.discountEndDate)}
+                          onChange={(e) => setFormData({ ...formData, discountEndDate: fromManilaDateTimeInput(e.target.value) })}
+                          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Manila time. Empty = no end</p>
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Image Upload */}
                   <div>
               <ImageUpload
@@ -1184,6 +1280,94 @@ const AdminDashboard: React.FC = () => {
                 </div>
             </div>
 
+                                        {/* Stock Row */}
+                                        <div className="grid grid-cols-3 gap-2 sm:gap-3 items-end">
+                                          <div>
+                                            <label className="block text-xs font-medium text-gray-700 mb-1">Stock</label>
+                                            <input
+                                              type="number"
+                                              value={variation.stock !== undefined && variation.stock !== null ? variation.stock : ''}
+                                              onChange={(e) => {
+                                                const value = e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value)));
+                                                updateVariation(index, 'stock', value);
+                                              }}
+                                              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent text-xs [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                                              placeholder="Unlimited"
+                                              min="0"
+                                              step="1"
+                                            />
+                                          </div>
+                                          <label className="col-span-2 flex items-center space-x-2 pb-2">
+                                            <input
+                                              type="checkbox"
+                                              checked={variation.available ?? true}
+                                              onChange={(e) => updateVariation(index, 'available', e.target.checked)}
+                                              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                                            />
+                                            <span className="text-xs font-medium text-gray-700">Available</span>
+                                            {variation.stock === 0 && (
+                                              <span className="text-xs text-red-600">Sold out</span>
+                                            )}
+                                          </label>
+                                        </div>
+
+                                        {/* Bundle contents */}
+                                        <div className="space-y-2">
+                                          <div className="flex items-center justify-between">
+                                            <label className="text-xs font-medium text-gray-700">Bundle contents</label>
+                                            <button
+                                              type="button"
+                                              onClick={() => updateBundleItems(index, [...(variation.bundle_items || []), { variation_id: '', quantity: 1 }])}
+                                              className="flex items-center gap-1 text-xs text-green-700 hover:text-green-800"
+                                            >
+                                              <Plus className="h-3.5 w-3.5" />
+                                              <span>Add package</span>
+                                            </button>
+                                          </div>
+                                          {(variation.bundle_items || []).map((component, componentIndex) => (
+                                            <div key={componentIndex} className="flex items-center gap-2">
+                                              <select
+                                                value={component.variation_id}
+                                                onChange={(e) => updateBundleItems(index, (variation.bundle_items || []).map((c, i) =>
+                                                  i === componentIndex ? { ...c, variation_id: e.target.value } : c
+                                                ))}
+                                                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent text-xs"
+                                              >
+                                                <option value="">Select package</option>
+                                                {formData.variations!
+                                                  .filter(option => option.id !== variation.id && !isBundle(option))
+                                                  .map(option => (
+                                                    <option key={option.id} value={option.id}>{option.name || 'Unnamed package'}</option>
+                                                  ))}
+                                              </select>
+                                              <input
+                                                type="number"
+                                                value={component.quantity}
+                                                onChange={(e) => updateBundleItems(index, (variation.bundle_items || []).map((c, i) =>
+                                                  i === componentIndex ? { ...c, quantity: Math.max(1, Math.floor(Number(e.target.value) || 1)) } : c
+                                                ))}
+                                                className="w-16 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent text-xs"
+                                                min="1"
+                                                step="1"
+                                                aria-label="Quantity"
+                                              />
+                                              <button
+                                                type="button"
+                                                onClick={() => updateBundleItems(index, (variation.bundle_items || []).filter((_, i) => i !== componentIndex))}
+                                                className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded transition-colors duration-200 flex-shrink-0"
+                                                aria-label="Remove from bundle"
+                                              >
+                                                <X className="h-4 w-4" />
+                                              </button>
+                                            </div>
+                                          ))}
+                                          {isBundle(variation) && (
+                                            <p className="text-xs text-gray-500">
+                                              Sold as one package at the price above. Staff deliver the packages listed, and their stock is used.
+                                            </p>
+                                          )}
+                                        </div>
+
                                         {/* Description (optional) */}
                                         <textarea
                                           value={variation.description || ''}
@@ -2102,6 +2286,32 @@ const AdminDashboard: React.FC = () => {
     return <PaymentMethodManager onBack={() => setCurrentView('dashboard')} />;
   }
 
+  // Vouchers View
+  if (currentView === 'vouchers') {
+    return <VoucherManager onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  // Flash Sales View
+  if (currentView === 'flash-sales') {
+    return <FlashSaleManager onBack={() => setCurrentView('dashboard')} />;
+  }
+
+  // Scheduled Sales View
+  if (currentView === 'promos') {
+    return (
+      <PromoScheduleManager
+        menuItems={menuItems}
+        onBack={() => setCurrentView('dashboard')}
+        onEditItem={handleEditItem}
+      />
+    );
+  }
+
+  // Staff View
+  if (currentView === 'staff') {
+    return <StaffManager onBack={() => setCurrentView('dashboard')} />;
+  }
+
   // Site Settings View
   if (currentView === 'settings') {
     return (
@@ -2169,6 +2379,9 @@ const AdminDashboard: React.FC = () => {
               <h1 className="text-black">Admin</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <span className="text-xs text-gray-600">
+                {account.display_name} · {STAFF_ROLE_LABELS[account.role]}
+              </span>
               <a
                 href="/"
                 className="text-gray-600 hover:text-black transition-colors duration-200"
@@ -2242,63 +2455,114 @@ const AdminDashboard: React.FC = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-sm p-4 md:p-6">
             <div className="space-y-3">
-              <button
-                onClick={handleAddItem}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <FilePlus className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Add New Game Item</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('items')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <List className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Manage Game Items</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('categories')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <FolderTree className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Manage Categories</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('members')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Users className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Manage Members</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('payments')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Wallet className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Payment Methods</span>
-              </button>
-              <button
-                onClick={() => setCurrentView('orders')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200 relative"
-              >
-                <ShoppingBag className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Orders</span>
-                {orderOption === 'place_order' && (() => {
-                  const unread = Math.max(0, pendingOrders - lastSeenPendingCount);
-                  return unread > 0 ? (
-                    <span className="ml-auto flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
-                      {unread > 99 ? '99+' : unread}
-                    </span>
-                  ) : null;
-                })()}
-              </button>
-              <button
-                onClick={() => setCurrentView('settings')}
-                className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
-              >
-                <Cog className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
-                <span className="text-xs font-medium text-gray-900">Site Settings</span>
-              </button>
+              {canOpen('add') && (
+                <button
+                  onClick={handleAddItem}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <FilePlus className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Add New Game Item</span>
+                </button>
+              )}
+              {canOpen('items') && (
+                <button
+                  onClick={() => setCurrentView('items')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <List className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Manage Game Items</span>
+                </button>
+              )}
+              {canOpen('categories') && (
+                <button
+                  onClick={() => setCurrentView('categories')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <FolderTree className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Manage Categories</span>
+                </button>
+              )}
+              {canOpen('members') && (
+                <button
+                  onClick={() => setCurrentView('members')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Users className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Manage Members</span>
+                </button>
+              )}
+              {canOpen('payments') && (
+                <button
+                  onClick={() => setCurrentView('payments')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Wallet className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Payment Methods</span>
+                </button>
+              )}
+              {canOpen('vouchers') && (
+                <button
+                  onClick={() => setCurrentView('vouchers')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Ticket className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Vouchers</span>
+                </button>
+              )}
+              {canOpen('promos') && (
+                <button
+                  onClick={() => setCurrentView('promos')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <CalendarClock className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Scheduled Sales</span>
+                </button>
+              )}
+              {canOpen('flash-sales') && (
+                <button
+                  onClick={() => setCurrentView('flash-sales')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Zap className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Flash Sales</span>
+                </button>
+              )}
+              {canOpen('orders') && (
+                <button
+                  onClick={() => setCurrentView('orders')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200 relative"
+                >
+                  <ShoppingBag className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Orders</span>
+                  {orderOption === 'place_order' && (() => {
+                    const unread = Math.max(0, pendingOrders - lastSeenPendingCount)
+                      + Math.max(0, customerCancellations - lastSeenCancellationCount);
+                    return unread > 0 ? (
+                      <span className="ml-auto flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+                        {unread > 99 ? '99+' : unread}
+                      </span>
+                    ) : null;
+                  })()}
+                </button>
+              )}
+              {canOpen('settings') && (
+                <button
+                  onClick={() => setCurrentView('settings')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <Cog className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Site Settings</span>
+                </button>
+              )}
+              {canOpen('staff') && (
+                <button
+                  onClick={() => setCurrentView('staff')}
+                  className="w-full flex items-center space-x-3 p-2 md:p-3 text-left hover:bg-gray-50 rounded-lg transition-colors duration-200"
+                >
+                  <UserCog className="h-4 w-4 md:h-5 md:w-5 text-gray-400" />
+                  <span className="text-xs font-medium text-gray-900">Staff Accounts</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -2316,6 +2580,8 @@ const AdminDashboard: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <StaffPasswordForm />
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Ban, Loader2 } from 'lucide-react';
+import { Order } from '../types';
+import { useOrders } from '../hooks/useOrders';
+import { useMemberAuth } from '../hooks/useMemberAuth';
+import { canCustomerCancelOrder } from '../lib/orderStatus';
+
+interface CancelOrderButtonProps {
+  order: Order;
+  onCancelled: (order: Order) => void;
+}
+
+// Lets the customer cancel a pending order with an optional reason. Member orders are proven by
+// the member's session; guests re-enter the IGN or contact they ordered with.
+const CancelOrderButton: React.FC<CancelOrderButtonProps> = ({ order, onCancelled }) => {
+  const { cancelOrder } = useOrders();
+  const { sessionToken } = useMemberAuth();
+  const [confirming, setConfirming] = useState(false);
+  const [reason, setReason] = useState('');
+  const [contact, setContact] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!canCustomerCancelOrder(order)) return null;
+
+  const isGuestOrder = !order.member_id;
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    setError('');
+    try {
+      const cancelled = await cancelOrder(
+        order.id,
+        reason,
+        isGuestOrder ? { contact } : { memberSession: sessionToken }
+      );
+      onCancelled(cancelled);
+      setConfirming(false);
+    } catch (err) {
+      console.error('Error cancelling order:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel order. Please try again.');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <button
+        onClick={() => setConfirming(true)}
+        className="w-full py-2.5 glass-strong border border-red-500/30 rounded-lg text-sm font-medium text-red-300 hover:bg-red-500/10 transition-colors duration-200 flex items-center justify-center gap-2"
+      >
+        <Ban className="h-4 w-4" />
+        Cancel Order
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-red-500/10 border border-red-500/30 p-3 space-y-3">
+      <p className="text-sm font-medium text-red-300">Cancel this order?</p>
+      {isGuestOrder && (
+        <input
+          type="text"
+          value={contact}
+          onChange={(e) => setContact(e.target.value)}
+          placeholder="IGN or contact used for this order"
+          className="w-full px-3 py-2 glass border border-cafe-primary/30 rounded-lg text-sm text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-red-400"
+        />
+      )}
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional)"
+        rows={2}
+        className="w-full px-3 py-2 glass border border-cafe-primary/30 rounded-lg text-sm text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-red-400"
+      />
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={() => {
+            setConfirming(false);
+            setError('');
+          }}
+          disabled={cancelling}
+          className="flex-1 py-2 glass-strong rounded-lg text-sm text-cafe-text hover:bg-cafe-primary/20 transition-colors duration-200"
+        >
+          Keep Order
+        </button>
+        <button
+          onClick={handleCancel}
+          disabled={cancelling || (isGuestOrder && !contact.trim())}
+          className="flex-1 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {cancelling && <Loader2 className="h-4 w-4 animate-spin" />}
+          Cancel Order
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CancelOrderButton;
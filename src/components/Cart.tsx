@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Trash2, Plus, Minus, ArrowLeft, Check, X } from 'lucide-react';
-import { CartItem } from '../types';
+import { Trash2, Plus, Minus, ArrowLeft, Check, X, AlertTriangle } from 'lucide-react';
+import { CartItem, CartPriceChange } from '../types';
+import { exceedsVariationStock, getVariationStockLeft } from '../lib/variationStock';
+import { getBundleContentsLabel, isBundle } from '../lib/bundles';
 
 interface CartProps {
   cartItems: CartItem[];
@@ -9,6 +11,9 @@ interface CartProps {
   removeFromCart: (id: string) => void;
   clearCart: () => void;
   getTotalPrice: () => number;
+  priceChanges: CartPriceChange[];
+  onAcknowledgePriceChanges: () => void;
+  needsReview: boolean;
   onContinueShopping: () => void;
   onCheckout: () => void;
 }
@@ -20,6 +25,9 @@ const Cart: React.FC<CartProps> = ({
   removeFromCart,
   clearCart,
   getTotalPrice,
+  priceChanges,
+  onAcknowledgePriceChanges,
+  needsReview,
   onContinueShopping,
   onCheckout
 }) => {
@@ -174,6 +182,37 @@ const Cart: React.FC<CartProps> = ({
         </div>
       )}
 
+      {priceChanges.length > 0 && (
+        <div className="mb-4 rounded-xl border border-yellow-500/40 bg-yellow-500/10 p-4 flex-shrink-0">
+          <p className="text-sm font-semibold text-yellow-300 mb-2">Prices updated</p>
+          <p className="text-xs text-cafe-textMuted mb-3">
+            Some prices changed since you added these items. Please review them before checking out.
+          </p>
+          <ul className="space-y-1 mb-3">
+            {priceChanges.map(change => (
+              <li key={change.id} className="flex items-center justify-between gap-3 text-xs text-cafe-text">
+                <span className="min-w-0 truncate">
+                  {change.name}{change.variationName ? ` – ${change.variationName}` : ''}
+                </span>
+                <span className="flex-shrink-0">
+                  <span className="line-through text-cafe-textMuted">₱{change.oldPrice.toFixed(2)}</span>
+                  {' → '}
+                  <span className={change.newPrice > change.oldPrice ? 'text-red-300' : 'text-green-300'}>
+                    ₱{change.newPrice.toFixed(2)}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onAcknowledgePriceChanges}
+            className="w-full py-2 rounded-lg bg-yellow-500/20 text-yellow-200 text-sm font-medium hover:bg-yellow-500/30 transition-colors duration-200"
+          >
+            OK, got it
+          </button>
+        </div>
+      )}
+
       <div 
         ref={cartScrollRef}
         className="flex-1 overflow-y-auto mb-6 min-h-0"
@@ -210,12 +249,29 @@ const Cart: React.FC<CartProps> = ({
                 )}
                 <div className="flex-1">
                   <div className="flex items-center justify-between mb-1">
-                    <h3 className="text-base font-medium text-cafe-text">{item.name}</h3>
-                    <p className="text-sm font-semibold text-cafe-text">₱{getEffectiveUnitPrice(item).toFixed(2)} each</p>
+                    <h3 className={`text-base font-medium ${item.unavailable ? 'text-cafe-textMuted line-through' : 'text-cafe-text'}`}>{item.name}</h3>
+                    {!item.unavailable && (
+                      <p className="text-sm font-semibold text-cafe-text">₱{getEffectiveUnitPrice(item).toFixed(2)} each</p>
+                    )}
                   </div>
+                  {item.unavailable && (
+                    <p className="text-xs text-red-300 mb-1 flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      No longer available – please remove it from your cart
+                    </p>
+                  )}
                   {item.selectedVariation && (
                     <p className="text-xs text-cafe-textMuted mb-1">Package: {item.selectedVariation.name}</p>
                   )}
+                  {item.selectedVariation && isBundle(item.selectedVariation) && (
+                    <p className="text-xs text-cafe-textMuted mb-1">Includes: {getBundleContentsLabel(item.selectedVariation, item.variations)}</p>
+                  )}
+                  {!item.unavailable && exceedsVariationStock(item) && (
+                    <p className="text-xs text-yellow-300 mb-1 flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Only {item.selectedVariation && getVariationStockLeft(item.selectedVariation, item.variations)} left – please lower the quantity
+                    </p>
+                  )}
                   {item.selectedAddOns && item.selectedAddOns.length > 0 && (
                     <p className="text-xs text-cafe-textMuted mb-1">
                       Add-ons: {item.selectedAddOns.map(addOn => 
@@ -228,27 +284,40 @@ const Cart: React.FC<CartProps> = ({
                 </div>
               </div>
 
-              <div className="mt-4 flex items-center justify-between flex-wrap gap-4" onClick={(e) => e.stopPropagation()}>
-                <div className="flex items-center space-x-2 glass rounded-full p-0.5 border border-cafe-primary/30">
-                  <button
-                    onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                    className="p-1 hover:bg-cafe-primary/20 rounded-full transition-colors duration-200"
-                  >
-                    <Minus className="h-3 w-3 text-cafe-primary" />
-                  </button>
-                  <span className="font-semibold text-cafe-text min-w-[24px] text-center text-sm">{item.quantity}</span>
+              {item.unavailable ? (
+                <div className="mt-3 flex justify-end" onClick={(e) => e.stopPropagation()}>
                   <button
-                    onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                    className="p-1 hover:bg-cafe-primary/20 rounded-full transition-colors duration-200"
+                    onClick={() => removeFromCart(item.id)}
+                    className="text-xs text-red-400 hover:text-red-300 transition-colors duration-200 flex items-center gap-1"
                   >
-                    <Plus className="h-3 w-3 text-cafe-primary" />
+                    <Trash2 className="h-3 w-3" />
+                    Remove
                   </button>
                 </div>
+              ) : (
+                <div className="mt-4 flex items-center justify-between flex-wrap gap-4" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex items-center space-x-2 glass rounded-full p-0.5 border border-cafe-primary/30">
+                    <button
+                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      className="p-1 hover:bg-cafe-primary/20 rounded-full transition-colors duration-200"
+                    >
+                      <Minus className="h-3 w-3 text-cafe-primary" />
+                    </button>
+                    <span className="font-semibold text-cafe-text min-w-[24px] text-center text-sm">{item.quantity}</span>
+                    <button
+                      onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                      disabled={item.selectedVariation?.stock != null && item.quantity >= item.selectedVariation.stock}
+                      className="p-1 hover:bg-cafe-primary/20 rounded-full transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <Plus className="h-3 w-3 text-cafe-primary" />
+                    </button>
+                  </div>
 
-                <div className="flex items-center ml-auto">
-                  <p className="text-sm font-semibold text-cafe-text">₱{(getEffectiveUnitPrice(item) * item.quantity).toFixed(2)}</p>
+                  <div className="flex items-center ml-auto">
+                    <p className="text-sm font-semibold text-cafe-text">₱{(getEffectiveUnitPrice(item) * item.quantity).toFixed(2)}</p>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           ))}
         </div>
@@ -260,6 +329,16 @@ const Cart: React.FC<CartProps> = ({
           <span className="text-white">₱{(getTotalPrice() || 0).toFixed(2)}</span>
         </div>
         
+        {needsReview && (
+          <p className="text-xs text-yellow-300 mb-3 text-center">
+            {priceChanges.length > 0
+              ? 'Please review the updated prices above before checking out.'
+              : cartItems.some(item => item.unavailable)
+                ? 'Please remove unavailable items before checking out.'
+                : 'Some packages have limited stock. Please lower the quantities before checking out.'}
+          </p>
+        )}
+
         <div className="flex gap-3">
           <button
             onClick={onContinueShopping}
@@ -270,7 +349,8 @@ const Cart: React.FC<CartProps> = ({
           </button>
           <button
             onClick={onCheckout}
-            className="flex-1 text-white py-2 rounded-xl bg-cafe-primary hover:bg-cafe-secondary hover:opacity-90 transition-all duration-200 transform hover:scale-[1.02] font-medium text-sm"
+            disabled={needsReview}
+            className="flex-1 text-white py-2 rounded-xl bg-cafe-primary hover:bg-cafe-secondary hover:opacity-90 transition-all duration-200 transform hover:scale-[1.02] font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
           >
             Checkout
           </button>
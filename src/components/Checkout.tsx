@@ -1,12 +1,24 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { ArrowLeft, Upload, X, Copy, Check, MousePointerClick, Download } from 'lucide-react';
-import { CartItem, CustomField } from '../types';
+import { ArrowLeft, Upload, X, Copy, Check, MousePointerClick, Download, Ticket, Loader2, Plus, Gift } from 'lucide-react';
+import { AppliedVoucher, CartItem, CustomField } from '../types';
 import { usePaymentMethods, PaymentMethod } from '../hooks/usePaymentMethods';
 import { useImageUpload } from '../hooks/useImageUpload';
 import { useOrders } from '../hooks/useOrders';
 import { useSiteSettings } from '../hooks/useSiteSettings';
 import { useMemberAuth } from '../hooks/useMemberAuth';
-import { supabase } from '../lib/supabase';
+import { validateVoucher } from '../hooks/useVouchers';
+import {
+  PaymentPartDraft,
+  canPayPartWithMethod,
+  canPayWithMethod,
+  createPaymentPartDraft,
+  getPaymentPartAmount,
+  getSplitPaymentIssue,
+  getSplitPaymentRemaining,
+} from '../lib/splitPayment';
+import { formatPaymentMethodFee, getPaymentMethodFee, hasPaymentMethodFee } from '../lib/paymentFees';
+import { getBundleContentsLabel, isBundle } from '../lib/bundles';
+import { EMPTY_GIFT_DETAILS, GIFT_MESSAGE_MAX_LENGTH, GiftDetails, getGiftCustomerInfo } from '../lib/gift';
 import OrderStatusModal from './OrderStatusModal';
 
 interface CheckoutProps {
@@ -22,7 +34,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
   const { uploadImage, uploading: uploadingReceipt } = useImageUpload();
   const { createOrder } = useOrders();
   const { siteSettings } = useSiteSettings();
-  const { currentMember } = useMemberAuth();
+  const { sessionToken } = useMemberAuth();
   const orderOption = siteSettings?.order_option || 'order_via_messenger';
   
   // Load saved state from localStorage
@@ -72,6 +84,46 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
   const [useMultipleAccounts, setUseMultipleAccounts] = useState(() => {
     return localStorage.getItem('amber_checkout_useMultipleAccounts') === 'true';
   });
+  // Gift: the account fields are the recipient's. Not saved to localStorage, so a gift never
+  // carries over to the next order.
+  const [sendAsGift, setSendAsGift] = useState(false);
+  const [giftDetails, setGiftDetails] = useState<GiftDetails>(EMPTY_GIFT_DETAILS);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [appliedVoucher, setAppliedVoucher] = useState<AppliedVoucher | null>(null);
+  const [voucherError, setVoucherError] = useState<string | null>(null);
+  const [applyingVoucher, setApplyingVoucher] = useState(false);
+  // Split payment: the total is paid in parts, each with its own method, amount and receipt
+  const [splitPayment, setSplitPayment] = useState(() => {
+    return localStorage.getItem('amber_checkout_splitPayment') === 'true';
+  });
+  const [paymentParts, setPaymentParts] = useState<PaymentPartDraft[]>(() => {
+    try {
+      const saved = localStorage.getItem('amber_checkout_paymentParts');
+      return saved ? JSON.parse(saved) : [createPaymentPartDraft(), createPaymentPartDraft()];
+    } catch {
+      return [createPaymentPartDraft(), createPaymentPartDraft()];
+    }
+  });
+  const [uploadingPartId, setUploadingPartId] = useState<string | null>(null);
+  // Method and amount shown in the payment details modal for a part of a split payment
+  const [paymentDetailsPart, setPaymentDetailsPart] = useState<{ method: PaymentMethod; amount: number } | null>(null);
+
+  // Order amount: cart total minus the voucher discount (payment fees come on top, see amountDue)
+  const orderTotal = Math.max(0, Math.round((totalPrice - (appliedVoucher?.discount ?? 0)) * 100) / 100);
+
+  // No single method accepts the whole total, so the customer has to split the payment
+  const needsSplitPayment = paymentMethods.length > 0 && !paymentMethods.some(method => canPayWithMethod(method, orderTotal));
+  const splitPaymentIssue = splitPayment ? getSplitPaymentIssue(paymentParts, paymentMethods, orderTotal) : null;
+  const splitPaymentRemaining = getSplitPaymentRemaining(orderTotal, paymentParts);
+  const isPaymentReady = splitPayment ? !splitPaymentIssue : !!paymentMethod && !!receiptImageUrl;
+
+  // Convenience fee of the chosen payment method(s); split payments pay the fee of each part
+  const getPaymentPartFee = (part: PaymentPartDraft) =>
+    getPaymentMethodFee(paymentMethods.find(m => m.uuid_id === part.paymentMethodUuid), getPaymentPartAmount(part));
+  const paymentFee = splitPayment
+    ? Math.round(paymentParts.reduce((sum, part) => sum + getPaymentPartFee(part), 0) * 100) / 100
+    : getPaymentMethodFee(paymentMethod, orderTotal);
+  const amountDue = Math.round((orderTotal + paymentFee) * 100) / 100;
 
   // Restore payment method from saved ID
   React.useEffect(() => {
@@ -80,7 +132,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
       if (savedMethod) {
         // Check if payment method is still available based on order total
         if (savedMethod.max_order_amount !== null && savedMethod.max_order_amount !== undefined) {
-          if (totalPrice >= savedMethod.max_order_amount) {
+          if (orderTotal >= savedMethod.max_order_amount) {
             // Payment method is hidden due to order total, clear selection
             setPaymentMethod(null);
             setPaymentMethodId(null);
@@ -91,7 +143,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
         setPaymentMethod(savedMethod);
       }
     }
-  }, [paymentMethodId, paymentMethods, totalPrice]);
+  }, [paymentMethodId, paymentMethods, orderTotal]);
 
   // Update paymentMethodId when paymentMethod changes
   React.useEffect(() => {
@@ -107,13 +159,13 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
   // Clear selected payment method if it becomes unavailable due to order total
   React.useEffect(() => {
     if (paymentMethod && paymentMethod.max_order_amount !== null && paymentMethod.max_order_amount !== undefined) {
-      if (totalPrice >= paymentMethod.max_order_amount) {
+      if (orderTotal >= paymentMethod.max_order_amount) {
         setPaymentMethod(null);
         setPaymentMethodId(null);
         localStorage.removeItem('amber_checkout_paymentMethodId');
       }
     }
-  }, [totalPrice, paymentMethod]);
+  }, [orderTotal, paymentMethod]);
 
   // Save state to localStorage whenever it changes
   React.useEffect(() => {
@@ -147,11 +199,19 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
   React.useEffect(() => {
     localStorage.setItem('amber_checkout_useMultipleAccounts', useMultipleAccounts.toString());
   }, [useMultipleAccounts]);
+
+  React.useEffect(() => {
+    localStorage.setItem('amber_checkout_splitPayment', splitPayment.toString());
+  }, [splitPayment]);
+
+  React.useEffect(() => {
+    localStorage.setItem('amber_checkout_paymentParts', JSON.stringify(paymentParts));
+  }, [paymentParts]);
+
   const [orderId, setOrderId] = useState<string | null>(null);
   const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
   const [generatedInvoiceNumber, setGeneratedInvoiceNumber] = useState<string | null>(null);
-  const [invoiceNumberDate, setInvoiceNumberDate] = useState<string | null>(null);
   const [showPaymentDetailsModal, setShowPaymentDetailsModal] = useState(false);
 
   // Extract original menu item ID from cart item ID (format: "menuItemId:::CART:::timestamp-random")
@@ -359,6 +419,13 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
   }, []);
 
   const selectedPaymentMethod = paymentMethod;
+  // The payment details modal shows the part being paid when the payment is split
+  const paymentDetailsMethod = paymentDetailsPart?.method ?? selectedPaymentMethod;
+
+  const handleClosePaymentDetails = () => {
+    setShowPaymentDetailsModal(false);
+    setPaymentDetailsPart(null);
+  };
   
   const handleBulkInputChange = (fieldKey: string, value: string) => {
     setBulkInputValues(prev => ({ ...prev, [fieldKey]: value }));
@@ -404,158 +471,67 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
     setReceiptPreview(null);
     setReceiptError(null);
     setHasCopiedMessage(false); // Reset copy state when receipt is removed
-    setGeneratedInvoiceNumber(null); // Reset invoice number when receipt is removed
-    setInvoiceNumberDate(null);
   };
 
-  // Helper function to get current date in Philippine timezone (Asia/Manila, UTC+8)
-  const getPhilippineDate = () => {
-    const now = new Date();
-    // Convert to Philippine time (UTC+8)
-    const philippineTime = new Date(now.toLocaleString("en-US", { timeZone: "Asia/Manila" }));
-    // Get date components
-    const year = philippineTime.getFullYear();
-    const month = String(philippineTime.getMonth() + 1).padStart(2, '0');
-    const day = String(philippineTime.getDate()).padStart(2, '0');
-    return {
-      dateString: `${year}-${month}-${day}`, // YYYY-MM-DD
-      dayOfMonth: philippineTime.getDate(),
-      monthOfYear: philippineTime.getMonth() + 1 // 1-12
-    };
+  const handleSplitPaymentChange = (split: boolean) => {
+    setSplitPayment(split);
+    setReceiptError(null);
+    setHasCopiedMessage(false);
   };
 
-  // Generate invoice number (format: HGC{month}M{day}D{orderNumber})
-  // Example: HGC2M11D1 = 1st order on Feb 11, HGC2M11D2 = 2nd order on Feb 11
-  // Resets daily at 12:00 AM Philippine time (Asia/Manila, UTC+8)
-  // The invoice number increments each time "Copy Order Message" is clicked (forceNew = true)
-  // Subsequent calls (like "Order via Messenger") will reuse the same invoice number (forceNew = false)
-  // Uses database (site_settings) to track invoice count with proper locking to prevent race conditions
-  const generateInvoiceNumber = async (forceNew: boolean = false): Promise<string> => {
-    const { dateString: todayStr, dayOfMonth, monthOfYear } = getPhilippineDate();
-    
-    // Check if we already generated an invoice number for today and forceNew is false
-    // If forceNew is false, reuse the existing number from state
-    if (!forceNew && generatedInvoiceNumber && invoiceNumberDate === todayStr) {
-      return generatedInvoiceNumber;
-    }
+  const updatePaymentPart = (partId: string, changes: Partial<PaymentPartDraft>) => {
+    setPaymentParts(prev => prev.map(part => (part.id === partId ? { ...part, ...changes } : part)));
+    setReceiptError(null);
+    setHasCopiedMessage(false);
+  };
 
-    try {
-      // Get invoice count from database (site_settings table)
-      const countSettingId = 'invoice_count';
-      const dateSettingId = 'invoice_count_date';
-      
-      // Fetch current invoice count and date from database
-      // Use a transaction-like approach: fetch, check, update
-      const { data: countData, error: countError } = await supabase
-        .from('site_settings')
-        .select('value')
-        .eq('id', countSettingId)
-        .maybeSingle();
-      
-      if (countError) {
-        console.error('Error fetching invoice count:', countError);
-        // Continue with default value
-      }
-      
-      const { data: dateData, error: dateError } = await supabase
-        .from('site_settings')
-        .select('value')
-        .eq('id', dateSettingId)
-        .maybeSingle();
-      
-      if (dateError) {
-        console.error('Error fetching invoice count date:', dateError);
-        // Continue with default value
-      }
-      
-      let currentCount = 0;
-      const lastDate = dateData?.value || null;
-      
-      // Check if we need to reset (new day)
-      if (lastDate !== todayStr) {
-        // New day - reset the count to 0
-        currentCount = 0;
-        
-        // Update both count and date in database atomically
-        const { error: updateCountError } = await supabase
-          .from('site_settings')
-          .upsert({ id: countSettingId, value: '0', type: 'number', description: 'Current invoice count for the day' }, { onConflict: 'id' });
-        
-        if (updateCountError) {
-          console.error('Error updating invoice count:', updateCountError);
-        }
-        
-        const { error: updateDateError } = await supabase
-          .from('site_settings')
-          .upsert({ id: dateSettingId, value: todayStr, type: 'text', description: 'Date of the current invoice count' }, { onConflict: 'id' });
-        
-        if (updateDateError) {
-          console.error('Error updating invoice date:', updateDateError);
-        }
-      } else {
-        // Same day - get current count from database
-        currentCount = countData?.value ? parseInt(countData.value, 10) : 0;
-      }
-      
-      // If forceNew is true (Copy button clicked), always increment the count
-      // This ensures each new order gets a new invoice number
-      if (forceNew) {
-        currentCount += 1;
-        
-        // Update count in database - ensure this completes before returning
-        const { error: updateError } = await supabase
-          .from('site_settings')
-          .upsert({ id: countSettingId, value: currentCount.toString(), type: 'number', description: 'Current invoice count for the day' }, { onConflict: 'id' });
-        
-        if (updateError) {
-          console.error('Error updating invoice count:', updateError);
-          // Still use the incremented count even if update fails
-        }
-      } else {
-        // If forceNew is false and no count exists, start at 1
-        if (currentCount === 0) {
-          currentCount = 1;
-          const { error: updateError } = await supabase
-            .from('site_settings')
-            .upsert({ id: countSettingId, value: currentCount.toString(), type: 'number', description: 'Current invoice count for the day' }, { onConflict: 'id' });
-          
-          if (updateError) {
-            console.error('Error updating invoice count:', updateError);
-          }
-        }
-      }
+  const handleAddPaymentPart = () => {
+    setPaymentParts(prev => [...prev, createPaymentPartDraft()]);
+    setHasCopiedMessage(false);
+  };
 
-      const orderNumber = currentCount;
+  const handleRemovePaymentPart = (partId: string) => {
+    setPaymentParts(prev => prev.filter(part => part.id !== partId));
+    setHasCopiedMessage(false);
+  };
 
-      // Format: HGC{month}M{day}D{orderNumber} (e.g. HGC2M11D1 for Feb 11, 1st order)
-      const invoiceNumber = `HGC${monthOfYear}M${dayOfMonth}D${orderNumber}`;
-      
-      // Store the generated invoice number and date
-      setGeneratedInvoiceNumber(invoiceNumber);
-      setInvoiceNumberDate(todayStr);
-      
-      return invoiceNumber;
+  // Sets the part to whatever the other parts leave uncovered
+  const handleFillRemainingAmount = (partId: string) => {
+    const remaining = getSplitPaymentRemaining(orderTotal, paymentParts.filter(part => part.id !== partId));
+    updatePaymentPart(partId, { amount: remaining > 0 ? String(remaining) : '' });
+  };
+
+  const handlePartReceiptUpload = async (partId: string, file: File) => {
+    try {
+      setReceiptError(null);
+      setUploadingPartId(partId);
+      const url = await uploadImage(file, 'payment-receipts');
+      updatePaymentPart(partId, { receiptUrl: url, receiptName: file.name });
     } catch (error) {
-      console.error('Error generating invoice number:', error);
-      // Fallback if there's an error
-      const { dayOfMonth, monthOfYear } = getPhilippineDate();
-      return `HGC${monthOfYear}M${dayOfMonth}D1`;
+      console.error('Error uploading receipt:', error);
+      setReceiptError(error instanceof Error ? error.message : 'Failed to upload receipt');
+    } finally {
+      setUploadingPartId(null);
     }
   };
 
-  // Generate the order message text
-  const generateOrderMessage = async (forceNewInvoice: boolean = false): Promise<string> => {
-    // Generate invoice number first
-    // forceNewInvoice is true when "Copy Order Message" is clicked to generate a new number
-    // forceNewInvoice is false when "Order via Messenger" is clicked to reuse existing number
-    const invoiceNumber = await generateInvoiceNumber(forceNewInvoice);
-    
+  // Generate the order message text for the invoice number allocated with the order (see saveOrderToDb)
+  const generateOrderMessage = (invoiceNumber: string): string => {
     // Build message lines
     const lines: string[] = [];
     
     // Invoice number
     lines.push(`INVOICE # ${invoiceNumber}`);
     lines.push(''); // Break after invoice
+
+    // Gift: the account details below are the recipient's
+    if (sendAsGift) {
+      lines.push('GIFT ORDER (for another player)');
+      if (giftDetails.senderName.trim()) lines.push(`FROM: ${giftDetails.senderName.trim()}`);
+      if (giftDetails.message.trim()) lines.push(`MESSAGE: ${giftDetails.message.trim()}`);
+      if (giftDetails.recipientContact.trim()) lines.push(`RECIPIENT CONTACT: ${giftDetails.recipientContact.trim()}`);
+      lines.push('');
+    }
     
     // Handle multiple accounts mode
     if (useMultipleAccounts && canUseMultipleAccounts) {
@@ -696,6 +672,9 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
           }
           orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
           lines.push(orderLine);
+          if (item.selectedVariation && isBundle(item.selectedVariation)) {
+            lines.push(`INCLUDES: ${getBundleContentsLabel(item.selectedVariation, item.variations)}`);
+          }
         });
       });
       
@@ -711,6 +690,9 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
           }
           orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
           lines.push(orderLine);
+          if (item.selectedVariation && isBundle(item.selectedVariation)) {
+            lines.push(`INCLUDES: ${getBundleContentsLabel(item.selectedVariation, item.variations)}`);
+          }
         });
       }
     } else {
@@ -732,53 +714,125 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
         }
         orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
         lines.push(orderLine);
+        if (item.selectedVariation && isBundle(item.selectedVariation)) {
+          lines.push(`INCLUDES: ${getBundleContentsLabel(item.selectedVariation, item.variations)}`);
+        }
       });
     }
     
     // Payment
-    const paymentLine = `PAYMENT: ${selectedPaymentMethod?.name || ''}${selectedPaymentMethod?.account_name ? ` - ${selectedPaymentMethod.account_name}` : ''}`;
-    lines.push(paymentLine);
+    if (splitPayment) {
+      lines.push('PAYMENT (SPLIT):');
+      paymentParts.forEach(part => {
+        const method = paymentMethods.find(m => m.uuid_id === part.paymentMethodUuid);
+        const partFee = getPaymentPartFee(part);
+        const partTotal = Math.round((getPaymentPartAmount(part) + partFee) * 100) / 100;
+        lines.push(`- ${method?.name || ''}${method?.account_name ? ` - ${method.account_name}` : ''}: ₱${partTotal}${partFee > 0 ? ` (incl. ₱${partFee} fee)` : ''}`);
+      });
+    } else {
+      const paymentLine = `PAYMENT: ${selectedPaymentMethod?.name || ''}${selectedPaymentMethod?.account_name ? ` - ${selectedPaymentMethod.account_name}` : ''}`;
+      lines.push(paymentLine);
+    }
     
+    // Voucher
+    if (appliedVoucher) {
+      lines.push(`VOUCHER: ${appliedVoucher.code} (-₱${appliedVoucher.discount})`);
+    }
+
+    // Payment fee
+    if (paymentFee > 0) {
+      lines.push(`PAYMENT FEE: ₱${paymentFee}`);
+    }
+
     // Total
-    lines.push(`TOTAL: ₱${totalPrice}`);
+    lines.push(`TOTAL: ₱${amountDue}`);
     
     return lines.join('\n');
   };
 
+  const handleApplyVoucher = async () => {
+    if (!voucherCode.trim()) return;
+    setApplyingVoucher(true);
+    setVoucherError(null);
+    try {
+      setAppliedVoucher(await validateVoucher(voucherCode, cartItems, sessionToken));
+      setVoucherCode('');
+    } catch (error) {
+      console.error('Error applying voucher:', error);
+      setVoucherError(error instanceof Error ? error.message : 'Failed to apply voucher');
+    } finally {
+      setApplyingVoucher(false);
+    }
+  };
+
+  const handleRemoveVoucher = () => {
+    setAppliedVoucher(null);
+    setVoucherError(null);
+  };
+
+  // Re-check the applied voucher when the cart or the member changes (until the order is created)
+  const appliedVoucherCode = appliedVoucher?.code;
+  React.useEffect(() => {
+    if (!appliedVoucherCode || orderId) return;
+    let cancelled = false;
+    validateVoucher(appliedVoucherCode, cartItems, sessionToken)
+      .then(result => {
+        if (!cancelled) setAppliedVoucher(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setAppliedVoucher(null);
+        setVoucherError(error instanceof Error ? error.message : 'Voucher is no longer valid');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedVoucherCode, orderId, cartItems, sessionToken]);
+
   const isSavingOrder = useRef(false);
 
-  const saveOrderToDb = async () => {
-    if (orderId || isSavingOrder.current) return orderId;
+  // Creates the order once per checkout. The invoice number is allocated by the database
+  // together with the order (see useOrders.createOrder), so the same number is reused
+  // by every later copy / messenger action for this checkout.
+  // Shows the error itself when the order could not be created (e.g. prices changed server-side).
+  const saveOrderToDb = async (): Promise<{ id: string; invoiceNumber: string | null } | null> => {
+    if (orderId) return { id: orderId, invoiceNumber: generatedInvoiceNumber };
+    if (isSavingOrder.current) return null;
     
     try {
       isSavingOrder.current = true;
       const customerInfo = getCustomerInfo();
-      
-      // Generate invoice number if not already generated
-      // This ensures each order has a unique invoice number
-      let invoiceNum = generatedInvoiceNumber;
-      if (!invoiceNum || invoiceNumberDate !== getPhilippineDate().dateString) {
-        // Generate new invoice number (forceNew = true to ensure increment)
-        invoiceNum = await generateInvoiceNumber(true);
-      }
+      const parts = splitPayment
+        ? paymentParts.map(part => ({
+            payment_method_uuid: part.paymentMethodUuid!,
+            amount: getPaymentPartAmount(part),
+            receipt_url: part.receiptUrl!,
+          }))
+        : undefined;
+      const firstPartMethod = parts ? paymentMethods.find(m => m.uuid_id === parts[0].payment_method_uuid) : undefined;
       
       const newOrder = await createOrder({
         order_items: cartItems.map((item) => ({ ...item, totalPrice: getEffectiveUnitPrice(item) })),
         customer_info: customerInfo as Record<string, string> | Array<{ game: string; package: string; fields: Record<string, string> }>,
-          payment_method_id: paymentMethod!.id,
-        receipt_url: receiptImageUrl!,
-        total_price: totalPrice,
-        member_id: currentMember?.id,
+        payment_method_id: firstPartMethod ? firstPartMethod.id : paymentMethod!.id,
+        payment_method_uuid: firstPartMethod ? firstPartMethod.uuid_id : paymentMethod!.uuid_id,
+        receipt_url: parts ? parts[0].receipt_url : receiptImageUrl!,
+        total_price: amountDue,
+        member_session: sessionToken,
         order_option: orderOption,
-        invoice_number: invoiceNum,
+        voucher_code: appliedVoucher?.code,
+        payment_parts: parts,
       });
       
-      if (newOrder) {
+      if (newOrder?.invoice_number) {
         setOrderId(newOrder.id);
-        return newOrder.id;
+        setGeneratedInvoiceNumber(newOrder.invoice_number);
+        return { id: newOrder.id, invoiceNumber: newOrder.invoice_number };
       }
+      setReceiptError('Failed to create order. Please try again.');
     } catch (error) {
       console.error('Error saving order to database:', error);
+      setReceiptError(error instanceof Error ? error.message : 'Failed to create order. Please try again.');
     } finally {
       isSavingOrder.current = false;
     }
@@ -787,10 +841,10 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
 
   const handleCopyMessage = async () => {
     try {
-      // Create order first and allocate invoice from DB (invoice count) – single source of truth
-      await saveOrderToDb();
-      // Build message using that invoice (reuse – no extra increment)
-      const message = await generateOrderMessage(false);
+      // Create order first; the database allocates its invoice number – single source of truth
+      const savedOrder = await saveOrderToDb();
+      if (!savedOrder?.invoiceNumber) return;
+      const message = generateOrderMessage(savedOrder.invoiceNumber);
 
       const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) ||
         (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
@@ -854,204 +908,6 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
     }
   };
 
-  // Kept for potential future use (e.g. sync copy paths); order_via_messenger now uses DB invoice count
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const generateOrderMessageSync = async (invoiceNumber: string): Promise<string> => {
-    // Build message lines (same logic as generateOrderMessage but without invoice generation)
-    const lines: string[] = [];
-    
-    // Invoice number
-    lines.push(`INVOICE # ${invoiceNumber}`);
-    lines.push(''); // Break after invoice
-    
-    // Handle multiple accounts mode
-    if (useMultipleAccounts && canUseMultipleAccounts) {
-      // Group by game and variation
-      const gameGroups = new Map<string, Array<{ variationName: string; items: CartItem[]; fields: Array<{ label: string, value: string }> }>>();
-      
-      itemsByGameAndVariation.forEach(({ gameId, gameName, variationId, variationName, items }) => {
-        const firstItem = items[0];
-        if (!firstItem.customFields) return;
-        
-        const fields = firstItem.customFields.map(field => {
-          const valueKey = `${gameId}_${variationId}_${field.key}`;
-          const value = customFieldValues[valueKey] || '';
-          return value ? { label: field.label, value } : null;
-        }).filter(Boolean) as Array<{ label: string, value: string }>;
-        
-        if (fields.length === 0) return;
-        
-        if (!gameGroups.has(gameName)) {
-          gameGroups.set(gameName, []);
-        }
-        gameGroups.get(gameName)!.push({ variationName, items, fields });
-      });
-      
-      // Build message for each game (game name mentioned once)
-      gameGroups.forEach((variations, gameName) => {
-        lines.push(`GAME: ${gameName}`);
-        
-        variations.forEach(({ variationName, items, fields }) => {
-          // ID & SERVER or other fields
-          if (fields.length === 1) {
-            lines.push(`${fields[0].label}: ${fields[0].value}`);
-          } else if (fields.length > 1) {
-            // Combine fields with & if multiple
-            const allValuesSame = fields.every(f => f.value === fields[0].value);
-            if (allValuesSame) {
-              const labels = fields.map(f => f.label);
-              if (labels.length === 2) {
-                lines.push(`${labels[0]} & ${labels[1]}: ${fields[0].value}`);
-              } else {
-                const allButLast = labels.slice(0, -1).join(', ');
-                const lastLabel = labels[labels.length - 1];
-                lines.push(`${allButLast} & ${lastLabel}: ${fields[0].value}`);
-              }
-            } else {
-              // Different values, show each field separately
-              fields.forEach(field => {
-                lines.push(`${field.label}: ${field.value}`);
-              });
-            }
-          }
-          
-          // Order items for this variation
-          items.forEach(item => {
-            const variationText = item.selectedVariation ? ` ${item.selectedVariation.name}` : '';
-            const addOnsText = item.selectedAddOns && item.selectedAddOns.length > 0
-              ? ` + ${item.selectedAddOns.map(a => a.name).join(', ')}`
-              : '';
-            lines.push(`ORDER: ${item.name}${variationText}${addOnsText} x${item.quantity} - ₱${getEffectiveUnitPrice(item) * item.quantity}`);
-          });
-        });
-      });
-    } else if (hasAnyCustomFields) {
-      // Build game/order sections (single account or bulk mode)
-      // Group games by their field values (for bulk input)
-      const gamesByFieldValues = new Map<string, { games: string[], items: CartItem[], fields: Array<{ label: string, value: string }> }>();
-      const itemsWithoutFields: CartItem[] = [];
-      
-      cartItems.forEach(cartItem => {
-        const originalId = getOriginalMenuItemId(cartItem.id);
-        const item = itemsWithCustomFields.find(i => getOriginalMenuItemId(i.id) === originalId);
-        
-        if (!item || !item.customFields || item.customFields.length === 0) {
-          // Item without custom fields, handle separately
-          itemsWithoutFields.push(cartItem);
-          return;
-        }
-        
-        const fields = item.customFields.map(field => {
-          const valueKey = `${originalId}_${field.key}`;
-          const value = customFieldValues[valueKey] || '';
-          return value ? { label: field.label, value } : null;
-        }).filter(Boolean) as Array<{ label: string, value: string }> || [];
-        
-        if (fields.length === 0) {
-          // No field values, treat as item without fields
-          itemsWithoutFields.push(cartItem);
-          return;
-        }
-        
-        // Create a key based on field values (to group games with same values)
-        const valueKey = fields.map(f => `${f.label}:${f.value}`).join('|');
-        
-        if (!gamesByFieldValues.has(valueKey)) {
-          gamesByFieldValues.set(valueKey, { games: [], items: [], fields });
-        }
-        const group = gamesByFieldValues.get(valueKey)!;
-        if (!group.games.includes(item.name)) {
-          group.games.push(item.name);
-        }
-        group.items.push(cartItem);
-        group.fields = fields; // Use the fields from this item
-      });
-      
-      // Build sections for each group
-      gamesByFieldValues.forEach(({ games, items, fields }) => {
-        // Game name (only once if multiple games share same fields)
-        lines.push(`GAME: ${games.join(', ')}`);
-        
-        // ID & SERVER or other fields
-        if (fields.length === 1) {
-          lines.push(`${fields[0].label}: ${fields[0].value}`);
-        } else if (fields.length > 1) {
-          // Combine fields with & if multiple
-          const allValuesSame = fields.every(f => f.value === fields[0].value);
-          if (allValuesSame) {
-            // All values same, combine labels with &
-            const labels = fields.map(f => f.label);
-            if (labels.length === 2) {
-              lines.push(`${labels[0]} & ${labels[1]}: ${fields[0].value}`);
-            } else {
-              const allButLast = labels.slice(0, -1).join(', ');
-              const lastLabel = labels[labels.length - 1];
-              lines.push(`${allButLast} & ${lastLabel}: ${fields[0].value}`);
-            }
-          } else {
-            // Different values, show each field separately
-            const fieldPairs = fields.map(f => `${f.label}: ${f.value}`);
-            lines.push(fieldPairs.join(', '));
-          }
-        }
-        
-        // Order items
-        items.forEach(item => {
-          let orderLine = `ORDER: ${item.selectedVariation?.name || item.name}`;
-          if (item.quantity > 1) {
-            orderLine += ` x${item.quantity}`;
-          }
-          orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
-          lines.push(orderLine);
-        });
-      });
-      
-      // Handle items without custom fields
-      if (itemsWithoutFields.length > 0) {
-        const uniqueGames = [...new Set(itemsWithoutFields.map(item => item.name))];
-        lines.push(`GAME: ${uniqueGames.join(', ')}`);
-        
-        itemsWithoutFields.forEach(item => {
-          let orderLine = `ORDER: ${item.selectedVariation?.name || item.name}`;
-          if (item.quantity > 1) {
-            orderLine += ` x${item.quantity}`;
-          }
-          orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
-          lines.push(orderLine);
-        });
-      }
-    } else {
-      // No custom fields, single account mode
-      const uniqueGames = [...new Set(cartItems.map(item => item.name))];
-      lines.push(`GAME: ${uniqueGames.join(', ')}`);
-      
-      // Default IGN field
-      const ign = customFieldValues['default_ign'] || '';
-      if (ign) {
-        lines.push(`IGN: ${ign}`);
-      }
-      
-      // Order items
-      cartItems.forEach(item => {
-        let orderLine = `ORDER: ${item.selectedVariation?.name || item.name}`;
-        if (item.quantity > 1) {
-          orderLine += ` x${item.quantity}`;
-        }
-        orderLine += ` - ₱${getEffectiveUnitPrice(item) * item.quantity}`;
-        lines.push(orderLine);
-      });
-    }
-    
-    // Payment
-    const paymentLine = `PAYMENT: ${selectedPaymentMethod?.name || ''}${selectedPaymentMethod?.account_name ? ` - ${selectedPaymentMethod.account_name}` : ''}`;
-    lines.push(paymentLine);
-    
-    // Total
-    lines.push(`TOTAL: ₱${totalPrice}`);
-    
-    return lines.join('\n');
-  };
-
   const handleCopyAccountNumber = async (accountNumber: string) => {
     try {
       const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || 
@@ -1247,12 +1103,23 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
       });
       
       customerInfo = accountsData.length > 0 ? accountsData : {};
+
+      // Every account gets the gift details
+      if (sendAsGift && Array.isArray(customerInfo)) {
+        const giftInfo = getGiftCustomerInfo(giftDetails);
+        customerInfo = customerInfo.map(account => ({ ...account, fields: { ...account.fields, ...giftInfo } }));
+      }
     } else {
       // Single account mode: store as flat object
       const singleAccountInfo: Record<string, string> = {};
       
       // Add payment method
-      if (selectedPaymentMethod) {
+      if (splitPayment) {
+        singleAccountInfo['Payment Method'] = paymentParts
+          .map(part => paymentMethods.find(m => m.uuid_id === part.paymentMethodUuid)?.name)
+          .filter(Boolean)
+          .join(' + ');
+      } else if (selectedPaymentMethod) {
         singleAccountInfo['Payment Method'] = selectedPaymentMethod.name;
       }
 
@@ -1275,58 +1142,73 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
         }
       }
       
+      if (sendAsGift) {
+        Object.assign(singleAccountInfo, getGiftCustomerInfo(giftDetails));
+      }
+
       customerInfo = singleAccountInfo;
     }
     return customerInfo;
   };
 
-  const handlePlaceOrder = async () => {
+  // Shows what is still missing from the payment; false when the order cannot be placed yet
+  const validatePayment = (): boolean => {
+    if (splitPayment) {
+      if (splitPaymentIssue) {
+        setReceiptError(splitPaymentIssue);
+        return false;
+      }
+      return true;
+    }
+
     if (!paymentMethod) {
       setReceiptError('Please select a payment method');
-      return;
+      return false;
     }
     
     if (!receiptImageUrl) {
       setReceiptError('Please upload your payment receipt before placing the order');
-      return;
+      return false;
     }
+    return true;
+  };
 
-    // Save order to database if not already saved
-    await saveOrderToDb();
+  // Called once the order is placed (the gift details are already on the order)
+  const resetGift = () => {
+    setSendAsGift(false);
+    setGiftDetails(EMPTY_GIFT_DETAILS);
+  };
+
+  const handlePlaceOrder = async () => {
+    if (!validatePayment()) return;
+
+    // Save order to database if not already saved (Copy normally did this already)
+    const savedOrder = await saveOrderToDb();
+    if (!savedOrder?.invoiceNumber) return;
 
-    // Reuse the existing invoice number (don't generate a new one)
-    // If no invoice number exists yet, it will generate one, but ideally Copy should be clicked first
-    const orderDetails = await generateOrderMessage(false);
+    // Reuse the invoice number allocated with the order
+    const orderDetails = generateOrderMessage(savedOrder.invoiceNumber);
     const encodedMessage = encodeURIComponent(orderDetails);
     const messengerUrl = `https://m.me/hevengamecredit?text=${encodedMessage}`;
     
     window.open(messengerUrl, '_blank');
-    
+    resetGift();
   };
 
   const handlePlaceOrderDirect = async () => {
-    if (!paymentMethod) {
-      setReceiptError('Please select a payment method');
-      return;
-    }
-    
-    if (!receiptImageUrl) {
-      setReceiptError('Please upload your payment receipt before placing the order');
-      return;
-    }
+    if (!validatePayment()) return;
 
     setIsPlacingOrder(true);
     setReceiptError(null);
 
     try {
-      const savedOrderId = await saveOrderToDb();
+      const savedOrder = await saveOrderToDb();
 
-      if (savedOrderId) {
+      if (savedOrder) {
         // Store order ID in localStorage for "place_order" option so it can be shown when user returns
-        localStorage.setItem('pendingPlaceOrderId', savedOrderId);
+        localStorage.setItem('pendingPlaceOrderId', savedOrder.id);
         setIsOrderModalOpen(true);
-      } else {
-        setReceiptError('Failed to create order. Please try again.');
+        resetGift();
       }
     } catch (error) {
       console.error('Error placing order:', error);
@@ -1387,10 +1269,64 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
               <div className="w-6 h-6 rounded-full bg-cafe-primary text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
                 1
               </div>
-              <h2 className="text-sm font-medium text-cafe-text">Customer Information</h2>
+              <h2 className="text-sm font-medium text-cafe-text">{sendAsGift ? "Recipient's Account" : 'Customer Information'}</h2>
             </div>
             
             <form className="space-y-6">
+              {/* Send as gift */}
+              <div className="p-4 glass-strong border border-cafe-primary/30 rounded-lg">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={sendAsGift}
+                    onChange={(e) => setSendAsGift(e.target.checked)}
+                    className="w-5 h-5 text-cafe-primary border-cafe-primary/30 rounded focus:ring-cafe-primary"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-cafe-text flex items-center gap-1.5">
+                      <Gift className="h-4 w-4 text-cafe-primary" />
+                      Send as a gift
+                    </p>
+                    <p className="text-xs text-cafe-textMuted">Top up another player's account. Enter the recipient's game details below.</p>
+                  </div>
+                </label>
+                {sendAsGift && (
+                  <div className="space-y-3 mt-4 pt-4 border-t border-cafe-primary/20">
+                    <div>
+                      <label className="block text-sm font-medium text-cafe-text mb-2">Your name <span className="text-cafe-textMuted">(optional)</span></label>
+                      <input
+                        type="text"
+                        value={giftDetails.senderName}
+                        onChange={(e) => setGiftDetails(prev => ({ ...prev, senderName: e.target.value }))}
+                        className="w-full px-3 py-2 glass border border-cafe-primary/30 rounded-lg focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary transition-all duration-200 text-sm text-cafe-text placeholder-cafe-textMuted"
+                        placeholder="Who the gift is from"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cafe-text mb-2">Message <span className="text-cafe-textMuted">(optional)</span></label>
+                      <textarea
+                        value={giftDetails.message}
+                        onChange={(e) => setGiftDetails(prev => ({ ...prev, message: e.target.value }))}
+                        maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                        rows={2}
+                        className="w-full px-3 py-2 glass border border-cafe-primary/30 rounded-lg focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary transition-all duration-200 text-sm text-cafe-text placeholder-cafe-textMuted resize-none"
+                        placeholder="e.g. Happy birthday!"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-cafe-text mb-2">Recipient's contact <span className="text-cafe-textMuted">(optional)</span></label>
+                      <input
+                        type="text"
+                        value={giftDetails.recipientContact}
+                        onChange={(e) => setGiftDetails(prev => ({ ...prev, recipientContact: e.target.value }))}
+                        className="w-full px-3 py-2 glass border border-cafe-primary/30 rounded-lg focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary transition-all duration-200 text-sm text-cafe-text placeholder-cafe-textMuted"
+                        placeholder="Mobile number, email or Messenger – we'll let them know"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Bulk Input Section */}
               {itemsWithCustomFields.length >= 2 && (
                 <div className="mb-6 p-4 glass-strong border border-cafe-primary/30 rounded-lg">
@@ -1595,142 +1531,427 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
         {/* Separator */}
         <div className="border-t border-cafe-primary/30 my-6"></div>
 
+        {/* Voucher */}
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Ticket className="h-4 w-4 text-cafe-primary" />
+            <h2 className="text-sm font-medium text-cafe-text">Voucher</h2>
+          </div>
+          {appliedVoucher ? (
+            <div className="flex items-center justify-between gap-3 rounded-lg glass border border-green-500/40 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-green-300">{appliedVoucher.code}</p>
+                {appliedVoucher.description && (
+                  <p className="text-xs text-cafe-textMuted truncate">{appliedVoucher.description}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span className="text-sm font-semibold text-green-300">-₱{appliedVoucher.discount.toFixed(2)}</span>
+                {!orderId && (
+                  <button
+                    type="button"
+                    onClick={handleRemoveVoucher}
+                    className="p-1 glass-strong rounded-lg hover:bg-cafe-primary/20 transition-colors duration-200"
+                    aria-label="Remove voucher"
+                  >
+                    <X className="h-4 w-4 text-cafe-text" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={voucherCode}
+                onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleApplyVoucher();
+                  }
+                }}
+                disabled={!!orderId}
+                className="flex-1 min-w-0 px-4 py-2 glass border border-cafe-primary/30 rounded-lg text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary text-sm"
+                placeholder="Enter voucher code"
+                autoComplete="off"
+              />
+              <button
+                type="button"
+                onClick={handleApplyVoucher}
+                disabled={applyingVoucher || !voucherCode.trim() || !!orderId}
+                className="px-4 py-2 bg-cafe-primary text-white rounded-lg text-sm font-medium hover:bg-cafe-secondary transition-colors duration-200 disabled:opacity-50 flex items-center gap-2"
+              >
+                {applyingVoucher && <Loader2 className="h-4 w-4 animate-spin" />}
+                Apply
+              </button>
+            </div>
+          )}
+          {voucherError && <p className="text-xs text-red-400 mt-2">{voucherError}</p>}
+          <div className="mt-3 space-y-1 text-sm">
+            {(appliedVoucher || paymentFee > 0) && (
+              <div className="flex items-center justify-between text-cafe-textMuted">
+                <span>Subtotal</span>
+                <span>₱{appliedVoucher ? totalPrice : orderTotal}</span>
+              </div>
+            )}
+            {paymentFee > 0 && (
+              <div className="flex items-center justify-between text-cafe-textMuted">
+                <span>Payment fee</span>
+                <span>₱{paymentFee}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between font-semibold text-cafe-text">
+              <span>Total</span>
+              <span className="text-white">₱{amountDue}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Separator */}
+        <div className="border-t border-cafe-primary/30 my-6"></div>
+
         {/* Payment Section */}
         <div>
           <div className="flex items-center gap-3 mb-6">
             <div className="w-6 h-6 rounded-full bg-cafe-primary text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
               2
             </div>
-            <h2 className="text-sm font-medium text-cafe-text">Choose Payment Method</h2>
-            {paymentMethod && (
+            <h2 className="text-sm font-medium text-cafe-text">{splitPayment ? 'Split Payment' : 'Choose Payment Method'}</h2>
+            {paymentMethod && !splitPayment && (
               <span className="text-sm font-medium text-white ml-1">— {paymentMethod.name} Selected</span>
             )}
           </div>
-          
-          <div className="grid grid-cols-6 gap-1 md:gap-2 mb-6">
-            {paymentMethods
-              .filter((method) => {
-                // Filter payment methods based on max_order_amount
-                // If max_order_amount is set (e.g., 6000), only show if order total is less than that amount
-                if (method.max_order_amount !== null && method.max_order_amount !== undefined) {
-                  return totalPrice < method.max_order_amount;
-                }
-                // If no max_order_amount is set, show for all orders
-                return true;
-              })
-              .map((method) => (
+
+          {paymentMethods.length > 0 && (
+            <div className="flex gap-2 mb-4">
+              {[false, true].map((split) => (
+                <button
+                  key={String(split)}
+                  type="button"
+                  onClick={() => handleSplitPaymentChange(split)}
+                  className={`flex-1 py-2 rounded-lg border text-sm font-medium transition-colors duration-200 ${
+                    splitPayment === split
+                      ? 'bg-cafe-primary border-transparent text-white'
+                      : 'glass border-cafe-primary/30 text-cafe-text hover:border-cafe-primary'
+                  }`}
+                >
+                  {split ? 'Split payment' : 'Pay in full'}
+                </button>
+              ))}
+            </div>
+          )}
+          {needsSplitPayment && !splitPayment && (
+            <p className="text-xs text-yellow-300 mb-4">
+              No single payment method accepts ₱{orderTotal}. Split your payment across several methods or accounts.
+            </p>
+          )}
+
+          {splitPayment ? (
+            <div className="space-y-4 mb-6">
+              <p className="text-xs text-cafe-textMuted">
+                Pay the total in parts using different methods or accounts, then upload the receipt of each payment.
+              </p>
+              {paymentParts.map((part, index) => {
+                const partMethod = paymentMethods.find(m => m.uuid_id === part.paymentMethodUuid) || null;
+                const partAmount = getPaymentPartAmount(part);
+                const partFee = getPaymentPartFee(part);
+                return (
+                  <div key={part.id} className="glass border border-cafe-primary/30 rounded-lg p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium text-cafe-text">
+                        Payment {index + 1}{partMethod ? ` — ${partMethod.name}` : ''}
+                      </p>
+                      {paymentParts.length > 2 && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePaymentPart(part.id)}
+                          className="p-1 glass-strong rounded-lg hover:bg-red-500/20 transition-colors duration-200"
+                          aria-label={`Remove payment ${index + 1}`}
+                        >
+                          <X className="h-4 w-4 text-cafe-text" />
+                        </button>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-6 gap-1 md:gap-2">
+                      {paymentMethods.map((method) => {
+                        const usable = partAmount <= 0 || canPayPartWithMethod(method, partAmount);
+                        return (
+                          <button
+                            key={method.uuid_id}
+                            type="button"
+                            disabled={!usable}
+                            onClick={() => updatePaymentPart(part.id, { paymentMethodUuid: method.uuid_id })}
+                            title={method.admin_name ? `${method.name} – ${method.admin_name}` : method.name}
+                            className={`rounded-lg border-2 transition-all duration-200 overflow-hidden ${
+                              part.paymentMethodUuid === method.uuid_id
+                                ? 'border-transparent bg-cafe-primary'
+                                : 'glass border-cafe-primary/30 hover:border-cafe-primary'
+                            } ${usable ? '' : 'opacity-40 cursor-not-allowed'}`}
+                          >
+                            <div className="relative w-full aspect-square overflow-hidden bg-gradient-to-br from-cafe-darkCard to-cafe-darkBg rounded-lg">
+                              {method.icon_url ? (
+                                <img src={method.icon_url} alt={method.name} className="w-full h-full object-cover" />
+                              ) : (
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <span className="text-xl md:text-3xl">💳</span>
+                                </div>
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                    {partMethod && (
+                      <p className="text-xs text-cafe-textMuted">
+                        {partMethod.account_name}
+                        {partMethod.admin_name ? ` · ${partMethod.admin_name}` : ''}
+                        {partMethod.max_order_amount != null ? ` · below ₱${partMethod.max_order_amount}${hasPaymentMethodFee(partMethod) ? ' with the fee' : ''}` : ''}
+                        {hasPaymentMethodFee(partMethod) ? ` · fee ${formatPaymentMethodFee(partMethod)}` : ''}
+                      </p>
+                    )}
+
+                    <div className="flex gap-2">
+                      <div className="relative flex-1 min-w-0">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-cafe-textMuted">₱</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          inputMode="decimal"
+                          value={part.amount}
+                          onChange={(e) => updatePaymentPart(part.id, { amount: e.target.value })}
+                          className="w-full pl-7 pr-3 py-2 glass border border-cafe-primary/30 rounded-lg text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary text-sm"
+                          placeholder="Amount"
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleFillRemainingAmount(part.id)}
+                        className="px-3 py-2 glass-strong rounded-lg text-xs font-medium text-cafe-text hover:bg-cafe-primary/20 transition-colors duration-200"
+                      >
+                        Rest
+                      </button>
+                      {partMethod && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setPaymentDetailsPart({ method: partMethod, amount: Math.round((partAmount + partFee) * 100) / 100 });
+                            setShowPaymentDetailsModal(true);
+                          }}
+                          className="px-3 py-2 bg-cafe-primary text-white rounded-lg text-xs font-medium hover:bg-cafe-secondary transition-colors duration-200"
+                        >
+                          Pay
+                        </button>
+                      )}
+                    </div>
+
+                    {part.receiptUrl ? (
+                      <div className="flex items-center gap-3">
+                        <img
+                          src={part.receiptUrl}
+                          alt={`Payment ${index + 1} receipt`}
+                          className="w-12 h-12 object-cover rounded-lg border border-cafe-primary/30"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-cafe-text truncate">{part.receiptName || 'Receipt uploaded'}</p>
+                          <p className="text-xs text-cafe-textMuted">✓ Uploaded successfully</p>
+                        </div>
+                        <button
+                          onClick={() => updatePaymentPart(part.id, { receiptUrl: null, receiptName: null })}
+                          className="flex-shrink-0 p-2 glass-strong rounded-lg hover:bg-red-500/20 transition-colors duration-200"
+                          disabled={uploadingReceipt}
+                        >
+                          <X className="h-4 w-4 text-cafe-text" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="border-2 border-dashed border-cafe-primary/30 rounded-lg p-3 hover:border-cafe-primary transition-colors duration-200">
+                        <input
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp,image/gif"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              handlePartReceiptUpload(part.id, file);
+                            }
+                          }}
+                          className="hidden"
+                          id={`receipt-upload-${part.id}`}
+                          disabled={uploadingReceipt}
+                        />
+                        <label
+                          htmlFor={`receipt-upload-${part.id}`}
+                          className={`cursor-pointer flex items-center justify-center gap-2 ${uploadingReceipt ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                          {uploadingPartId === part.id ? (
+                            <>
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-cafe-primary"></div>
+                              <span className="text-sm text-cafe-textMuted">Uploading...</span>
+                            </>
+                          ) : (
+                            <>
+                              <Upload className="h-4 w-4 text-cafe-primary" />
+                              <span className="text-sm text-cafe-text">Upload receipt <span className="text-red-400">*</span></span>
+                            </>
+                          )}
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
               <button
-                key={method.id}
                 type="button"
-                onClick={() => {
-                  setPaymentMethod(method);
-                  setShowPaymentDetailsModal(true);
-                }}
-                className={`rounded-lg border-2 transition-all duration-200 flex flex-col overflow-hidden ${
-                  paymentMethod?.id === method.id
-                    ? 'border-transparent bg-cafe-primary'
-                    : 'glass border-cafe-primary/30 hover:border-cafe-primary hover:glass-strong'
-                }`}
+                onClick={handleAddPaymentPart}
+                className="w-full py-2 glass border border-dashed border-cafe-primary/30 rounded-lg text-sm text-cafe-text hover:border-cafe-primary transition-colors duration-200 flex items-center justify-center gap-2"
               >
-                {/* Icon fills the card */}
-                <div className="relative w-full aspect-square flex-shrink-0 overflow-hidden bg-gradient-to-br from-cafe-darkCard to-cafe-darkBg rounded-lg">
-                  {method.icon_url ? (
-                    <img
-                      src={method.icon_url}
-                      alt={method.name}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <span className="text-2xl md:text-4xl">💳</span>
-                    </div>
-                  )}
-                </div>
+                <Plus className="h-4 w-4" />
+                Add another payment
               </button>
-            ))}
-          </div>
 
-          {/* Receipt Upload Section */}
-          <div className="mb-6">
-            <div className="flex items-center gap-3 mb-2">
-              <div className="w-6 h-6 rounded-full bg-cafe-primary text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
-                3
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-cafe-textMuted">Order total ₱{orderTotal}</span>
+                <span className={Math.abs(splitPaymentRemaining) <= 0.01 ? 'text-green-300' : 'text-yellow-300'}>
+                  {splitPaymentRemaining > 0.01
+                    ? `₱${splitPaymentRemaining} left to cover`
+                    : splitPaymentRemaining < -0.01
+                      ? `₱${-splitPaymentRemaining} over the total`
+                      : 'Fully covered'}
+                </span>
               </div>
-              <label className="text-sm font-medium text-cafe-text">
-                Payment Receipt <span className="text-red-400">*</span>
-              </label>
+
+              {receiptError && (
+                <p className="text-sm text-red-400">{receiptError}</p>
+              )}
             </div>
-            
-            {!receiptPreview ? (
-              <div className="relative glass border-2 border-dashed border-cafe-primary/30 rounded-lg p-6 text-center hover:border-cafe-primary transition-colors duration-200">
-                <input
-                  type="file"
-                  accept="image/jpeg,image/png,image/webp,image/gif"
-                  onChange={(e) => {
-                    const file = e.target.files?.[0];
-                    if (file) {
-                      handleReceiptUpload(file);
-                    }
-                  }}
-                  className="hidden"
-                  id="receipt-upload"
-                  disabled={uploadingReceipt}
-                />
-                <label
-                  htmlFor="receipt-upload"
-                  className={`cursor-pointer flex flex-col items-center space-y-2 ${uploadingReceipt ? 'opacity-50 cursor-not-allowed' : ''}`}
-                >
-                  {uploadingReceipt ? (
-                    <>
-                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cafe-primary"></div>
-                      <span className="text-sm text-cafe-textMuted">Uploading...</span>
-                    </>
-                  ) : (
-                    <>
-                      <Upload className="h-8 w-8 text-cafe-primary" />
-                      <span className="text-sm text-cafe-text">Click to upload receipt</span>
-                      <span className="text-xs text-cafe-textMuted">JPEG, PNG, WebP, or GIF (Max 5MB)</span>
-                    </>
-                  )}
-                </label>
-              </div>
-            ) : (
-              <div className="relative glass border border-cafe-primary/30 rounded-lg p-4">
-                <div className="flex items-center space-x-4">
-                  <div className="flex-shrink-0">
-                    <img
-                      src={receiptPreview}
-                      alt="Receipt preview"
-                      className="w-20 h-20 object-cover rounded-lg border border-cafe-primary/30"
-                    />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-cafe-text truncate">
-                      {receiptFile?.name || 'Receipt uploaded'}
-                    </p>
-                    <p className="text-xs text-cafe-textMuted">
-                      {receiptImageUrl ? '✓ Uploaded successfully' : 'Uploading...'}
-                    </p>
-                  </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-6 gap-1 md:gap-2 mb-6">
+                {paymentMethods
+                  .filter((method) => canPayWithMethod(method, orderTotal))
+                  .map((method) => (
                   <button
-                    onClick={handleReceiptRemove}
-                    className="flex-shrink-0 p-2 glass-strong rounded-lg hover:bg-red-500/20 transition-colors duration-200"
-                    disabled={uploadingReceipt}
+                    key={method.id}
+                    type="button"
+                    onClick={() => {
+                      setPaymentMethod(method);
+                      setShowPaymentDetailsModal(true);
+                    }}
+                    className={`rounded-lg border-2 transition-all duration-200 flex flex-col overflow-hidden ${
+                      paymentMethod?.id === method.id
+                        ? 'border-transparent bg-cafe-primary'
+                        : 'glass border-cafe-primary/30 hover:border-cafe-primary hover:glass-strong'
+                    }`}
                   >
-                    <X className="h-4 w-4 text-cafe-text" />
+                    {/* Icon fills the card */}
+                    <div className="relative w-full aspect-square flex-shrink-0 overflow-hidden bg-gradient-to-br from-cafe-darkCard to-cafe-darkBg rounded-lg">
+                      {method.icon_url ? (
+                        <img
+                          src={method.icon_url}
+                          alt={method.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <span className="text-2xl md:text-4xl">💳</span>
+                        </div>
+                      )}
+                    </div>
                   </button>
-                </div>
+                ))}
               </div>
-            )}
+              {paymentMethod && hasPaymentMethodFee(paymentMethod) && (
+                <p className="-mt-4 mb-6 text-xs text-cafe-textMuted">
+                  {paymentMethod.name} adds a fee of {formatPaymentMethodFee(paymentMethod)} (₱{paymentFee} on this order)
+                </p>
+              )}
 
-            {receiptError && (
-              <p className="mt-2 text-sm text-red-400">{receiptError}</p>
-            )}
+              {/* Receipt Upload Section */}
+              <div className="mb-6">
+                <div className="flex items-center gap-3 mb-2">
+                  <div className="w-6 h-6 rounded-full bg-cafe-primary text-white flex items-center justify-center text-xs font-bold flex-shrink-0">
+                    3
+                  </div>
+                  <label className="text-sm font-medium text-cafe-text">
+                    Payment Receipt <span className="text-red-400">*</span>
+                  </label>
+                </div>
+                
+                {!receiptPreview ? (
+                  <div className="relative glass border-2 border-dashed border-cafe-primary/30 rounded-lg p-6 text-center hover:border-cafe-primary transition-colors duration-200">
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp,image/gif"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) {
+                          handleReceiptUpload(file);
+                        }
+                      }}
+                      className="hidden"
+                      id="receipt-upload"
+                      disabled={uploadingReceipt}
+                    />
+                    <label
+                      htmlFor="receipt-upload"
+                      className={`cursor-pointer flex flex-col items-center space-y-2 ${uploadingReceipt ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      {uploadingReceipt ? (
+                        <>
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cafe-primary"></div>
+                          <span className="text-sm text-cafe-textMuted">Uploading...</span>
+                        </>
+                      ) : (
+                        <>
+                          <Upload className="h-8 w-8 text-cafe-primary" />
+                          <span className="text-sm text-cafe-text">Click to upload receipt</span>
+                          <span className="text-xs text-cafe-textMuted">JPEG, PNG, WebP, or GIF (Max 5MB)</span>
+                        </>
+                      )}
+                    </label>
+                  </div>
+                ) : (
+                  <div className="relative glass border border-cafe-primary/30 rounded-lg p-4">
+                    <div className="flex items-center space-x-4">
+                      <div className="flex-shrink-0">
+                        <img
+                          src={receiptPreview}
+                          alt="Receipt preview"
+                          className="w-20 h-20 object-cover rounded-lg border border-cafe-primary/30"
+                        />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-cafe-text truncate">
+                          {receiptFile?.name || 'Receipt uploaded'}
+                        </p>
+                        <p className="text-xs text-cafe-textMuted">
+                          {receiptImageUrl ? '✓ Uploaded successfully' : 'Uploading...'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={handleReceiptRemove}
+                        className="flex-shrink-0 p-2 glass-strong rounded-lg hover:bg-red-500/20 transition-colors duration-200"
+                        disabled={uploadingReceipt}
+                      >
+                        <X className="h-4 w-4 text-cafe-text" />
+                      </button>
+                    </div>
+                  </div>
+                )}
 
-            <p className="text-xs text-cafe-textMuted text-center mt-3">
-              Please upload a screenshot of your payment receipt. This helps us verify and process your order quickly.
-            </p>
-          </div>
+                {receiptError && (
+                  <p className="mt-2 text-sm text-red-400">{receiptError}</p>
+                )}
+
+                <p className="text-xs text-cafe-textMuted text-center mt-3">
+                  Please upload a screenshot of your payment receipt. This helps us verify and process your order quickly.
+                </p>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Separator */}
@@ -1744,15 +1965,15 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
               {/* Copy button - must be clicked before placing order */}
               <button
                 onClick={handleCopyMessage}
-                disabled={uploadingReceipt || !paymentMethod || !receiptImageUrl}
+                disabled={uploadingReceipt || !isPaymentReady}
                 className={`relative w-full py-3 rounded-xl font-medium transition-all duration-200 transform mb-3 flex items-center justify-center space-x-2 ${
-                  !uploadingReceipt && paymentMethod && receiptImageUrl
+                  !uploadingReceipt && isPaymentReady
                     ? 'glass border border-cafe-primary/30 text-cafe-text hover:border-cafe-primary hover:glass-strong'
                     : 'glass border border-cafe-primary/20 text-cafe-textMuted cursor-not-allowed'
                 }`}
               >
                 <div className={`absolute top-2 left-2 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                  !uploadingReceipt && paymentMethod && receiptImageUrl
+                  !uploadingReceipt && isPaymentReady
                     ? 'bg-cafe-primary text-white'
                     : 'bg-cafe-textMuted/30 text-cafe-textMuted'
                 }`}>
@@ -1774,15 +1995,15 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
               {/* Place Order button - requires payment method, receipt, and copy button to be clicked */}
               <button
                 onClick={handlePlaceOrder}
-                disabled={!paymentMethod || !receiptImageUrl || uploadingReceipt || !hasCopiedMessage}
+                disabled={!isPaymentReady || uploadingReceipt || !hasCopiedMessage}
                 className={`relative w-full py-4 rounded-xl font-medium text-lg transition-all duration-200 transform ${
-                  paymentMethod && receiptImageUrl && !uploadingReceipt && hasCopiedMessage
+                  isPaymentReady && !uploadingReceipt && hasCopiedMessage
                     ? 'text-white bg-cafe-primary hover:bg-cafe-secondary hover:opacity-90 hover:scale-[1.02]'
                     : 'glass text-cafe-textMuted cursor-not-allowed'
                 }`}
               >
                 <div className={`absolute top-2 left-2 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                  paymentMethod && receiptImageUrl && !uploadingReceipt && hasCopiedMessage
+                  isPaymentReady && !uploadingReceipt && hasCopiedMessage
                     ? 'bg-cafe-primary text-white'
                     : 'bg-cafe-textMuted/30 text-cafe-textMuted'
                 }`}>
@@ -1800,15 +2021,15 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
               {/* Place Order button - for place_order option */}
               <button
                 onClick={handlePlaceOrderDirect}
-                disabled={!paymentMethod || !receiptImageUrl || uploadingReceipt || isPlacingOrder}
+                disabled={!isPaymentReady || uploadingReceipt || isPlacingOrder}
                 className={`relative w-full py-4 rounded-xl font-medium text-lg transition-all duration-200 transform ${
-                  paymentMethod && receiptImageUrl && !uploadingReceipt && !isPlacingOrder
+                  isPaymentReady && !uploadingReceipt && !isPlacingOrder
                     ? 'text-white bg-cafe-primary hover:bg-cafe-secondary hover:opacity-90 hover:scale-[1.02]'
                     : 'glass text-cafe-textMuted cursor-not-allowed'
                 }`}
               >
                 <div className={`absolute top-2 left-2 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                  paymentMethod && receiptImageUrl && !uploadingReceipt && !isPlacingOrder
+                  isPaymentReady && !uploadingReceipt && !isPlacingOrder
                     ? 'bg-cafe-primary text-white'
                     : 'bg-cafe-textMuted/30 text-cafe-textMuted'
                 }`}>
@@ -1822,13 +2043,13 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
       </div>
 
       {/* Payment Details Modal */}
-      {showPaymentDetailsModal && selectedPaymentMethod && (
+      {showPaymentDetailsModal && paymentDetailsMethod && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="glass-card rounded-xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-6">
               <h3 className="text-2xl font-semibold text-cafe-text">Payment Details</h3>
               <button
-                onClick={() => setShowPaymentDetailsModal(false)}
+                onClick={handleClosePaymentDetails}
                 className="p-2 glass-strong rounded-lg hover:bg-cafe-primary/20 transition-colors duration-200"
               >
                 <X className="h-5 w-5 text-cafe-text" />
@@ -1842,8 +2063,8 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
             <div className="space-y-4">
               {/* Payment Method Name and Amount */}
               <div className="flex items-center justify-between">
-                <p className="text-lg font-semibold text-cafe-text">{selectedPaymentMethod.name}</p>
-                <p className="text-xl font-semibold text-white">₱{totalPrice}</p>
+                <p className="text-lg font-semibold text-cafe-text">{paymentDetailsMethod.name}</p>
+                <p className="text-xl font-semibold text-white">₱{paymentDetailsPart ? paymentDetailsPart.amount : amountDue}</p>
               </div>
               
               {/* Account Number and Account Name in one row */}
@@ -1853,7 +2074,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
                   <div className="flex items-center gap-2 mb-1">
                     <p className="text-sm text-cafe-textMuted">Number:</p>
                     <button
-                      onClick={() => handleCopyAccountNumber(selectedPaymentMethod.account_number)}
+                      onClick={() => handleCopyAccountNumber(paymentDetailsMethod.account_number)}
                       className="p-1.5 glass-strong rounded-lg hover:bg-cafe-primary/20 transition-colors duration-200 flex-shrink-0"
                       title="Copy account number"
                     >
@@ -1864,7 +2085,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
                       )}
                     </button>
                   </div>
-                  <p className="font-mono text-cafe-text font-medium text-sm">{selectedPaymentMethod.account_number}</p>
+                  <p className="font-mono text-cafe-text font-medium text-sm">{paymentDetailsMethod.account_number}</p>
                 </div>
                 
                 {/* Account Name with Copy Button */}
@@ -1872,7 +2093,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
                   <div className="flex items-center gap-2 mb-1">
                     <p className="text-sm text-cafe-textMuted">Name:</p>
                     <button
-                      onClick={() => handleCopyAccountName(selectedPaymentMethod.account_name)}
+                      onClick={() => handleCopyAccountName(paymentDetailsMethod.account_name)}
                       className="p-1.5 glass-strong rounded-lg hover:bg-cafe-primary/20 transition-colors duration-200 flex-shrink-0"
                       title="Copy account name"
                     >
@@ -1883,7 +2104,7 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
                       )}
                     </button>
                   </div>
-                  <p className="text-cafe-text font-medium text-sm">{selectedPaymentMethod.account_name}</p>
+                  <p className="text-cafe-text font-medium text-sm">{paymentDetailsMethod.account_name}</p>
                 </div>
               </div>
               
@@ -1893,11 +2114,11 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
               </div>
               
               {/* Download QR Button and QR Image */}
-              {selectedPaymentMethod.qr_code_url ? (
+              {paymentDetailsMethod.qr_code_url ? (
               <div className="flex flex-col items-center gap-3">
                 {!isMessengerBrowser && (
                   <button
-                    onClick={() => handleDownloadQRCode(selectedPaymentMethod.qr_code_url, selectedPaymentMethod.name)}
+                    onClick={() => handleDownloadQRCode(paymentDetailsMethod.qr_code_url, paymentDetailsMethod.name)}
                     className="px-3 py-1.5 glass-strong rounded-lg hover:bg-cafe-primary/20 transition-colors duration-200 text-sm font-medium text-cafe-text flex items-center gap-2"
                     title="Download QR code"
                   >
@@ -1909,8 +2130,8 @@ const Checkout: React.FC<CheckoutProps> = ({ cartItems, getEffectiveUnitPrice, t
                   <p className="text-xs text-cafe-textMuted text-center">Long-press the QR code to save</p>
                 )}
                 <img 
-                  src={selectedPaymentMethod.qr_code_url} 
-                  alt={`${selectedPaymentMethod.name} QR Code`}
+                  src={paymentDetailsMethod.qr_code_url} 
+                  alt={`${paymentDetailsMethod.name} QR Code`}
                   className="w-32 h-32 rounded-lg border-2 border-cafe-primary/30 shadow-sm"
                   onError={(e) => {
                     e.currentTarget.src = 'https://images.pexels.com/photos/8867482/pexels-photo-8867482.jpeg?auto=compress&cs=tinysrgb&w=300&h=300&fit=crop';
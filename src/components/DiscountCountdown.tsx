@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { MenuItem } from '../types';
+import { formatCountdown, getDiscountScheduleState } from '../lib/discountSchedule';
+
+interface DiscountCountdownProps {
+  item: MenuItem;
+  /** 'badge' = small overlay on the card image; 'inline' = text line in the item modal */
+  variant?: 'badge' | 'inline';
+}
+
+// Ticks on its own so only the badge re-renders, not the whole card
+const DiscountCountdown: React.FC<DiscountCountdownProps> = ({ item, variant = 'badge' }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  const state = getDiscountScheduleState(item, now);
+  const target = state === 'upcoming' ? item.discountStartDate : state === 'live' ? item.discountEndDate : undefined;
+
+  useEffect(() => {
+    if (!target) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  if (!target) return null;
+
+  const remaining = formatCountdown(new Date(target).getTime() - now);
+  const percent = item.discountPercentage != null ? `${Math.round(item.discountPercentage * 100)}% OFF` : 'Sale';
+  const label = state === 'live' ? `Ends in ${remaining}` : `${percent} in ${remaining}`;
+
+  if (variant === 'inline') {
+    return (
+      <p className="text-xs font-semibold text-cafe-primary mt-2 drop-shadow-md">
+        {state === 'live' ? `Sale ends in ${remaining}` : `${percent} starts in ${remaining}`}
+      </p>
+    );
+  }
+
+  return (
+    <span className={`absolute bottom-0 left-0 text-[9px] font-bold px-1 py-0.5 rounded-tr-md ${
+      state === 'live' ? 'bg-black/70 text-white' : 'bg-black/70 text-cafe-primary'
+    }`}>
+      {label}
+    </span>
+  );
+};
+
+export default DiscountCountdown;
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, Zap } from 'lucide-react';
+import { FlashSale } from '../types';
+import { useFlashSales, FlashSaleFormData } from '../hooks/useFlashSales';
+import { useMenu } from '../hooks/useMenu';
+import { formatManilaDateTime, fromManilaDateTimeInput, toManilaDateTimeInput } from '../lib/discountSchedule';
+import { getFlashSaleRemaining, isFlashSaleLive } from '../lib/flashSale';
+
+interface FlashSaleManagerProps {
+  onBack: () => void;
+}
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface FlashSaleFormState {
+  menu_item_id: string;
+  variation_id: string;
+  sale_price: string;
+  quantity_cap: string;
+  per_member_cap: string;
+  starts_at: string; // Manila time, datetime-local format
+  ends_at: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: FlashSaleFormState = {
+  menu_item_id: '',
+  variation_id: '',
+  sale_price: '',
+  quantity_cap: '',
+  per_member_cap: '',
+  starts_at: '',
+  ends_at: '',
+  active: true,
+};
+
+const getFlashSaleState = (sale: FlashSale): { label: string; className: string } => {
+  const now = Date.now();
+  if (!sale.active) return { label: 'Inactive', className: 'bg-red-100 text-red-800' };
+  if (new Date(sale.ends_at).getTime() <= now) return { label: 'Ended', className: 'bg-gray-100 text-gray-700' };
+  if (new Date(sale.starts_at).getTime() > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (getFlashSaleRemaining(sale) === 0) return { label: 'Sold out', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Live', className: 'bg-green-100 text-green-800' };
+};
+
+const FlashSaleManager: React.FC<FlashSaleManagerProps> = ({ onBack }) => {
+  const { flashSales, loading, addFlashSale, updateFlashSale, deleteFlashSale } = useFlashSales();
+  const { menuItems } = useMenu();
+  const [currentView, setCurrentView] = useState<'list' | 'add' | 'edit'>('list');
+  const [editingSale, setEditingSale] = useState<FlashSale | null>(null);
+  const [formData, setFormData] = useState<FlashSaleFormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const findPackage = (variationId: string) => {
+    for (const item of menuItems) {
+      const variation = item.variations?.find(v => v.id === variationId);
+      if (variation) return { item, variation };
+    }
+    return undefined;
+  };
+
+  const selectedItem = menuItems.find(item => item.id === formData.menu_item_id);
+  const selectedVariation = selectedItem?.variations?.find(v => v.id === formData.variation_id);
+
+  const handleAddSale = () => {
+    setEditingSale(null);
+    setFormData(EMPTY_FORM);
+    setCurrentView('add');
+  };
+
+  const handleEditSale = (sale: FlashSale) => {
+    setEditingSale(sale);
+    setFormData({
+      menu_item_id: findPackage(sale.variation_id)?.item.id || '',
+      variation_id: sale.variation_id,
+      sale_price: String(sale.sale_price),
+      quantity_cap: String(sale.quantity_cap),
+      per_member_cap: sale.per_member_cap != null ? String(sale.per_member_cap) : '',
+      starts_at: toManilaDateTimeInput(sale.starts_at),
+      ends_at: toManilaDateTimeInput(sale.ends_at),
+      active: sale.active,
+    });
+    setCurrentView('edit');
+  };
+
+  const handleDeleteSale = async (sale: FlashSale) => {
+    if (!confirm('Delete this flash sale? Orders already placed keep their sale price.')) return;
+    try {
+      await deleteFlashSale(sale.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete flash sale');
+    }
+  };
+
+  const handleCancel = () => {
+    setCurrentView('list');
+    setEditingSale(null);
+  };
+
+  const handleSaveSale = async () => {
+    const salePrice = Number(formData.sale_price);
+    const quantityCap = Number(formData.quantity_cap);
+    const perMemberCap = formData.per_member_cap.trim() === '' ? null : Number(formData.per_member_cap);
+    const startsAt = fromManilaDateTimeInput(formData.starts_at);
+    const endsAt = fromManilaDateTimeInput(formData.ends_at);
+
+    if (!formData.variation_id) {
+      alert('Please choose the package on sale');
+      return;
+    }
+    if (formData.sale_price.trim() === '' || !(salePrice >= 0)) {
+      alert('Please enter a valid sale price');
+      return;
+    }
+    if (!Number.isInteger(quantityCap) || quantityCap < 1) {
+      alert('Please enter how many units are available at the sale price');
+      return;
+    }
+    if (perMemberCap !== null && (!Number.isInteger(perMemberCap) || perMemberCap < 1)) {
+      alert('The limit per member must be a whole number of at least 1');
+      return;
+    }
+    if (!startsAt || !endsAt) {
+      alert('Please set when the sale starts and ends');
+      return;
+    }
+    if (new Date(startsAt) >= new Date(endsAt)) {
+      alert('The sale must start before it ends');
+      return;
+    }
+
+    const sale: FlashSaleFormData = {
+      variation_id: formData.variation_id,
+      sale_price: salePrice,
+      quantity_cap: quantityCap,
+      per_member_cap: perMemberCap,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      active: formData.active,
+    };
+
+    try {
+      setSaving(true);
+      if (editingSale) {
+        await updateFlashSale(editingSale.id, sale);
+      } else {
+        await addFlashSale(sale);
+      }
+      setCurrentView('list');
+      setEditingSale(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save flash sale');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Form View (Add/Edit)
+  if (currentView === 'add' || currentView === 'edit') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between h-16">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </button>
+                <h1 className="text-xs font-semibold text-black">
+                  {currentView === 'add' ? 'Add Flash Sale' : 'Edit Flash Sale'}
+                </h1>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleCancel}
+                  className="px-3 py-1.5 md:px-4 md:py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center space-x-2 text-xs"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel</span>
+                </button>
+                <button
+                  onClick={handleSaveSale}
+                  disabled={saving}
+                  className="px-3 py-1.5 md:px-4 md:py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors duration-200 flex items-center space-x-2 text-xs disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{saving ? 'Saving...' : 'Save'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-white rounded-xl shadow-sm p-4 md:p-8">
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Game *</label>
+                  <select
+                    value={formData.menu_item_id}
+                    onChange={(e) => setFormData({ ...formData, menu_item_id: e.target.value, variation_id: '' })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  >
+                    <option value="">Select a game</option>
+                    {menuItems.map(item => (
+                      <option key={item.id} value={item.id}>{item.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Package *</label>
+                  <select
+                    value={formData.variation_id}
+                    onChange={(e) => setFormData({ ...formData, variation_id: e.target.value })}
+                    disabled={!selectedItem}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs disabled:bg-gray-100"
+                  >
+                    <option value="">Select a package</option>
+                    {(selectedItem?.variations || []).map(variation => (
+                      <option key={variation.id} value={variation.id}>
+                        {variation.name} (₱{variation.price})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Sale Price (₱) *</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.sale_price}
+                  onChange={(e) => setFormData({ ...formData, sale_price: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  placeholder="e.g. 85"
+                />
+                {selectedVariation && (
+                  <p className="text-xs text-gray-500 mt-1">Regular price ₱{selectedVariation.price}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Units at Sale Price *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.quantity_cap}
+                    onChange={(e) => setFormData({ ...formData, quantity_cap: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                    placeholder="e.g. 50"
+                  />
+                  {editingSale && (
+                    <p className="text-xs text-gray-500 mt-1">{editingSale.sold_count} sold so far</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Units per Member</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.per_member_cap}
+                    onChange={(e) => setFormData({ ...formData, per_member_cap: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                    placeholder="Unlimited"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">When set, customers must log in to get the sale price</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Starts *</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Manila time</p>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Ends *</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.ends_at}
+                    onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Manila time</p>
+                </div>
+              </div>
+
+              <div className="flex items-center">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.active}
+                    onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  <span className="text-xs font-medium text-black">Active Flash Sale</span>
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // List View
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="text-gray-600 hover:text-black transition-colors duration-200"
+                aria-label="Back to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+              <h1 className="text-black">Flash Sales</h1>
+            </div>
+            <button
+              onClick={handleAddSale}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-1.5 md:px-4 md:py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200 text-xs"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-6">
+            <h2 className="text-xs font-playfair font-medium text-black mb-4">Flash Sales</h2>
+
+            {loading ? (
+              <p className="text-xs text-gray-500 text-center py-8">Loading flash sales...</p>
+            ) : flashSales.length === 0 ? (
+              <div className="text-center py-8">
+                <Zap className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500 mb-4">No flash sales yet</p>
+                <button
+                  onClick={handleAddSale}
+                  className="bg-green-600 text-white px-3 py-1.5 md:px-4 md:py-2 rounded-lg hover:bg-green-700 transition-colors duration-200 text-xs"
+                >
+                  Add First Flash Sale
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {flashSales.map((sale) => {
+                  const state = getFlashSaleState(sale);
+                  const salePackage = findPackage(sale.variation_id);
+                  const soldPercent = Math.min(100, (sale.sold_count / sale.quantity_cap) * 100);
+                  return (
+                    <div
+                      key={sale.id}
+                      className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${state.className}`}>
+                          {state.label}
+                        </span>
+
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleEditSale(sale)}
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteSale(sale)}
+                            className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        <div className="flex items-baseline gap-2 flex-wrap">
+                          <h3 className="font-semibold text-black text-xs">
+                            {salePackage ? `${salePackage.item.name} – ${salePackage.variation.name}` : 'Removed package'}
+                          </h3>
+                          <span className="text-xs text-gray-700">
+                            ₱{sale.sale_price}
+                            {salePackage && <span className="text-gray-400 line-through ml-1">₱{salePackage.variation.price}</span>}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {sale.sold_count} / {sale.quantity_cap} sold
+                          {sale.per_member_cap != null && ` · ${sale.per_member_cap} per member`}
+                          {isFlashSaleLive(sale) && ` · ${getFlashSaleRemaining(sale)} left`}
+                        </p>
+                        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-orange-500" style={{ width: `${soldPercent}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {formatManilaDateTime(sale.starts_at)} → {formatManilaDateTime(sale.ends_at)} (Manila time)
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashSaleManager;
@@ -24,6 +24,7 @@ const Footer: React.FC = () => {
       title: 'SUPPORT',
       links: [
         { label: 'FAQ', url: '#' },
+        { label: 'Track Order', url: '/track' },
         { label: 'Contact Us', url: siteSettings?.footer_support_url || '#' },
         { label: 'Submit a Ticket', url: '#' },
       ]
@@ -3,6 +3,16 @@ import { Users, Trophy, ArrowLeft, X, Search, Eye, Filter } from 'lucide-react';
 import { useMembers } from '../hooks/useMembers';
 import { Member, MemberUserType, Order } from '../types';
 import { supabase } from '../lib/supabase';
+import { ORDER_STATUS_TONES, OrderStatusTone, getOrderStatusLabel } from '../lib/orderStatus';
+
+const ORDER_STATUS_TONE_CLASSES: Record<OrderStatusTone, string> = {
+  success: 'bg-green-100 text-green-800',
+  danger: 'bg-red-100 text-red-800',
+  warning: 'bg-orange-100 text-orange-800',
+  info: 'bg-yellow-100 text-yellow-800',
+  progress: 'bg-blue-100 text-blue-800',
+  neutral: 'bg-gray-100 text-gray-800',
+};
 
 const MemberDashboard: React.FC = () => {
   const { members, topMembers, loading, fetchMembers, updateMember } = useMembers();
@@ -105,20 +115,14 @@ const MemberDashboard: React.FC = () => {
     if (orderOption === 'order_via_messenger' && order.status === 'pending') {
       return 'Done via Messenger';
     }
-    return order.status;
+    return getOrderStatusLabel(order.status);
   };
 
   const getOrderStatusClass = (order: Order) => {
-    const displayStatus = getOrderStatus(order);
-    if (displayStatus === 'Done via Messenger' || displayStatus === 'approved') {
-      return 'bg-green-100 text-green-800';
-    } else if (displayStatus === 'rejected') {
-      return 'bg-red-100 text-red-800';
-    } else if (displayStatus === 'processing') {
-      return 'bg-yellow-100 text-yellow-800';
-    } else {
-      return 'bg-gray-100 text-gray-800';
+    if ((order.order_option || 'place_order') === 'order_via_messenger' && order.status === 'pending') {
+      return ORDER_STATUS_TONE_CLASSES.success;
     }
+    return ORDER_STATUS_TONE_CLASSES[ORDER_STATUS_TONES[order.status]] || ORDER_STATUS_TONE_CLASSES.neutral;
   };
 
   return (
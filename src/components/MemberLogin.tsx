@@ -1,14 +1,25 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ArrowLeft, User, Mail, Lock, Eye, EyeOff } from 'lucide-react';
 import { useMemberAuth } from '../hooks/useMemberAuth';
 
+type MemberLoginMode = 'login' | 'register' | 'forgot' | 'reset';
+
+const MODE_HEADINGS: Record<MemberLoginMode, { title: string; subtitle: string; submit: string }> = {
+  login: { title: 'Member Login', subtitle: 'Welcome back!', submit: 'Login' },
+  register: { title: 'Member Registration', subtitle: 'Create your account', submit: 'Register' },
+  forgot: { title: 'Forgot Password', subtitle: "We'll email you a link to reset it", submit: 'Send Reset Link' },
+  reset: { title: 'Reset Password', subtitle: 'Choose a new password', submit: 'Set New Password' },
+};
+
 interface MemberLoginProps {
   onBack: () => void;
   onLoginSuccess: (memberId: string) => void;
+  resetToken?: string | null; // From a password reset link (?reset_password=...)
+  onResetDone?: () => void;
 }
 
-const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) => {
-  const [isLogin, setIsLogin] = useState(true);
+const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess, resetToken, onResetDone }) => {
+  const [mode, setMode] = useState<MemberLoginMode>(resetToken ? 'reset' : 'login');
   const [showPassword, setShowPassword] = useState(false);
   const [formData, setFormData] = useState({
     username: '',
@@ -17,16 +28,63 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
     confirmPassword: ''
   });
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login, register, currentMember } = useMemberAuth();
+  const { login, register, requestPasswordReset, resetPassword, currentMember } = useMemberAuth();
+  const isLogin = mode === 'login';
+
+  // A reset link can arrive while this screen is already open
+  useEffect(() => {
+    if (resetToken) setMode('reset');
+  }, [resetToken]);
+  const headings = MODE_HEADINGS[mode];
+
+  const switchMode = (next: MemberLoginMode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+    setFormData({
+      username: '',
+      email: '',
+      password: '',
+      confirmPassword: ''
+    });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
-      if (isLogin) {
+      if (mode === 'forgot') {
+        const result = await requestPasswordReset(formData.email);
+        if (result.success) {
+          setNotice("If an account exists for that email, we've sent a link to reset your password.");
+        } else {
+          setError(result.error || 'Could not send the reset email');
+        }
+      } else if (mode === 'reset') {
+        if (formData.password !== formData.confirmPassword) {
+          setError('Passwords do not match');
+          return;
+        }
+
+        if (formData.password.length < 6) {
+          setError('Password must be at least 6 characters');
+          return;
+        }
+
+        const result = await resetPassword(resetToken || '', formData.password);
+        if (result.success) {
+          switchMode('login');
+          setNotice('Your password has been changed. Please log in with your new password.');
+          onResetDone?.();
+        } else {
+          setError(result.error || 'Could not reset your password');
+        }
+      } else if (isLogin) {
         const result = await login({
           email: formData.email,
           password: formData.password
@@ -94,10 +152,10 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
               <User className="h-8 w-8 text-white" />
             </div>
             <h2 className="text-2xl font-semibold text-cafe-text mb-2">
-              {isLogin ? 'Member Login' : 'Member Registration'}
+              {headings.title}
             </h2>
             <p className="text-cafe-textMuted">
-              {isLogin ? 'Welcome back!' : 'Create your account'}
+              {headings.subtitle}
             </p>
           </div>
 
@@ -107,8 +165,14 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
             </div>
           )}
 
+          {notice && (
+            <div className="mb-4 p-3 glass-strong border border-green-500/30 rounded-lg text-green-200 text-sm">
+              {notice}
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
-            {!isLogin && (
+            {mode === 'register' && (
               <div>
                 <label className="block text-sm font-medium text-cafe-text mb-2">
                   Username
@@ -127,6 +191,7 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
               </div>
             )}
 
+            {mode !== 'reset' && (
             <div>
               <label className="block text-sm font-medium text-cafe-text mb-2">
                 Email
@@ -143,11 +208,12 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
                   />
               </div>
             </div>
+            )}
 
-
+            {mode !== 'forgot' && (
             <div>
               <label className="block text-sm font-medium text-cafe-text mb-2">
-                Password
+                {mode === 'reset' ? 'New Password' : 'Password'}
               </label>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-cafe-text/50" />
@@ -167,9 +233,21 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
                   {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
                 </button>
               </div>
+              {isLogin && (
+                <div className="mt-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => switchMode('forgot')}
+                    className="text-cafe-primary hover:text-cafe-secondary transition-colors text-sm"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              )}
             </div>
+            )}
 
-            {!isLogin && (
+            {(mode === 'register' || mode === 'reset') && (
               <div>
                 <label className="block text-sm font-medium text-cafe-text mb-2">
                   Confirm Password
@@ -193,25 +271,16 @@ const MemberLogin: React.FC<MemberLoginProps> = ({ onBack, onLoginSuccess }) =>
               disabled={loading}
               className="w-full py-3 bg-gradient-to-r from-cafe-primary to-cafe-secondary text-white rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Processing...' : isLogin ? 'Login' : 'Register'}
+              {loading ? 'Processing...' : headings.submit}
             </button>
           </form>
 
           <div className="mt-6 text-center">
             <button
-              onClick={() => {
-                setIsLogin(!isLogin);
-                setError('');
-                setFormData({
-                  username: '',
-                  email: '',
-                  password: '',
-                  confirmPassword: ''
-                });
-              }}
+              onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
               className="text-cafe-primary hover:text-cafe-secondary transition-colors text-sm"
             >
-              {isLogin ? "Don't have an account? Register" : 'Already have an account? Login'}
+              {mode === 'login' ? "Don't have an account? Register" : mode === 'register' ? 'Already have an account? Login' : 'Back to login'}
             </button>
           </div>
         </div>
@@ -3,6 +3,16 @@ import { ArrowLeft, X, Search, Eye, Filter, Edit } from 'lucide-react';
 import { useMembers } from '../hooks/useMembers';
 import { Member, MemberUserType, Order } from '../types';
 import { supabase } from '../lib/supabase';
+import { ORDER_STATUS_TONES, OrderStatusTone, getOrderStatusLabel } from '../lib/orderStatus';
+
+const ORDER_STATUS_TONE_CLASSES: Record<OrderStatusTone, string> = {
+  success: 'bg-green-100 text-green-800',
+  danger: 'bg-red-100 text-red-800',
+  warning: 'bg-orange-100 text-orange-800',
+  info: 'bg-yellow-100 text-yellow-800',
+  progress: 'bg-blue-100 text-blue-800',
+  neutral: 'bg-gray-100 text-gray-800',
+};
 
 interface MemberManagerProps {
   onBack: () => void;
@@ -119,20 +129,14 @@ const MemberManager: React.FC<MemberManagerProps> = ({ onBack }) => {
     if (orderOption === 'order_via_messenger' && order.status === 'pending') {
       return 'Done via Messenger';
     }
-    return order.status;
+    return getOrderStatusLabel(order.status);
   };
 
   const getOrderStatusClass = (order: Order) => {
-    const displayStatus = getOrderStatus(order);
-    if (displayStatus === 'Done via Messenger' || displayStatus === 'approved') {
-      return 'bg-green-100 text-green-800';
-    } else if (displayStatus === 'rejected') {
-      return 'bg-red-100 text-red-800';
-    } else if (displayStatus === 'processing') {
-      return 'bg-yellow-100 text-yellow-800';
-    } else {
-      return 'bg-gray-100 text-gray-800';
+    if ((order.order_option || 'place_order') === 'order_via_messenger' && order.status === 'pending') {
+      return ORDER_STATUS_TONE_CLASSES.success;
     }
+    return ORDER_STATUS_TONE_CLASSES[ORDER_STATUS_TONES[order.status]] || ORDER_STATUS_TONE_CLASSES.neutral;
   };
 
   return (
@@ -305,7 +309,10 @@ const MemberManager: React.FC<MemberManagerProps> = ({ onBack }) => {
                   
                   {/* Email row with total orders */}
                   <div className="flex items-center justify-between mb-3">
-                    <p className="text-xs text-gray-600 truncate flex-1">{member.email}</p>
+                    <p className="text-xs text-gray-600 truncate flex-1">
+                      {member.email}
+                      {!member.email_verified_at && <span className="text-orange-600"> (unverified)</span>}
+                    </p>
                     <div className="flex items-center gap-1 ml-2 flex-shrink-0">
                       <span className="text-xs text-gray-500">Orders:</span>
                       <span className="font-semibold text-gray-900 text-xs">{memberOrderCounts[member.id] || 0}</span>
@@ -340,7 +347,10 @@ const MemberManager: React.FC<MemberManagerProps> = ({ onBack }) => {
                       className="border-b border-gray-200 hover:bg-gray-50 transition-colors"
                     >
                       <td className="p-3 text-gray-900 text-xs">{member.username}</td>
-                      <td className="p-3 text-gray-900 text-xs">{member.email}</td>
+                      <td className="p-3 text-gray-900 text-xs">
+                        {member.email}
+                        {!member.email_verified_at && <span className="text-orange-600"> (unverified)</span>}
+                      </td>
                       <td className="p-3 text-gray-900 font-semibold text-center text-xs">{memberOrderCounts[member.id] || 0}</td>
                       <td className="p-3">
                         <span
@@ -1,8 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { X, LogOut, History, User, ArrowLeft } from 'lucide-react';
+import { X, LogOut, History, User, ArrowLeft, MailWarning } from 'lucide-react';
 import { useMemberAuth } from '../hooks/useMemberAuth';
 import { supabase } from '../lib/supabase';
 import { Order } from '../types';
+import CancelOrderButton from './CancelOrderButton';
+import { ORDER_STATUS_TONES, OrderStatusTone, CUSTOMER_MESSAGE_STATUSES, getOrderStatusLabel } from '../lib/orderStatus';
+
+const ORDER_STATUS_TONE_CLASSES: Record<OrderStatusTone, string> = {
+  success: 'bg-green-500/20 text-green-300',
+  danger: 'bg-red-500/20 text-red-300',
+  warning: 'bg-orange-500/20 text-orange-300',
+  info: 'bg-yellow-500/20 text-yellow-300',
+  progress: 'bg-blue-500/20 text-blue-300',
+  neutral: 'bg-gray-500/20 text-gray-300',
+};
 
 interface MemberProfileProps {
   onClose: () => void;
@@ -10,11 +21,13 @@ interface MemberProfileProps {
 }
 
 const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
-  const { currentMember, isReseller } = useMemberAuth();
+  const { currentMember, sessionToken, requestEmailVerification } = useMemberAuth();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loadingOrders, setLoadingOrders] = useState(false);
   const [showOrderHistory, setShowOrderHistory] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [sendingVerification, setSendingVerification] = useState(false);
+  const [verificationMessage, setVerificationMessage] = useState<{ success: boolean; text: string } | null>(null);
 
   useEffect(() => {
     if (currentMember) {
@@ -25,11 +38,8 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
   const fetchMemberOrders = async () => {
     try {
       setLoadingOrders(true);
-      const { data, error } = await supabase
-        .from('orders')
-        .select('*')
-        .eq('member_id', currentMember?.id)
-        .order('created_at', { ascending: false });
+      // Orders are only readable by staff; members get theirs through their session
+      const { data, error } = await supabase.rpc('get_member_orders', { p_member_session: sessionToken });
 
       if (error) throw error;
       setOrders(data as Order[]);
@@ -46,26 +56,29 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
     onClose();
   };
 
+  const handleResendVerification = async () => {
+    setSendingVerification(true);
+    const result = await requestEmailVerification();
+    setVerificationMessage(result.success
+      ? { success: true, text: `We sent a new link to ${currentMember?.email}.` }
+      : { success: false, text: result.error || 'Could not send the verification email' });
+    setSendingVerification(false);
+  };
+
   const getOrderStatus = (order: Order) => {
     const orderOption = order.order_option || 'place_order';
     // For messenger orders with pending status, show "Done via Messenger"
     if (orderOption === 'order_via_messenger' && order.status === 'pending') {
       return 'Done via Messenger';
     }
-    return order.status;
+    return getOrderStatusLabel(order.status);
   };
 
   const getOrderStatusClass = (order: Order) => {
-    const displayStatus = getOrderStatus(order);
-    if (displayStatus === 'Done via Messenger' || displayStatus === 'approved') {
-      return 'bg-green-500/20 text-green-300';
-    } else if (displayStatus === 'rejected') {
-      return 'bg-red-500/20 text-red-300';
-    } else if (displayStatus === 'processing') {
-      return 'bg-yellow-500/20 text-yellow-300';
-    } else {
-      return 'bg-gray-500/20 text-gray-300';
+    if ((order.order_option || 'place_order') === 'order_via_messenger' && order.status === 'pending') {
+      return ORDER_STATUS_TONE_CLASSES.success;
     }
+    return ORDER_STATUS_TONE_CLASSES[ORDER_STATUS_TONES[order.status]] || ORDER_STATUS_TONE_CLASSES.neutral;
   };
 
   if (!currentMember) return null;
@@ -77,7 +90,7 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
           <div>
             <h2 className="text-2xl font-semibold text-cafe-text">Profile</h2>
             <p className="text-sm text-cafe-textMuted mt-1">
-              {isReseller() ? 'Reseller' : 'Member'} Account
+              {currentMember.user_type === 'reseller' ? 'Reseller' : 'Member'} Account
             </p>
           </div>
           <button
@@ -101,10 +114,38 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
                   {currentMember.username}
                 </h3>
                 <p className="text-cafe-textMuted capitalize">
-                  {isReseller() ? 'Reseller' : 'Member'}
+                  {currentMember.user_type === 'reseller' ? 'Reseller' : 'Member'}
                 </p>
               </div>
 
+              {/* Email verification */}
+              {!currentMember.email_verified_at && (
+                <div className="mb-6 p-4 glass-strong border border-yellow-500/30 rounded-lg">
+                  <div className="flex items-start space-x-3">
+                    <MailWarning className="h-5 w-5 text-yellow-300 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-semibold text-cafe-text text-sm">Confirm your email</p>
+                      <p className="text-xs text-cafe-textMuted mt-1">
+                        Open the link we sent to {currentMember.email}.
+                        {currentMember.user_type === 'reseller' && ' Reseller prices unlock once your email is confirmed.'}
+                      </p>
+                      <button
+                        onClick={handleResendVerification}
+                        disabled={sendingVerification}
+                        className="mt-2 text-sm text-cafe-primary hover:text-cafe-secondary transition-colors disabled:opacity-50"
+                      >
+                        {sendingVerification ? 'Sending...' : 'Send a new link'}
+                      </button>
+                      {verificationMessage && (
+                        <p className={`text-xs mt-1 ${verificationMessage.success ? 'text-green-300' : 'text-red-300'}`}>
+                          {verificationMessage.text}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="space-y-3">
                 <button
@@ -166,10 +207,13 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
                             {new Date(order.created_at).toLocaleDateString()}
                           </p>
                         </div>
-                        <div className="flex items-center gap-3 flex-shrink-0">
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
                           <p className="text-sm font-semibold text-cafe-text whitespace-nowrap">
                             ₱{order.total_price.toFixed(2)}
                           </p>
+                          <span className={`px-2 py-0.5 rounded text-[10px] font-semibold ${getOrderStatusClass(order)}`}>
+                            {getOrderStatus(order)}
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -208,6 +252,15 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
               </span>
             </div>
 
+            {CUSTOMER_MESSAGE_STATUSES.includes(selectedOrder.status) && selectedOrder.rejection_message && (
+              <div className="mb-4 rounded-lg bg-red-500/10 border border-red-500/30 p-3">
+                <p className="text-xs font-medium text-red-400">
+                  {selectedOrder.customer_cancelled_at ? 'Your cancellation reason:' : 'Message from store:'}
+                </p>
+                <p className="text-sm text-cafe-text mt-1">{selectedOrder.rejection_message}</p>
+              </div>
+            )}
+
             {/* Order Details */}
             <div className="mb-4">
               <h3 className="font-medium text-cafe-text mb-3">Order Details</h3>
@@ -291,11 +344,33 @@ const MemberProfile: React.FC<MemberProfileProps> = ({ onClose, onLogout }) => {
 
             {/* Total */}
             <div className="pt-4 border-t border-cafe-primary/30">
+              {selectedOrder.voucher_code && (
+                <div className="flex items-center justify-between text-sm text-cafe-textMuted mb-1">
+                  <span>Voucher {selectedOrder.voucher_code}:</span>
+                  <span className="text-green-300">-₱{Number(selectedOrder.voucher_discount || 0).toFixed(2)}</span>
+                </div>
+              )}
+              {Number(selectedOrder.payment_fee || 0) > 0 && (
+                <div className="flex items-center justify-between text-sm text-cafe-textMuted mb-1">
+                  <span>Payment fee:</span>
+                  <span>₱{Number(selectedOrder.payment_fee).toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex items-center justify-between">
                 <span className="font-medium text-cafe-text">Total:</span>
                 <span className="font-semibold text-cafe-text text-lg">₱{selectedOrder.total_price.toFixed(2)}</span>
               </div>
             </div>
+
+            <div className="mt-4">
+              <CancelOrderButton
+                order={selectedOrder}
+                onCancelled={(cancelled) => {
+                  setSelectedOrder(prev => (prev ? { ...prev, ...cancelled } : prev));
+                  setOrders(prev => prev.map(o => (o.id === cancelled.id ? { ...o, ...cancelled } : o)));
+                }}
+              />
+            </div>
           </div>
         </div>
       )}
@@ -1,8 +1,10 @@
 import React from 'react';
-import { MenuItem, CartItem, Member } from '../types';
+import { MenuItem, CartItem, Member, FlashSaleState } from '../types';
 import { useCategories } from '../hooks/useCategories';
 import { useSiteSettings } from '../hooks/useSiteSettings';
 import MenuItemCard from './MenuItemCard';
+import { isBundle } from '../lib/bundles';
+import { isVariationSoldOut } from '../lib/variationStock';
 import Hero from './Hero';
 
 // Preload images for better performance
@@ -24,9 +26,10 @@ interface MenuProps {
   searchQuery?: string;
   onItemAdded?: () => void; // Callback when item is added from modal
   currentMember?: Member | null; // Current logged-in member
+  flashSales?: FlashSaleState; // Live flash sales (remaining counts update over Realtime)
 }
 
-const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuantity, selectedCategory, searchQuery = '', onItemAdded, currentMember }) => {
+const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuantity, selectedCategory, searchQuery = '', onItemAdded, currentMember, flashSales }) => {
   const { categories } = useCategories();
   const { siteSettings } = useSiteSettings();
   const [activeCategory, setActiveCategory] = React.useState(selectedCategory === 'popular' ? 'popular' : 'hot-coffee');
@@ -160,6 +163,7 @@ const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuan
           }}
           onItemAdded={onItemAdded}
           layout={itemLayout}
+          flashSales={flashSales}
         />
       );
     });
@@ -243,6 +247,12 @@ const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuan
   // If viewing "All", also show Popular section at the top (only when not searching)
   const popularItems = menuItemsSafe.filter(item => Boolean(item?.popular) === true);
   const showPopularSection = selectedCategory === 'all' && popularItems.length > 0 && searchQuery.trim() === '';
+  // Games with a bundle that can be ordered right now
+  const bundleItems = menuItemsSafe.filter(item =>
+    item.available !== false &&
+    (item.variations || []).some(v => isBundle(v) && !isVariationSoldOut(v, item.variations))
+  );
+  const showBundlesSection = selectedCategory === 'all' && bundleItems.length > 0;
 
   return (
     <>
@@ -278,6 +288,17 @@ const Menu: React.FC<MenuProps> = ({ menuItems, addToCart, cartItems, updateQuan
           </section>
         )}
 
+        {showBundlesSection && (
+          <section id="bundles" className="mb-8 md:mb-12">
+            <div className="flex items-center mb-2 md:mb-3">
+              <h3 className="text-lg md:text-xl font-semibold text-cafe-text">Bundles</h3>
+            </div>
+            <div className="grid grid-cols-4 md:grid-cols-6 gap-2 sm:gap-3 md:gap-3">
+              {renderMenuItems(bundleItems, 'vertical')}
+            </div>
+          </section>
+        )}
+
         {/* Regular category sections – mobile 4 cols, desktop 6 per row */}
         {(Array.isArray(categories) ? categories : []).map((category) => {
           const categoryItems = menuItemsSafe.filter(item => item.category === category.id);
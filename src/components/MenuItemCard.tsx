@@ -1,8 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { MenuItem, Variation } from '../types';
+import { X, Zap } from 'lucide-react';
+import { FlashSaleState, MenuItem, Variation } from '../types';
 import { useMemberAuth } from '../hooks/useMemberAuth';
 import { useMemberDiscounts } from '../hooks/useMemberDiscounts';
+import { getVariationPriceForMember } from '../lib/pricing';
+import DiscountCountdown from './DiscountCountdown';
+import { getApplicableFlashSale, getFlashSaleRemaining, getLiveFlashSale } from '../lib/flashSale';
+import { getVariationStockLeft, isVariationSoldOut } from '../lib/variationStock';
+import { getBundleComponents, getBundleContentsLabel, isBundle } from '../lib/bundles';
+
+// Show the remaining stock on a package once it gets this low
+const LOW_STOCK_THRESHOLD = 10;
 
 interface MenuItemCardProps {
   item: MenuItem;
@@ -12,6 +20,7 @@ interface MenuItemCardProps {
   onItemAdded?: () => void; // Callback when item is added to cart
   /** 'horizontal' = icon left, text right (Popular); 'vertical' = icon top, text below (other categories) */
   layout?: 'horizontal' | 'vertical';
+  flashSales?: FlashSaleState;
 }
 
 const MenuItemCard: React.FC<MenuItemCardProps> = ({ 
@@ -20,7 +29,8 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
   quantity, 
   onUpdateQuantity,
   onItemAdded,
-  layout = 'vertical'
+  layout = 'vertical',
+  flashSales
 }) => {
   const [showCustomization, setShowCustomization] = useState(false);
   const [selectedVariation, setSelectedVariation] = useState<Variation | undefined>(
@@ -36,7 +46,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
   // Force price update when member changes (login/logout)
   useEffect(() => {
     setPriceUpdateKey(prev => prev + 1);
-  }, [currentMember?.id, currentMember?.user_type]);
+  }, [currentMember?.id, currentMember?.user_type, currentMember?.email_verified_at]);
 
   // Fetch member discounts for all variations when component mounts or member changes
   useEffect(() => {
@@ -82,29 +92,19 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
   // Synchronous version for immediate display (uses cached discounts)
   const getDiscountedPriceSync = (basePrice: number, variationId?: string): number => {
     const variation = getVariationById(variationId);
-    
-    // Priority 1: If user is reseller and variation has reseller_price, use it
-    if (isReseller() && currentMember && variation?.reseller_price !== undefined) {
-      return variation.reseller_price;
-    }
-    
-    // Priority 2: If user is a member (end_user, not reseller) and variation has member_price, use it
-    if (currentMember && !isReseller() && currentMember.user_type === 'end_user' && variation?.member_price !== undefined) {
-      return variation.member_price;
-    }
-    
-    // Priority 3: If user is reseller and has member discount for this variation, use it
-    if (isReseller() && currentMember && variationId && memberDiscounts[variationId]) {
-      return memberDiscounts[variationId];
+
+    // Member / reseller / discount pricing shared with the cart (see lib/pricing)
+    if (variation) {
+      return getVariationPriceForMember(item, variation, currentMember, memberDiscounts[variation.id], flashSales);
     }
-    
-    // Priority 4: Otherwise, use regular discount logic
+
+    // Otherwise, use regular discount logic
     if (item.isOnDiscount && item.discountPercentage !== undefined) {
       const discountAmount = basePrice * item.discountPercentage;
       return basePrice - discountAmount;
     }
     
-    // Priority 5: Default to base price
+    // Default to base price
     return basePrice;
   };
 
@@ -115,6 +115,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
 
   const handleItemSelect = (variation?: Variation) => {
     const v = variation || selectedVariation;
+    if (v && isVariationSoldOut(v, item.variations)) return;
     const effectiveVariationPrice = v ? getDiscountedPriceSync(v.price, v.id) : 0;
     const effectiveUnitPrice = item.basePrice + effectiveVariationPrice;
     onAddToCart(item, 1, v, undefined, effectiveUnitPrice);
@@ -148,7 +149,20 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
     };
   }, [item.name]);
 
-  const discountBadge = item.isOnDiscount && item.discountPercentage != null ? (
+  const allPackagesSoldOut = !!item.variations?.length && item.variations.every(v => isVariationSoldOut(v, item.variations));
+
+  // Units left across the game's packages that are in a live flash sale
+  const flashSaleRemaining = (item.variations || []).reduce<number | null>((total, variation) => {
+    const sale = getLiveFlashSale(flashSales, variation.id);
+    return sale ? (total ?? 0) + getFlashSaleRemaining(sale) : total;
+  }, null);
+
+  const discountBadge = flashSaleRemaining !== null ? (
+    <span className="absolute top-0 right-0 bg-cafe-primary text-white text-[9px] font-bold px-1 py-0.5 rounded-bl-md flex items-center gap-0.5">
+      <Zap className="h-2.5 w-2.5" />
+      {flashSaleRemaining > 0 ? `${flashSaleRemaining} left` : 'Sold out'}
+    </span>
+  ) : item.isOnDiscount && item.discountPercentage != null ? (
     <span className="absolute top-0 right-0 bg-cafe-primary text-white text-[9px] font-bold px-1 py-0.5 rounded-bl-md">
       {Math.round(item.discountPercentage * 100)}% OFF
     </span>
@@ -173,6 +187,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
         <div className="text-2xl opacity-20 text-gray-400">🎮</div>
       </div>
       {discountBadge}
+      <DiscountCountdown item={item} />
     </div>
   );
 
@@ -234,6 +249,11 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
             <span className="text-white font-bold text-sm sm:text-base opacity-90 font-sans">Closed</span>
           </div>
         )}
+        {item.available && allPackagesSoldOut && (
+          <div className={`absolute inset-0 bg-black/60 flex items-center justify-center z-10 pointer-events-none ${layout === 'horizontal' ? 'rounded-lg' : 'rounded-t-lg'}`}>
+            <span className="text-white font-bold text-sm sm:text-base opacity-90 font-sans">Sold out</span>
+          </div>
+        )}
 
         {layout === 'horizontal' ? (
           <>
@@ -294,6 +314,7 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                 {item.description && (
                     <p className="text-sm text-white/90 mt-2 drop-shadow-md whitespace-pre-line break-words">{item.description}</p>
                 )}
+                <DiscountCountdown item={item} variant="inline" />
               </div>
               <button
                 onClick={() => setShowCustomization(false)}
@@ -377,13 +398,28 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                                 // Recalculate price on every render to ensure it updates immediately on login/logout
                                 const discountedPrice = getDiscountedPriceSync(originalPrice, variation.id);
                                 const hasMemberDiscount = isReseller() && currentMember && memberDiscounts[variation.id];
-                                const isDiscounted = hasMemberDiscount || (item.isOnDiscount && item.discountPercentage !== undefined);
+                                const liveFlashSale = getLiveFlashSale(flashSales, variation.id);
+                                const flashSale = getApplicableFlashSale(flashSales, variation.id, currentMember);
+                                const hasFlashPrice = !!flashSale && discountedPrice === flashSale.sale_price;
+                                const isDiscounted = hasFlashPrice || hasMemberDiscount || (item.isOnDiscount && item.discountPercentage !== undefined);
+                                const soldOut = isVariationSoldOut(variation, item.variations);
+                                const stockLeft = getVariationStockLeft(variation, item.variations);
+                                // What the bundle's packages cost on their own
+                                const bundleComponents = getBundleComponents(variation, item.variations);
+                                const bundleSavings = isBundle(variation) && bundleComponents.every(c => c.variation)
+                                  ? bundleComponents.reduce((sum, c) => sum + (c.variation ? getDiscountedPriceSync(c.variation.price, c.variation.id) * c.quantity : 0), 0) - discountedPrice
+                                  : 0;
                                 
                                 return (
                                   <button
                                     key={variation.id}
                                     onClick={() => handleItemSelect(variation)}
-                                    className="bg-cafe-darkCard border border-cafe-primary/30 rounded-lg p-2.5 text-left group shadow-md relative overflow-hidden transition-all duration-200 hover:border-cafe-primary hover:bg-cafe-primary/10 hover:shadow-[0_0_16px_rgba(107,114,128,0.2)]"
+                                    disabled={soldOut}
+                                    className={`bg-cafe-darkCard border border-cafe-primary/30 rounded-lg p-2.5 text-left group shadow-md relative overflow-hidden transition-all duration-200 ${
+                                      soldOut
+                                        ? 'opacity-50 cursor-not-allowed'
+                                        : 'hover:border-cafe-primary hover:bg-cafe-primary/10 hover:shadow-[0_0_16px_rgba(107,114,128,0.2)]'
+                                    }`}
                                     style={{
                                       boxShadow: '0 1px 3px rgba(0, 0, 0, 0.2)'
                                     }}
@@ -392,6 +428,11 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                                       <div className="font-semibold text-cafe-text text-xs mb-0.5">
                                         {variation.name}
                                       </div>
+                                      {isBundle(variation) && (
+                                        <div className="text-[10px] text-cafe-textMuted mb-1">
+                                          <span className="font-semibold text-cafe-primary uppercase">Bundle</span> · {getBundleContentsLabel(variation, item.variations)}
+                                        </div>
+                                      )}
                                       {variation.description && (
                                         <div className="text-xs text-cafe-textMuted mb-2 line-clamp-2">
                                           {variation.description}
@@ -406,7 +447,11 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                                             <div className="text-xs text-cafe-textMuted line-through">
                                               ₱{originalPrice.toFixed(2)}
                                             </div>
-                                            {hasMemberDiscount ? (
+                                            {hasFlashPrice ? (
+                                              <div className="text-xs text-cafe-primary font-semibold">
+                                                Flash Sale
+                                              </div>
+                                            ) : hasMemberDiscount ? (
                                               <div className="text-xs text-cafe-secondary font-semibold">
                                                 Member Price
                                               </div>
@@ -417,6 +462,28 @@ const MenuItemCard: React.FC<MenuItemCardProps> = ({
                                             )}
                                           </div>
                                         )}
+                                        {bundleSavings >= 0.01 && (
+                                          <div className="text-[10px] font-semibold text-cafe-secondary mt-1">
+                                            Save ₱{bundleSavings.toFixed(2)} vs. buying separately
+                                          </div>
+                                        )}
+                                        {soldOut ? (
+                                          <div className="text-[10px] font-semibold text-cafe-textMuted mt-1 uppercase">Sold out</div>
+                                        ) : stockLeft !== null && stockLeft <= LOW_STOCK_THRESHOLD && (
+                                          <div className="text-[10px] font-semibold text-cafe-textMuted mt-1">Only {stockLeft} left</div>
+                                        )}
+                                        {!soldOut && liveFlashSale && (
+                                          <div className="flex items-center gap-1 mt-1 text-[10px] font-semibold text-cafe-primary">
+                                            <Zap className="h-3 w-3 flex-shrink-0" />
+                                            <span>
+                                              {getFlashSaleRemaining(liveFlashSale) === 0
+                                                ? 'Flash sale sold out'
+                                                : !flashSale && liveFlashSale.per_member_cap != null
+                                                  ? (currentMember ? 'Flash sale limit reached' : 'Log in for the flash price')
+                                                  : `${getFlashSaleRemaining(liveFlashSale)} left at ₱${liveFlashSale.sale_price.toFixed(2)}`}
+                                            </span>
+                                          </div>
+                                        )}
                                       </div>
                                     </div>
                                   </button>
@@ -1,22 +1,127 @@
-import React, { useState, useEffect } from 'react';
-import { CheckCircle, XCircle, Loader2, Eye, X, Copy, User } from 'lucide-react';
-import { Order, OrderStatus, Member } from '../types';
-import { useOrders } from '../hooks/useOrders';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { CheckCircle, XCircle, Loader2, Eye, X, Copy, User, ShieldCheck, Zap, AlertTriangle, RotateCcw, Ban, Search, ChevronDown, Download, Lock, UserCheck, Gift } from 'lucide-react';
+import {
+  Order,
+  OrderStatus,
+  OrderLineStatus,
+  OrderEvent,
+  OrderSearchFilters,
+  OrderSearchCursor,
+  BulkOrderStatusResult,
+  Member,
+} from '../types';
+import { useOrders, fetchOrderEvents } from '../hooks/useOrders';
 import { useSiteSettings } from '../hooks/useSiteSettings';
+import { usePaymentMethods } from '../hooks/usePaymentMethods';
+import { useStaffName } from '../hooks/useStaffName';
 import { supabase } from '../lib/supabase';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  CUSTOMER_MESSAGE_STATUSES,
+  getOrderStatusLabel,
+  canUpdateOrderLines,
+  getOrderLineStatus,
+  getOrderLineSummary,
+  canVerifyOrderPayments,
+  getUnverifiedPaymentCount,
+  ORDER_STATUS_LABELS,
+} from '../lib/orderStatus';
+import { matchesOrderSearchFilters } from '../lib/orderSearch';
+import {
+  OrderExportFormat,
+  buildOrderExportRows,
+  downloadOrderExport,
+  getOrderLineAccountFields,
+} from '../lib/orderExport';
+import { getOrderGift, isGiftFieldLabel, withoutGiftFields } from '../lib/gift';
+
+const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
+  processing: 'bg-blue-100 text-blue-800 border border-blue-200',
+  paid_verified: 'bg-teal-100 text-teal-800 border border-teal-200',
+  topping_up: 'bg-indigo-100 text-indigo-800 border border-indigo-200',
+  delivered: 'bg-green-100 text-green-800 border border-green-200',
+  partially_delivered: 'bg-orange-100 text-orange-800 border border-orange-200',
+  rejected: 'bg-red-100 text-red-800 border border-red-200',
+  refunded: 'bg-purple-100 text-purple-800 border border-purple-200',
+  cancelled: 'bg-gray-100 text-gray-700 border border-gray-300',
+};
+
+// Button shown for moving an order into each status
+const STATUS_ACTIONS: Record<OrderStatus, { label: string; icon: React.ElementType; className: string }> = {
+  pending: { label: 'Back to Pending', icon: RotateCcw, className: 'bg-yellow-50 border-yellow-200 hover:bg-yellow-100 text-yellow-700' },
+  processing: { label: 'Mark Processing', icon: Loader2, className: 'bg-blue-50 border-blue-200 hover:bg-blue-100 text-blue-700' },
+  paid_verified: { label: 'Verify Payment', icon: ShieldCheck, className: 'bg-teal-50 border-teal-200 hover:bg-teal-100 text-teal-700' },
+  topping_up: { label: 'Start Top-Up', icon: Zap, className: 'bg-indigo-50 border-indigo-200 hover:bg-indigo-100 text-indigo-700' },
+  delivered: { label: 'Mark Delivered', icon: CheckCircle, className: 'bg-green-50 border-green-200 hover:bg-green-100 text-green-700' },
+  partially_delivered: { label: 'Partially Delivered', icon: AlertTriangle, className: 'bg-orange-50 border-orange-200 hover:bg-orange-100 text-orange-700' },
+  rejected: { label: 'Reject', icon: XCircle, className: 'bg-red-50 border-red-200 hover:bg-red-100 text-red-700' },
+  refunded: { label: 'Refund', icon: RotateCcw, className: 'bg-purple-50 border-purple-200 hover:bg-purple-100 text-purple-700' },
+  cancelled: { label: 'Cancel Order', icon: Ban, className: 'bg-gray-50 border-gray-300 hover:bg-gray-100 text-gray-700' },
+};
+
+// Statuses offered as bulk actions on selected place-order orders (paid_verified = approve)
+const BULK_ACTION_STATUSES: OrderStatus[] = ['processing', 'paid_verified', 'rejected'];
+const BULK_ACTION_LABELS: Partial<Record<OrderStatus, string>> = {
+  paid_verified: 'Approve',
+};
+
+const isBulkSelectable = (order: Order, staffName: string) =>
+  !!staffName
+  && (!order.claimed_by || order.claimed_by === staffName)
+  && (order.order_option || 'place_order') === 'place_order'
+  && BULK_ACTION_STATUSES.some(status => ORDER_STATUS_TRANSITIONS[order.status]?.includes(status));
+
+const LINE_STATUS_BADGE_CLASSES: Record<OrderLineStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 border-gray-300',
+  delivered: 'bg-green-100 text-green-800 border-green-300',
+  failed: 'bg-red-100 text-red-800 border-red-300',
+};
 
 const OrderManager: React.FC = () => {
-  const { orders, loading, fetchOrders, updateOrderStatus, fetchOrderById } = useOrders();
+  const {
+    orders,
+    error,
+    searchOrders,
+    updateOrderStatus,
+    updateOrderStatuses,
+    updateOrderLine,
+    verifyOrderPayment,
+    fetchOrderById,
+    claimOrder,
+  } = useOrders();
   const { siteSettings } = useSiteSettings();
+  const { paymentMethods } = usePaymentMethods();
+  const { staffName } = useStaffName();
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [timeKey, setTimeKey] = useState(0); // Force re-render for time updates
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [orderFilter, setOrderFilter] = useState<'place_order' | 'order_via_messenger'>('place_order');
+  // Search: text is applied on submit, the other filters as soon as they change
+  const [searchInput, setSearchInput] = useState('');
+  const [searchFilters, setSearchFilters] = useState<Omit<OrderSearchFilters, 'orderOption'>>({});
+  const [results, setResults] = useState<Order[]>([]);
+  const [nextCursor, setNextCursor] = useState<OrderSearchCursor | null>(null);
+  const [searching, setSearching] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [exporting, setExporting] = useState<OrderExportFormat | null>(null);
+  // Bulk actions
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkResults, setBulkResults] = useState<{ status: OrderStatus; results: BulkOrderStatusResult[] } | null>(null);
   const [memberMap, setMemberMap] = useState<Record<string, Member>>({});
-  const [showRejectModal, setShowRejectModal] = useState(false);
-  const [orderToReject, setOrderToReject] = useState<Order | null>(null);
-  const [rejectMessage, setRejectMessage] = useState('');
+  // Order(s) + target status waiting for a customer message (reject, cancel, refund, partial delivery)
+  const [statusMessageTarget, setStatusMessageTarget] = useState<{ orders: Order[]; status: OrderStatus; bulk?: boolean } | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  // Per-line fulfillment notes being typed in the detail modal, keyed by order_items index
+  const [lineNotes, setLineNotes] = useState<Record<number, string>>({});
+  const [updatingLine, setUpdatingLine] = useState<number | null>(null);
+  const [lineError, setLineError] = useState<string | null>(null);
+  // Split payment part being verified in the detail modal (payment_parts index)
+  const [updatingPayment, setUpdatingPayment] = useState<number | null>(null);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
 
   const REJECT_SHORTCUTS = [
     'Invalid inputs',
@@ -29,16 +134,125 @@ const OrderManager: React.FC = () => {
   // Get order option from site settings
   const orderOption = siteSettings?.order_option || 'order_via_messenger';
 
-  // Initial fetch when Orders view is shown; updates after that come from useOrders realtime subscription
+  const activeFilters = useMemo<OrderSearchFilters>(
+    () => ({ ...searchFilters, orderOption: orderFilter }),
+    [searchFilters, orderFilter]
+  );
+
+  const runSearch = useCallback(async () => {
+    setSearching(true);
+    const page = await searchOrders(activeFilters);
+    if (page) {
+      setResults(page.orders);
+      setNextCursor(page.nextCursor);
+    }
+    setSearching(false);
+  }, [searchOrders, activeFilters]);
+
+  const handleLoadOlder = async () => {
+    if (!nextCursor) return;
+    setLoadingOlder(true);
+    const page = await searchOrders(activeFilters, nextCursor);
+    if (page) {
+      setResults(prev => [...prev, ...page.orders.filter(order => !prev.some(o => o.id === order.id))]);
+      setNextCursor(page.nextCursor);
+    }
+    setLoadingOlder(false);
+  };
+
+  // Export every order matching the current filters (all pages, not only the loaded ones)
+  const handleExport = async (format: OrderExportFormat) => {
+    setExporting(format);
+    try {
+      const exportOrders: Order[] = [];
+      let cursor: OrderSearchCursor | null = null;
+      do {
+        const page = await searchOrders(activeFilters, cursor, 200);
+        if (!page) return;
+        exportOrders.push(...page.orders);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const members: Record<string, Pick<Member, 'username' | 'user_type'>> = {};
+      const memberIds = [...new Set(exportOrders.filter(o => o.member_id).map(o => o.member_id!))];
+      for (let i = 0; i < memberIds.length; i += 200) {
+        const { data, error: membersError } = await supabase
+          .from('members')
+          .select('id, username, user_type')
+          .in('id', memberIds.slice(i, i + 200));
+        if (membersError) throw membersError;
+        data?.forEach(member => {
+          members[member.id] = member;
+        });
+      }
+
+      const paymentMethodNames: Record<string, string> = {};
+      paymentMethods.forEach(method => {
+        paymentMethodNames[method.id] = method.name;
+      });
+
+      const rows = buildOrderExportRows(exportOrders, members, paymentMethodNames);
+      const today = new Date();
+      const dateStamp = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+      downloadOrderExport(rows, format, `orders-${dateStamp}`);
+    } catch (err) {
+      console.error('Error exporting orders:', err);
+      alert('Failed to export orders. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Orders older than the realtime window in useOrders aren't updated by it, so patch results directly
+  const patchResult = (orderId: string, changes: Partial<Order>) => {
+    setResults(prev => prev.map(order => (order.id === orderId ? { ...order, ...changes } : order)));
+  };
+
+  const updateSearchFilter = <K extends keyof OrderSearchFilters>(key: K, value: OrderSearchFilters[K]) => {
+    setSearchFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSearchFilter('query', searchInput.trim());
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setSearchFilters({});
+  };
+
+  // Search again whenever the filters change (first page only)
   // Notification sound for new orders is played from AdminDashboard (works from any admin page)
   useEffect(() => {
-    fetchOrders(100);
-  }, []);
+    setSelectedOrderIds([]);
+    runSearch();
+  }, [runSearch]);
+
+  // Apply realtime changes from useOrders to the loaded results: update orders we show,
+  // and add new orders that match the current filters
+  useEffect(() => {
+    setResults(prev => {
+      if (prev.length === 0 && orders.length === 0) return prev;
+      const latestById = new Map(orders.map(order => [order.id, order]));
+      const updated = prev.map(order => {
+        const latest = latestById.get(order.id);
+        return latest && latest.updated_at !== order.updated_at ? { ...order, ...latest } : order;
+      });
+      const newest = prev[0] ? new Date(prev[0].created_at).getTime() : 0;
+      const added = orders.filter(order =>
+        !prev.some(o => o.id === order.id)
+        && new Date(order.created_at).getTime() > newest
+        && matchesOrderSearchFilters(order, activeFilters)
+      );
+      return added.length > 0 ? [...added, ...updated] : updated;
+    });
+  }, [orders, activeFilters]);
 
   // Fetch member information for orders
   useEffect(() => {
     const fetchMembers = async () => {
-      const memberIds = [...new Set(orders.filter(o => o.member_id).map(o => o.member_id!))];
+      const memberIds = [...new Set(results.filter(o => o.member_id).map(o => o.member_id!))];
       if (memberIds.length === 0) return;
 
       try {
@@ -59,11 +273,38 @@ const OrderManager: React.FC = () => {
       }
     };
 
-    if (orders.length > 0) {
+    if (results.length > 0) {
       fetchMembers();
     }
+  }, [results]);
+
+  // Keep the open order in sync with realtime updates (e.g. lines ticked off by another admin)
+  useEffect(() => {
+    setSelectedOrder(prev => {
+      if (!prev) return prev;
+      const latest = orders.find(o => o.id === prev.id);
+      if (!latest || (latest.status === prev.status && latest.updated_at === prev.updated_at)) return prev;
+      return { ...prev, ...latest };
+    });
   }, [orders]);
 
+  // Load the status history of the open order, again whenever its status changes
+  const selectedOrderId = selectedOrder?.id;
+  const selectedOrderStatus = selectedOrder?.status;
+  useEffect(() => {
+    if (!selectedOrderId) {
+      setOrderEvents([]);
+      return;
+    }
+    let cancelled = false;
+    fetchOrderEvents(selectedOrderId).then(events => {
+      if (!cancelled) setOrderEvents(events);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrderId, selectedOrderStatus]);
+
   // Update time indicators every minute
   useEffect(() => {
     const interval = setInterval(() => {
@@ -96,33 +337,181 @@ const OrderManager: React.FC = () => {
     }
   };
 
-  const handleApprove = async (orderId: string) => {
-    const success = await updateOrderStatus(orderId, 'approved');
+  const closeOrderModal = () => {
+    setIsModalOpen(false);
+    setSelectedOrder(null);
+    setLineNotes({});
+    setLineError(null);
+    setPaymentError(null);
+  };
+
+  const handleLineStatusChange = async (lineIndex: number, status: OrderLineStatus) => {
+    if (!selectedOrder) return;
+    setUpdatingLine(lineIndex);
+    setLineError(null);
+    const updated = await updateOrderLine(selectedOrder.id, lineIndex, status, lineNotes[lineIndex] || null, staffName);
+    setUpdatingLine(null);
+    if (updated) {
+      setSelectedOrder(prev => (prev ? { ...prev, ...updated } : prev));
+      patchResult(updated.id, updated);
+      setLineNotes(prev => {
+        const next = { ...prev };
+        delete next[lineIndex];
+        return next;
+      });
+    } else {
+      setLineError('Failed to update this line. Please try again.');
+    }
+  };
+
+  const handlePaymentVerifiedChange = async (partIndex: number, verified: boolean) => {
+    if (!selectedOrder) return;
+    setUpdatingPayment(partIndex);
+    setPaymentError(null);
+    const updated = await verifyOrderPayment(selectedOrder.id, partIndex, verified, staffName);
+    setUpdatingPayment(null);
+    if (updated) {
+      setSelectedOrder(prev => (prev ? { ...prev, ...updated } : prev));
+      patchResult(updated.id, updated);
+    } else {
+      setPaymentError('Failed to update this payment. Please try again.');
+    }
+  };
+
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+    if (CUSTOMER_MESSAGE_STATUSES.includes(status)) {
+      setStatusMessageTarget({ orders: [order], status });
+      setStatusMessage('');
+      return;
+    }
+    const success = await updateOrderStatus(order.id, status, null, staffName);
     if (success) {
-      setIsModalOpen(false);
-      setSelectedOrder(null);
+      patchResult(order.id, { status, rejection_message: null });
+      closeOrderModal();
     }
   };
 
-  const openRejectModal = (order: Order) => {
-    setOrderToReject(order);
-    setRejectMessage('');
-    setShowRejectModal(true);
+  const closeStatusMessageModal = () => {
+    setStatusMessageTarget(null);
+    setStatusMessage('');
   };
 
-  const handleConfirmReject = async () => {
-    if (!orderToReject) return;
-    const message = rejectMessage.trim() || null;
-    const success = await updateOrderStatus(orderToReject.id, 'rejected', message);
+  const handleConfirmStatusMessage = async () => {
+    if (!statusMessageTarget) return;
+    const message = statusMessage.trim() || null;
+    if (statusMessageTarget.bulk) {
+      closeStatusMessageModal();
+      await runBulkStatusChange(statusMessageTarget.status, message);
+      return;
+    }
+    const [order] = statusMessageTarget.orders;
+    const success = await updateOrderStatus(order.id, statusMessageTarget.status, message, staffName);
     if (success) {
-      setShowRejectModal(false);
-      setOrderToReject(null);
-      setRejectMessage('');
-      setIsModalOpen(false);
-      setSelectedOrder(null);
+      patchResult(order.id, { status: statusMessageTarget.status, rejection_message: message });
+      closeStatusMessageModal();
+      closeOrderModal();
     }
   };
 
+  const toggleOrderSelected = (orderId: string) => {
+    setSelectedOrderIds(prev => (prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]));
+  };
+
+  const runBulkStatusChange = async (status: OrderStatus, message: string | null = null) => {
+    const ids = selectedOrderIds.filter(id => results.some(order => order.id === id));
+    if (ids.length === 0) return;
+    setBulkRunning(true);
+    setBulkResults(null);
+    const outcomes = await updateOrderStatuses(ids, status, message, staffName);
+    outcomes.forEach(outcome => {
+      if (outcome.success) {
+        patchResult(outcome.orderId, {
+          status,
+          rejection_message: CUSTOMER_MESSAGE_STATUSES.includes(status) ? message : null,
+        });
+      }
+    });
+    // Keep failed orders selected so they can be retried or handled one by one
+    setSelectedOrderIds(outcomes.filter(outcome => !outcome.success).map(outcome => outcome.orderId));
+    setBulkResults({ status, results: outcomes });
+    setBulkRunning(false);
+  };
+
+  const handleBulkAction = (status: OrderStatus) => {
+    if (CUSTOMER_MESSAGE_STATUSES.includes(status)) {
+      const selected = results.filter(order => selectedOrderIds.includes(order.id));
+      setStatusMessageTarget({ orders: selected, status, bulk: true });
+      setStatusMessage('');
+      return;
+    }
+    runBulkStatusChange(status);
+  };
+
+  const getOrderDisplayNumber = (orderId: string) => {
+    const order = results.find(o => o.id === orderId);
+    return order?.invoice_number ? `#${order.invoice_number}` : `#${orderId.slice(0, 8)}`;
+  };
+
+  const isClaimedByOther = (order: Order) => !!order.claimed_by && order.claimed_by !== staffName;
+
+  const handleTakeOver = async (order: Order) => {
+    if (!window.confirm(`${order.claimed_by} is handling this order. Take it over?`)) return;
+    const claimed = await claimOrder(order.id, staffName, true);
+    if (claimed) {
+      patchResult(order.id, claimed);
+      setSelectedOrder(prev => (prev && prev.id === order.id ? { ...prev, ...claimed } : prev));
+    }
+  };
+
+  const renderClaimBadge = (order: Order) => {
+    if (!order.claimed_by) return null;
+    const mine = order.claimed_by === staffName;
+    return (
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium border flex items-center gap-1 ${
+        mine ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-amber-50 text-amber-800 border-amber-200'
+      }`}>
+        {mine ? <UserCheck className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+        {mine ? 'Claimed by you' : `Claimed by ${order.claimed_by}`}
+      </span>
+    );
+  };
+
+  // Buttons for every status the order can move to next (place-order orders only).
+  // Orders claimed by someone else only offer a takeover.
+  const renderStatusActions = (order: Order) => {
+    if ((order.order_option || 'place_order') === 'order_via_messenger') return null;
+    if (!staffName) return null;
+    if (isClaimedByOther(order)) {
+      return (
+        <button
+          onClick={() => handleTakeOver(order)}
+          className="px-3 py-1.5 md:px-4 md:py-2 border rounded-lg transition-colors duration-200 flex items-center gap-1.5 md:gap-2 text-xs font-medium bg-amber-50 border-amber-200 hover:bg-amber-100 text-amber-800"
+        >
+          <Lock className="h-3.5 w-3.5 md:h-4 md:w-4" />
+          Take Over
+        </button>
+      );
+    }
+    // Split payments are approved by verifying every part
+    const unverifiedPayments = getUnverifiedPaymentCount(order);
+    return ORDER_STATUS_TRANSITIONS[order.status]
+      ?.filter((nextStatus) => nextStatus !== 'paid_verified' || unverifiedPayments === 0)
+      .map((nextStatus) => {
+        const action = STATUS_ACTIONS[nextStatus];
+        const Icon = action.icon;
+        return (
+          <button
+            key={nextStatus}
+            onClick={() => handleStatusChange(order, nextStatus)}
+            className={`px-3 py-1.5 md:px-4 md:py-2 border rounded-lg transition-colors duration-200 flex items-center gap-1.5 md:gap-2 text-xs font-medium ${action.className}`}
+          >
+            <Icon className="h-3.5 w-3.5 md:h-4 md:w-4" />
+            {action.label}
+          </button>
+        );
+      });
+  };
+
   const getTimeAgo = (createdAt: string) => {
     const now = new Date();
     const created = new Date(createdAt);
@@ -155,47 +544,20 @@ const OrderManager: React.FC = () => {
       );
     }
 
-    switch (status) {
-      case 'pending':
-        return (
-          <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 border border-yellow-200">
-            Pending
-          </span>
-        );
-      case 'processing':
-        return (
-          <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">
-            Processing
-          </span>
-        );
-      case 'approved':
-        return (
-          <span className="px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
-            Approved
-          </span>
-        );
-      case 'rejected':
-        return (
-          <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-200">
-            Rejected
-          </span>
-        );
-    }
-  };
-
-  if (loading) {
     return (
-      <div className="flex items-center justify-center py-12">
-        <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
-      </div>
+      <span className={`px-3 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[status] || STATUS_BADGE_CLASSES.pending}`}>
+        {status === 'cancelled' && order.customer_cancelled_at ? 'Cancelled by customer' : getOrderStatusLabel(status)}
+      </span>
     );
-  }
+  };
 
-  // Filter orders based on selected filter
-  const filteredOrders = orders.filter(order => {
-    const orderOption = order.order_option || 'place_order';
-    return orderOption === orderFilter;
-  });
+  const paymentMethodOptions = paymentMethods.filter(
+    (method, index, self) => index === self.findIndex(m => m.id === method.id)
+  );
+  const hasSearchFilters = Object.values(searchFilters).some(Boolean);
+  const selectableOrders = results.filter(order => isBulkSelectable(order, staffName));
+  const selectedCount = selectedOrderIds.filter(id => selectableOrders.some(order => order.id === id)).length;
+  const allSelected = selectableOrders.length > 0 && selectedCount === selectableOrders.length;
 
   return (
     <div className="space-y-3 md:space-y-6">
@@ -224,23 +586,194 @@ const OrderManager: React.FC = () => {
           </button>
         </div>
         
-        {/* Refresh Button */}
-        <button
-          onClick={fetchOrders}
-          className="px-3 py-1.5 md:px-4 md:py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-gray-700 flex items-center gap-1.5 md:gap-2 shadow-sm text-xs"
-        >
-          <Loader2 className="h-3.5 w-3.5 md:h-4 md:w-4" />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          {/* Export Buttons */}
+          {(['csv', 'xlsx'] as OrderExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              title="Export orders matching the current filters, one row per order line"
+              className="px-3 py-1.5 md:px-4 md:py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-gray-700 flex items-center gap-1.5 md:gap-2 shadow-sm text-xs disabled:opacity-50"
+            >
+              {exporting === format ? <Loader2 className="h-3.5 w-3.5 md:h-4 md:w-4 animate-spin" /> : <Download className="h-3.5 w-3.5 md:h-4 md:w-4" />}
+              {format.toUpperCase()}
+            </button>
+          ))}
+
+          {/* Refresh Button */}
+          <button
+            onClick={runSearch}
+            className="px-3 py-1.5 md:px-4 md:py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-gray-700 flex items-center gap-1.5 md:gap-2 shadow-sm text-xs"
+          >
+            <Loader2 className="h-3.5 w-3.5 md:h-4 md:w-4" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Staff Name - recorded on claims and order history */}
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <UserCheck className="h-3.5 w-3.5" />
+        Working as <span className="font-semibold text-gray-900">{staffName}</span>
+      </div>
+
+      {/* Search */}
+      <div className="bg-white rounded-lg border border-gray-200 p-3 md:p-4 space-y-2 md:space-y-3">
+        <form onSubmit={handleSearchSubmit} className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Invoice number, IGN / account details, or member username"
+              className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-3 py-2 md:px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors duration-200 text-xs font-medium"
+          >
+            Search
+          </button>
+        </form>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={searchFilters.status || ''}
+            onChange={(e) => updateSearchFilter('status', e.target.value as OrderStatus | '')}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-xs bg-white"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map((status) => (
+              <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <select
+            value={searchFilters.paymentMethod || ''}
+            onChange={(e) => updateSearchFilter('paymentMethod', e.target.value)}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-xs bg-white"
+          >
+            <option value="">All payment methods</option>
+            {paymentMethodOptions.map((method) => (
+              <option key={method.id} value={method.id}>{method.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            From
+            <input
+              type="date"
+              value={searchFilters.from || ''}
+              max={searchFilters.to || undefined}
+              onChange={(e) => updateSearchFilter('from', e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            To
+            <input
+              type="date"
+              value={searchFilters.to || ''}
+              min={searchFilters.from || undefined}
+              onChange={(e) => updateSearchFilter('to', e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-xs"
+            />
+          </label>
+          {(hasSearchFilters || searchInput) && (
+            <button
+              onClick={clearSearch}
+              className="px-2 py-1.5 text-xs text-gray-600 hover:text-gray-900 flex items-center gap-1"
+            >
+              <X className="h-3.5 w-3.5" />
+              Clear
+            </button>
+          )}
+        </div>
       </div>
 
-      {filteredOrders.length === 0 ? (
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Bulk Actions */}
+      {!searching && selectableOrders.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-3 flex items-center gap-2 md:gap-3 flex-wrap">
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedOrderIds(allSelected ? [] : selectableOrders.map(order => order.id))}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            {selectedCount > 0 ? `${selectedCount} selected` : 'Select all'}
+          </label>
+          <div className="flex items-center gap-2 flex-wrap">
+            {BULK_ACTION_STATUSES.map((status) => {
+              const action = STATUS_ACTIONS[status];
+              const Icon = action.icon;
+              return (
+                <button
+                  key={status}
+                  onClick={() => handleBulkAction(status)}
+                  disabled={selectedCount === 0 || bulkRunning}
+                  className={`px-3 py-1.5 border rounded-lg transition-colors duration-200 flex items-center gap-1.5 text-xs font-medium disabled:opacity-50 ${action.className}`}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                  {BULK_ACTION_LABELS[status] || action.label}
+                </button>
+              );
+            })}
+          </div>
+          {bulkRunning && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+        </div>
+      )}
+
+      {/* Bulk Results */}
+      {bulkResults && (
+        <div className="bg-white rounded-lg border border-gray-200 p-3">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-semibold text-gray-900">
+              {BULK_ACTION_LABELS[bulkResults.status] || STATUS_ACTIONS[bulkResults.status].label}:{' '}
+              {bulkResults.results.filter(result => result.success).length} of {bulkResults.results.length} updated
+            </p>
+            <button
+              onClick={() => setBulkResults(null)}
+              className="p-1 rounded hover:bg-gray-100 text-gray-500"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {bulkResults.results.map((result) => (
+              <li key={result.orderId} className="flex items-start gap-2 text-xs">
+                {result.success ? (
+                  <CheckCircle className="h-3.5 w-3.5 text-green-500 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="h-3.5 w-3.5 text-red-500 flex-shrink-0 mt-0.5" />
+                )}
+                <span className="font-medium text-gray-900">{getOrderDisplayNumber(result.orderId)}</span>
+                <span className={result.success ? 'text-gray-500' : 'text-red-600'}>
+                  {result.success ? 'Updated' : result.error}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {searching ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+        </div>
+      ) : results.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
           <p className="text-gray-500">No orders found</p>
         </div>
       ) : (
         <div className="space-y-3">
-           {filteredOrders.map((order) => (
+           {results.map((order) => (
              <div
                key={order.id}
                className="bg-white rounded-lg shadow-sm border border-gray-200 p-3 md:p-6 hover:shadow-md transition-shadow duration-200 relative"
@@ -248,15 +781,32 @@ const OrderManager: React.FC = () => {
                {/* Time Indicator and Order Number */}
                <div className="absolute top-3 left-3">
                  <div className="flex flex-col gap-1.5">
-                   <span className={`px-2 py-1 rounded text-xs font-medium ${
-                     getTimeAgo(order.created_at) === 'New'
-                       ? 'bg-green-100 text-green-800 border border-green-200'
-                       : 'bg-gray-100 text-gray-600 border border-gray-200'
-                   }`}>
-                     {getTimeAgo(order.created_at)}
-                   </span>
-                   <h3 className="text-xs font-semibold text-gray-900">
+                   <div className="flex items-center gap-2">
+                     {isBulkSelectable(order, staffName) && (
+                       <input
+                         type="checkbox"
+                         checked={selectedOrderIds.includes(order.id)}
+                         onChange={() => toggleOrderSelected(order.id)}
+                         aria-label="Select order"
+                         className="h-4 w-4 rounded border-gray-300"
+                       />
+                     )}
+                     <span className={`px-2 py-1 rounded text-xs font-medium ${
+                       getTimeAgo(order.created_at) === 'New'
+                         ? 'bg-green-100 text-green-800 border border-green-200'
+                         : 'bg-gray-100 text-gray-600 border border-gray-200'
+                     }`}>
+                       {getTimeAgo(order.created_at)}
+                     </span>
+                   </div>
+                   <h3 className="text-xs font-semibold text-gray-900 flex items-center gap-1.5">
                      Order {order.invoice_number ? `#${order.invoice_number}` : `#${order.id.slice(0, 8)}`}
+                     {getOrderGift(order) && (
+                       <span className="px-1.5 py-0.5 rounded bg-pink-100 text-pink-800 border border-pink-200 text-[10px] font-medium flex items-center gap-1">
+                         <Gift className="h-3 w-3" />
+                         Gift
+                       </span>
+                     )}
                    </h3>
                  </div>
                </div>
@@ -265,6 +815,7 @@ const OrderManager: React.FC = () => {
                <div className="flex items-start justify-end mb-4 pl-32 pr-2">
                  <div className="flex flex-col items-end gap-1.5">
                    {getStatusBadge(order)}
+                   {renderClaimBadge(order)}
                    <p className="text-xs text-gray-500">
                      {new Date(order.created_at).toLocaleString()}
                    </p>
@@ -291,11 +842,23 @@ const OrderManager: React.FC = () => {
                 </div>
                 <div>
                   <p className="text-xs text-gray-500 mb-1">Items</p>
-                  <p className="text-xs font-semibold text-gray-900">{order.order_items.length} item(s)</p>
+                  <p className="text-xs font-semibold text-gray-900">
+                    {order.order_items.length} item(s)
+                    {(() => {
+                      const summary = getOrderLineSummary(order);
+                      return summary.delivered > 0 || summary.failed > 0
+                        ? <span className="font-normal text-gray-500"> · {summary.delivered}/{summary.total} delivered</span>
+                        : null;
+                    })()}
+                  </p>
                 </div>
                 <div>
                   <p className="text-xs text-gray-500 mb-1">MOP</p>
-                  <p className="text-xs font-semibold text-gray-900 capitalize">{order.payment_method_id}</p>
+                  <p className="text-xs font-semibold text-gray-900 capitalize">
+                    {order.payment_parts?.length
+                      ? order.payment_parts.map(part => part.payment_method_name).join(' + ')
+                      : order.payment_method_id}
+                  </p>
                 </div>
               </div>
 
@@ -308,45 +871,23 @@ const OrderManager: React.FC = () => {
                   <span className="hidden sm:inline">View Details</span>
                   <span className="sm:hidden">View</span>
                 </button>
-                 {(order.order_option || 'place_order') !== 'order_via_messenger' && order.status === 'pending' && (
-                   <>
-                     <button
-                       onClick={() => handleApprove(order.id)}
-                       className="px-3 py-1.5 md:px-4 md:py-2 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors duration-200 text-green-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                     >
-                       <CheckCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                       Approve
-                     </button>
-                     <button
-                       onClick={() => openRejectModal(order)}
-                       className="px-3 py-1.5 md:px-4 md:py-2 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors duration-200 text-red-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                     >
-                       <XCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                       Reject
-                     </button>
-                   </>
-                 )}
-                 {(order.order_option || 'place_order') !== 'order_via_messenger' && order.status === 'processing' && (
-                   <>
-                     <button
-                       onClick={() => handleApprove(order.id)}
-                       className="px-3 py-1.5 md:px-4 md:py-2 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors duration-200 text-green-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                     >
-                       <CheckCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                       Approve
-                     </button>
-                     <button
-                       onClick={() => openRejectModal(order)}
-                       className="px-3 py-1.5 md:px-4 md:py-2 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors duration-200 text-red-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                     >
-                       <XCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                       Reject
-                     </button>
-                   </>
-                 )}
+                {renderStatusActions(order)}
               </div>
             </div>
           ))}
+
+          {nextCursor && (
+            <div className="flex justify-center pt-1">
+              <button
+                onClick={handleLoadOlder}
+                disabled={loadingOlder}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 text-gray-700 flex items-center gap-1.5 text-xs font-medium disabled:opacity-50"
+              >
+                {loadingOlder ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                Load older orders
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -359,10 +900,7 @@ const OrderManager: React.FC = () => {
                 Order {selectedOrder.invoice_number ? `#${selectedOrder.invoice_number}` : `#${selectedOrder.id.slice(0, 8)}`}
               </h2>
               <button
-                onClick={() => {
-                  setIsModalOpen(false);
-                  setSelectedOrder(null);
-                }}
+                onClick={closeOrderModal}
                 className="p-2 hover:bg-gray-100 rounded-lg transition-colors duration-200"
               >
                 <X className="h-5 w-5 text-gray-500" />
@@ -374,8 +912,29 @@ const OrderManager: React.FC = () => {
               <div className="flex items-center gap-2 md:gap-3">
                 <span className="text-xs text-gray-600">Status:</span>
                 {getStatusBadge(selectedOrder)}
+                {renderClaimBadge(selectedOrder)}
               </div>
 
+              {/* Gift – the account details are the recipient's, not the buyer's */}
+              {(() => {
+                const gift = getOrderGift(selectedOrder);
+                if (!gift) return null;
+                return (
+                  <div className="bg-pink-50 rounded-lg p-3 md:p-4 border border-pink-200">
+                    <h3 className="text-xs font-semibold text-pink-900 flex items-center gap-1.5 mb-1">
+                      <Gift className="h-4 w-4" />
+                      Gift order
+                    </h3>
+                    <p className="text-xs text-pink-800 mb-2">Top up the recipient's account below, not the buyer's.</p>
+                    <div className="space-y-1 text-xs text-gray-700">
+                      {gift.senderName && <p><span className="font-medium">From:</span> {gift.senderName}</p>}
+                      {gift.message && <p className="whitespace-pre-line break-words"><span className="font-medium">Message:</span> {gift.message}</p>}
+                      {gift.recipientContact && <p className="break-words"><span className="font-medium">Notify recipient:</span> {gift.recipientContact}</p>}
+                    </div>
+                  </div>
+                );
+              })()}
+
               {/* Member Information */}
               {selectedOrder.member_id && memberMap[selectedOrder.member_id] && (
                 <div className="bg-blue-50 rounded-lg p-3 md:p-4 border border-blue-200">
@@ -395,9 +954,34 @@ const OrderManager: React.FC = () => {
 
               {/* Order Items */}
               <div className="bg-gray-50 rounded-lg p-3 md:p-4 border border-gray-200">
-                <h3 className="text-xs font-medium text-gray-900 mb-3 md:mb-4">Order Items</h3>
+                <div className="flex items-center justify-between gap-2 mb-3 md:mb-4">
+                  <h3 className="text-xs font-medium text-gray-900">Order Items</h3>
+                  {(() => {
+                    const summary = getOrderLineSummary(selectedOrder);
+                    if (summary.delivered === 0 && summary.failed === 0) return null;
+                    return (
+                      <span className="text-xs text-gray-600">
+                        {summary.delivered}/{summary.total} delivered{summary.failed > 0 ? `, ${summary.failed} failed` : ''}
+                      </span>
+                    );
+                  })()}
+                </div>
+                {lineError && (
+                  <p className="text-xs text-red-600 mb-2">{lineError}</p>
+                )}
                 <div className="space-y-2 md:space-y-3">
-                  {selectedOrder.order_items.map((item, index) => (
+                  {selectedOrder.order_items.map((item, index) => {
+                    const lineStatus = getOrderLineStatus(selectedOrder, index);
+                    const lineFulfillment = selectedOrder.item_fulfillment?.[String(index)];
+                    // Single-account details are listed under Customer Information instead
+                    const accountFields = Array.isArray(selectedOrder.customer_info)
+                      ? withoutGiftFields(getOrderLineAccountFields(selectedOrder, item))
+                      : {};
+                    const canEditLine = (selectedOrder.order_option || 'place_order') !== 'order_via_messenger'
+                      && canUpdateOrderLines(selectedOrder.status)
+                      && !!staffName
+                      && !isClaimedByOther(selectedOrder);
+                    return (
                     <div key={index} className="flex items-start gap-2 md:gap-4 py-2 md:py-3 border-b border-gray-200 last:border-b-0">
                       <div className="flex-shrink-0 w-12 h-12 md:w-16 md:h-16 rounded-lg overflow-hidden bg-gray-100 border border-gray-200">
                         {item.image ? (
@@ -426,15 +1010,99 @@ const OrderManager: React.FC = () => {
                             ).join(', ')}
                           </p>
                         )}
-                        <p className="text-xs text-gray-500 mt-0.5 md:mt-1">₱{item.totalPrice} × {item.quantity}</p>
+                        <p className="text-xs text-gray-500 mt-0.5 md:mt-1">
+                          ₱{item.totalPrice} × {item.quantity}
+                          {item.flashSaleId && <span className="ml-1 text-orange-600 font-medium">(flash sale)</span>}
+                        </p>
+                        {item.bundleItems && item.bundleItems.length > 0 && (
+                          <div className="mt-1 pl-2 border-l-2 border-gray-200 space-y-0.5">
+                            <p className="text-[10px] font-medium text-gray-500 uppercase">Bundle – deliver</p>
+                            {item.bundleItems.map(bundleItem => (
+                              <p key={bundleItem.variationId} className="text-xs text-gray-700">
+                                {bundleItem.quantity * item.quantity} × {bundleItem.name}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                        {Object.keys(accountFields).length > 0 && (
+                          <p className="text-xs text-gray-600 mt-0.5 break-words">
+                            {Object.entries(accountFields).map(([label, value]) => `${label}: ${value}`).join(' · ')}
+                          </p>
+                        )}
+                        {lineFulfillment && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {lineStatus === 'delivered' ? 'Delivered' : 'Failed'} {new Date(lineFulfillment.updated_at).toLocaleString()}
+                            {lineFulfillment.note ? ` – ${lineFulfillment.note}` : ''}
+                          </p>
+                        )}
+                        {canEditLine && (
+                          <div className="flex items-center gap-1.5 mt-2 flex-wrap">
+                            <input
+                              type="text"
+                              value={lineNotes[index] || ''}
+                              onChange={(e) => setLineNotes(prev => ({ ...prev, [index]: e.target.value }))}
+                              placeholder="Note (optional)"
+                              className="flex-1 min-w-[8rem] px-2 py-1 border border-gray-300 rounded text-xs focus:ring-1 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            {lineStatus !== 'delivered' && (
+                              <button
+                                onClick={() => handleLineStatusChange(index, 'delivered')}
+                                disabled={updatingLine !== null}
+                                className="px-2 py-1 bg-green-50 border border-green-300 rounded hover:bg-green-100 text-green-700 text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <CheckCircle className="h-3.5 w-3.5" />
+                                Delivered
+                              </button>
+                            )}
+                            {lineStatus !== 'failed' && (
+                              <button
+                                onClick={() => handleLineStatusChange(index, 'failed')}
+                                disabled={updatingLine !== null}
+                                className="px-2 py-1 bg-red-50 border border-red-300 rounded hover:bg-red-100 text-red-700 text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <XCircle className="h-3.5 w-3.5" />
+                                Failed
+                              </button>
+                            )}
+                            {lineStatus !== 'pending' && (
+                              <button
+                                onClick={() => handleLineStatusChange(index, 'pending')}
+                                disabled={updatingLine !== null}
+                                className="px-2 py-1 bg-gray-50 border border-gray-300 rounded hover:bg-gray-100 text-gray-700 text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                                Reset
+                              </button>
+                            )}
+                            {updatingLine === index && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-500" />}
+                          </div>
+                        )}
                       </div>
-                      <div className="flex-shrink-0">
+                      <div className="flex-shrink-0 flex flex-col items-end gap-1">
                         <span className="text-xs font-semibold text-gray-900">₱{item.totalPrice * item.quantity}</span>
+                        {(lineStatus !== 'pending' || canUpdateOrderLines(selectedOrder.status)) && (
+                          <span className={`px-2 py-0.5 rounded border text-[10px] font-medium capitalize ${LINE_STATUS_BADGE_CLASSES[lineStatus]}`}>
+                            {lineStatus}
+                          </span>
+                        )}
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
                 <div className="mt-3 md:mt-4 pt-3 md:pt-4 border-t border-gray-200">
+                  {selectedOrder.voucher_code && (
+                    <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                      <span>Voucher {selectedOrder.voucher_code}:</span>
+                      <span className="text-green-700">-₱{Number(selectedOrder.voucher_discount || 0)}</span>
+                    </div>
+                  )}
+                  {Number(selectedOrder.payment_fee || 0) > 0 && (
+                    <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                      <span>Payment fee:</span>
+                      <span>₱{Number(selectedOrder.payment_fee)}</span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between text-xs font-semibold text-gray-900">
                     <span>Total:</span>
                     <span className="text-gray-900">₱{selectedOrder.total_price}</span>
@@ -444,10 +1112,10 @@ const OrderManager: React.FC = () => {
 
               {/* Customer Information */}
               <div className="bg-gray-50 rounded-lg p-3 md:p-4 border border-gray-200">
-                <h3 className="text-xs font-medium text-gray-900 mb-3 md:mb-4">Customer Information</h3>
+                <h3 className="text-xs font-medium text-gray-900 mb-3 md:mb-4">{getOrderGift(selectedOrder) ? "Recipient's Account" : 'Customer Information'}</h3>
                 <div className="space-y-1.5 md:space-y-2">
                   {Object.entries(selectedOrder.customer_info)
-                    .filter(([key]) => key !== 'Payment Method')
+                    .filter(([key]) => key !== 'Payment Method' && !isGiftFieldLabel(key))
                     .map(([key, value]) => (
                       <div key={key} className="flex items-center justify-between gap-2">
                         <p className="text-xs text-gray-600 flex-1 min-w-0">
@@ -469,7 +1137,92 @@ const OrderManager: React.FC = () => {
                 </div>
               </div>
 
-              {/* Receipt */}
+              {/* Split payment – one receipt per part, each verified on its own */}
+              {selectedOrder.payment_parts && selectedOrder.payment_parts.length > 0 ? (
+              <div className="bg-gray-50 rounded-lg p-3 md:p-4 border border-gray-200">
+                <h3 className="text-xs font-medium text-gray-900 mb-1">
+                  Split Payment ({selectedOrder.payment_parts.length - getUnverifiedPaymentCount(selectedOrder)}/{selectedOrder.payment_parts.length} verified)
+                </h3>
+                <p className="text-xs text-gray-500 mb-3 md:mb-4">The order is approved once every payment is verified.</p>
+                {paymentError && (
+                  <p className="text-xs text-red-600 mb-2">{paymentError}</p>
+                )}
+                <div className="space-y-2 md:space-y-3">
+                  {selectedOrder.payment_parts.map((part, index) => {
+                    const canVerify = (selectedOrder.order_option || 'place_order') !== 'order_via_messenger'
+                      && canVerifyOrderPayments(selectedOrder.status)
+                      && !!staffName
+                      && !isClaimedByOther(selectedOrder);
+                    return (
+                      <div key={index} className="flex items-start gap-2 md:gap-4 py-2 md:py-3 border-b border-gray-200 last:border-b-0">
+                        <a
+                          href={part.receipt_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex-shrink-0"
+                        >
+                          <img
+                            src={part.receipt_url}
+                            alt={`Receipt ${index + 1}`}
+                            className="w-12 h-12 md:w-16 md:h-16 object-cover rounded-lg border border-gray-300 hover:opacity-80 transition-opacity cursor-pointer"
+                            onError={(e) => {
+                              e.currentTarget.src = 'https://via.placeholder.com/300x300?text=Receipt+Not+Found';
+                            }}
+                          />
+                        </a>
+                        <div className="flex-1 min-w-0">
+                          <h4 className="text-xs font-medium text-gray-900">{part.payment_method_name}</h4>
+                          <p className="text-xs text-gray-600">
+                            {[part.account_name, part.admin_name].filter(Boolean).join(' · ')}
+                          </p>
+                          {part.verified_at && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Verified {new Date(part.verified_at).toLocaleString()}
+                              {part.verified_by ? ` by ${part.verified_by}` : ''}
+                            </p>
+                          )}
+                          {canVerify && (
+                            <div className="flex items-center gap-1.5 mt-2 flex-wrap">
+                              {part.verified_at ? (
+                                <button
+                                  onClick={() => handlePaymentVerifiedChange(index, false)}
+                                  disabled={updatingPayment !== null}
+                                  className="px-2 py-1 bg-gray-50 border border-gray-300 rounded hover:bg-gray-100 text-gray-700 text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                                >
+                                  <RotateCcw className="h-3.5 w-3.5" />
+                                  Unverify
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => handlePaymentVerifiedChange(index, true)}
+                                  disabled={updatingPayment !== null}
+                                  className="px-2 py-1 bg-teal-50 border border-teal-300 rounded hover:bg-teal-100 text-teal-700 text-xs font-medium flex items-center gap-1 disabled:opacity-50"
+                                >
+                                  <ShieldCheck className="h-3.5 w-3.5" />
+                                  Verify
+                                </button>
+                              )}
+                              {updatingPayment === index && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-500" />}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex-shrink-0 flex flex-col items-end gap-1">
+                          <span className="text-xs font-semibold text-gray-900">₱{part.amount}</span>
+                          {Number(part.fee || 0) > 0 && (
+                            <span className="text-[10px] text-gray-500">incl. ₱{Number(part.fee)} fee</span>
+                          )}
+                          <span className={`px-2 py-0.5 rounded border text-[10px] font-medium ${
+                            part.verified_at ? 'bg-green-100 text-green-800 border-green-300' : 'bg-gray-100 text-gray-700 border-gray-300'
+                          }`}>
+                            {part.verified_at ? 'verified' : 'unverified'}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              ) : (
               <div className="bg-gray-50 rounded-lg p-3 md:p-4 border border-gray-200">
                 <h3 className="text-xs font-medium text-gray-900 mb-3 md:mb-4">Payment Receipt</h3>
                 <div className="flex flex-col items-center gap-3 md:gap-4">
@@ -501,46 +1254,37 @@ const OrderManager: React.FC = () => {
                   </div>
                 </div>
               </div>
+              )}
+
+              {/* Status History */}
+              {orderEvents.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-3 md:p-4 border border-gray-200">
+                  <h3 className="text-xs font-medium text-gray-900 mb-3 md:mb-4">Status History</h3>
+                  <ol className="relative border-l border-gray-300 ml-1.5 space-y-3">
+                    {orderEvents.map((event) => (
+                      <li key={event.id} className="ml-4">
+                        <span className={`absolute -left-1.5 mt-1 h-3 w-3 rounded-full ${STATUS_BADGE_CLASSES[event.new_status] || 'bg-gray-100 border border-gray-300'}`} />
+                        <p className="text-xs font-medium text-gray-900">
+                          {event.old_status
+                            ? `${getOrderStatusLabel(event.old_status)} → ${getOrderStatusLabel(event.new_status)}`
+                            : 'Order placed'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(event.created_at).toLocaleString()} · by <span className="capitalize">{event.actor}</span>
+                        </p>
+                        {event.message && (
+                          <p className="text-xs text-gray-600 mt-0.5 break-words">“{event.message}”</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
 
               {/* Action Buttons */}
-              {(selectedOrder.order_option || 'place_order') !== 'order_via_messenger' && (
+              {(selectedOrder.order_option || 'place_order') !== 'order_via_messenger' && ORDER_STATUS_TRANSITIONS[selectedOrder.status]?.length > 0 && (
                 <div className="flex items-center gap-2 md:gap-3 pt-3 md:pt-4 border-t border-gray-200 flex-wrap">
-                  {selectedOrder.status === 'pending' && (
-                    <>
-                      <button
-                        onClick={() => handleApprove(selectedOrder.id)}
-                        className="px-3 py-1.5 md:px-4 md:py-2 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors duration-200 text-green-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                      >
-                        <CheckCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                        Approve
-                      </button>
-                      <button
-                        onClick={() => openRejectModal(selectedOrder)}
-                        className="px-3 py-1.5 md:px-4 md:py-2 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors duration-200 text-red-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                      >
-                        <XCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                        Reject
-                      </button>
-                    </>
-                  )}
-                  {selectedOrder.status === 'processing' && (
-                    <>
-                      <button
-                        onClick={() => handleApprove(selectedOrder.id)}
-                        className="px-3 py-1.5 md:px-4 md:py-2 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors duration-200 text-green-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                      >
-                        <CheckCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                        Approve
-                      </button>
-                      <button
-                        onClick={() => openRejectModal(selectedOrder)}
-                        className="px-3 py-1.5 md:px-4 md:py-2 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 transition-colors duration-200 text-red-700 flex items-center gap-1.5 md:gap-2 text-xs font-medium"
-                      >
-                        <XCircle className="h-3.5 w-3.5 md:h-4 md:w-4" />
-                        Reject
-                      </button>
-                    </>
-                  )}
+                  {renderStatusActions(selectedOrder)}
                 </div>
               )}
             </div>
@@ -548,63 +1292,60 @@ const OrderManager: React.FC = () => {
         </div>
       )}
 
-      {/* Reject Order Modal - send message to customer */}
-      {showRejectModal && orderToReject && (
+      {/* Status Message Modal - send message to customer (reject, cancel, refund, partial delivery) */}
+      {statusMessageTarget && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-2 md:p-4">
           <div className="bg-white rounded-lg shadow-xl p-4 md:p-6 max-w-md w-full">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-sm font-semibold text-gray-900">Reject order – send message</h3>
+              <h3 className="text-sm font-semibold text-gray-900">
+                {STATUS_ACTIONS[statusMessageTarget.status].label}
+                {statusMessageTarget.bulk ? ` ${statusMessageTarget.orders.length} orders` : ''} – send message
+              </h3>
               <button
-                onClick={() => {
-                  setShowRejectModal(false);
-                  setOrderToReject(null);
-                  setRejectMessage('');
-                }}
+                onClick={closeStatusMessageModal}
                 className="p-1.5 rounded-lg hover:bg-gray-100 text-gray-500"
               >
                 <X className="h-4 w-4" />
               </button>
             </div>
-            <div className="flex flex-wrap gap-2 mb-3">
-              {REJECT_SHORTCUTS.map((text) => (
-                <button
-                  key={text}
-                  type="button"
-                  onClick={() => setRejectMessage(text)}
-                  className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
-                    rejectMessage === text
-                      ? 'bg-red-50 border-red-200 text-red-700'
-                      : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100'
-                  }`}
-                >
-                  {text}
-                </button>
-              ))}
-            </div>
+            {statusMessageTarget.status === 'rejected' && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {REJECT_SHORTCUTS.map((text) => (
+                  <button
+                    key={text}
+                    type="button"
+                    onClick={() => setStatusMessage(text)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                      statusMessage === text
+                        ? 'bg-red-50 border-red-200 text-red-700'
+                        : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {text}
+                  </button>
+                ))}
+              </div>
+            )}
             <label className="block text-xs font-medium text-gray-700 mb-1">Custom message (optional)</label>
             <textarea
-              value={rejectMessage}
-              onChange={(e) => setRejectMessage(e.target.value)}
+              value={statusMessage}
+              onChange={(e) => setStatusMessage(e.target.value)}
               placeholder="Type a message for the customer..."
               rows={3}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
             />
             <div className="flex gap-2 mt-4">
               <button
-                onClick={() => {
-                  setShowRejectModal(false);
-                  setOrderToReject(null);
-                  setRejectMessage('');
-                }}
+                onClick={closeStatusMessageModal}
                 className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
               >
                 Cancel
               </button>
               <button
-                onClick={handleConfirmReject}
+                onClick={handleConfirmStatusMessage}
                 className="flex-1 px-3 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700"
               >
-                Reject order
+                Mark {getOrderStatusLabel(statusMessageTarget.status).toLowerCase()}
               </button>
             </div>
           </div>
@@ -1,7 +1,14 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { X, CheckCircle, XCircle, Loader2 } from 'lucide-react';
-import { Order, OrderStatus } from '../types';
-import { useOrders } from '../hooks/useOrders';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
+import { X, CheckCircle, XCircle, Loader2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { Order, OrderStatus, OrderTimelineEntry } from '../types';
+import { fetchCustomerOrder, fetchOrderTimeline } from '../hooks/useOrders';
+import { supabase } from '../lib/supabase';
+import CancelOrderButton from './CancelOrderButton';
+import { CUSTOMER_MESSAGE_STATUSES, isTerminalOrderStatus, getOrderStatusLabel } from '../lib/orderStatus';
+
+// Fallback polling while Realtime isn't connected: starts at 5s and doubles up to 60s
+const FALLBACK_POLL_INITIAL_MS = 5000;
+const FALLBACK_POLL_MAX_MS = 60000;
 
 interface OrderStatusModalProps {
   orderId: string | null;
@@ -11,34 +18,22 @@ interface OrderStatusModalProps {
 }
 
 const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, onClose, onSucceededClose }) => {
-  const { fetchOrderById } = useOrders();
   const [order, setOrder] = useState<Order | null>(null);
+  const [timeline, setTimeline] = useState<OrderTimelineEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  // Last status change seen while the modal is open, shown with an animation
+  const [transition, setTransition] = useState<{ from: OrderStatus; to: OrderStatus } | null>(null);
   const isInitialLoad = useRef(true);
+  const previousStatus = useRef<OrderStatus | null>(null);
 
-  useEffect(() => {
-    if (isOpen && orderId) {
-      isInitialLoad.current = true;
-      loadOrder(true);
-      // Poll for order updates every 3 seconds
-      const interval = setInterval(() => loadOrder(false), 3000);
-      return () => clearInterval(interval);
-    } else {
-      // Reset when modal closes
-      setOrder(null);
-      setLoading(true);
-      isInitialLoad.current = true;
-    }
-  }, [isOpen, orderId]);
-
-  const loadOrder = async (isInitial: boolean) => {
+  const loadOrder = useCallback(async (isInitial: boolean) => {
     if (!orderId) return;
     
     if (isInitial) {
       setLoading(true);
     }
     
-    const orderData = await fetchOrderById(orderId);
+    const orderData = await fetchCustomerOrder(orderId);
     
     if (orderData) {
       // Only update if status or updated_at changed (indicating a real update)
@@ -58,19 +53,118 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
       setLoading(false);
       isInitialLoad.current = false;
     }
-  };
+  }, [orderId]);
+
+  useEffect(() => {
+    if (isOpen && orderId) {
+      isInitialLoad.current = true;
+      loadOrder(true);
+    } else {
+      // Reset when modal closes
+      setOrder(null);
+      setTimeline([]);
+      setTransition(null);
+      setLoading(true);
+      isInitialLoad.current = true;
+      previousStatus.current = null;
+    }
+  }, [isOpen, orderId, loadOrder]);
+
+  // Listen for this order's status broadcasts (broadcast_order_update) until it reaches a terminal
+  // status; customers can't receive the orders row itself. Polling (with backoff) only runs while
+  // the channel is not connected.
+  const isTerminal = order ? isTerminalOrderStatus(order.status) : false;
+  useEffect(() => {
+    if (!isOpen || !orderId || isTerminal) return;
+
+    let stopped = false;
+    let realtimeConnected = false;
+    let pollDelay = FALLBACK_POLL_INITIAL_MS;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedulePoll = () => {
+      if (stopped || realtimeConnected || pollTimer) return;
+      pollTimer = setTimeout(async () => {
+        pollTimer = null;
+        await loadOrder(false);
+        pollDelay = Math.min(pollDelay * 2, FALLBACK_POLL_MAX_MS);
+        schedulePoll();
+      }, pollDelay);
+    };
+
+    const channel = supabase
+      .channel(`order-status-${orderId}`)
+      .on('broadcast', { event: 'order_updated' }, () => {
+        loadOrder(false);
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          realtimeConnected = true;
+          if (pollTimer) {
+            clearTimeout(pollTimer);
+            pollTimer = null;
+          }
+          pollDelay = FALLBACK_POLL_INITIAL_MS;
+          // Catch up on changes made before the subscription was ready
+          loadOrder(false);
+        } else {
+          realtimeConnected = false;
+          schedulePoll();
+        }
+      });
+
+    schedulePoll();
+
+    return () => {
+      stopped = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [isOpen, orderId, isTerminal, loadOrder]);
+
+  // Reload the history whenever the order moves to a new status
+  const orderStatus = order?.status;
+
+  // Animate status changes that arrive while the modal is open
+  useEffect(() => {
+    const from = previousStatus.current;
+    previousStatus.current = orderStatus ?? null;
+    if (!from || !orderStatus || from === orderStatus) return;
+    setTransition({ from, to: orderStatus });
+    const timeout = setTimeout(() => setTransition(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [orderStatus]);
+
+  useEffect(() => {
+    if (!isOpen || !orderId || !orderStatus) return;
+    let cancelled = false;
+    fetchOrderTimeline(orderId).then(entries => {
+      if (!cancelled) setTimeline(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, orderId, orderStatus]);
 
   if (!isOpen) return null;
 
   const getStatusDisplay = (status: OrderStatus) => {
     switch (status) {
       case 'pending':
-        return { text: 'Processing', icon: Loader2, color: 'text-cafe-primary' };
       case 'processing':
         return { text: 'Processing', icon: Loader2, color: 'text-cafe-primary' };
-      case 'approved':
+      case 'paid_verified':
+        return { text: 'Payment Verified', icon: Loader2, color: 'text-cafe-primary' };
+      case 'topping_up':
+        return { text: 'Topping Up', icon: Loader2, color: 'text-cafe-primary' };
+      case 'partially_delivered':
+        return { text: 'Partially Delivered', icon: AlertTriangle, color: 'text-orange-400' };
+      case 'delivered':
         return { text: 'Succeeded', icon: CheckCircle, color: 'text-green-400' };
+      case 'refunded':
+        return { text: 'Refunded', icon: RotateCcw, color: 'text-orange-400' };
       case 'rejected':
+      case 'cancelled':
         return { text: 'Cancelled', icon: XCircle, color: 'text-red-400' };
       default:
         return { text: 'Processing', icon: Loader2, color: 'text-cafe-primary' };
@@ -94,8 +188,8 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
           </div>
           <button
             onClick={() => {
-              // If order is completed (approved or rejected) and onSucceededClose is provided, call it
-              if ((order?.status === 'approved' || order?.status === 'rejected') && onSucceededClose) {
+              // If order is completed and onSucceededClose is provided, call it
+              if (order && isTerminalOrderStatus(order.status) && onSucceededClose) {
                 onSucceededClose();
               } else {
                 onClose();
@@ -115,8 +209,13 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
           <div className="space-y-6">
             {/* Status Display */}
             <div className="flex flex-col items-center gap-3 py-4">
-              <div className="flex items-center gap-3">
-                <StatusIcon className={`h-8 w-8 ${statusDisplay?.color} ${order.status === 'processing' || order.status === 'pending' ? 'animate-spin' : ''}`} />
+              {transition && (
+                <p className="text-xs text-cafe-textMuted animate-fade-in">
+                  {getOrderStatusLabel(transition.from)} → {getOrderStatusLabel(transition.to)}
+                </p>
+              )}
+              <div key={order.status} className={`flex items-center gap-3 ${transition ? 'animate-scale-in' : ''}`}>
+                <StatusIcon className={`h-8 w-8 ${statusDisplay?.color} ${StatusIcon === Loader2 ? 'animate-spin' : ''}`} />
                 <span className={`text-2xl font-semibold ${statusDisplay?.color}`}>
                   {statusDisplay?.text}
                 </span>
@@ -126,14 +225,44 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
                   {new Date(order.created_at).toLocaleString()}
                 </p>
               )}
-              {order.status === 'rejected' && order.rejection_message && (
+              {CUSTOMER_MESSAGE_STATUSES.includes(order.status) && order.rejection_message && (
                 <div className="mt-2 w-full max-w-md rounded-lg bg-red-500/10 border border-red-500/30 p-3 text-center">
-                  <p className="text-sm font-medium text-red-400">Message from store:</p>
+                  <p className="text-sm font-medium text-red-400">
+                    {order.customer_cancelled_at ? 'Your cancellation reason:' : 'Message from store:'}
+                  </p>
                   <p className="text-sm text-cafe-text mt-1">{order.rejection_message}</p>
                 </div>
               )}
             </div>
 
+            <CancelOrderButton
+              order={order}
+              onCancelled={(cancelled) => setOrder(prevOrder => (prevOrder ? { ...prevOrder, ...cancelled } : prevOrder))}
+            />
+
+            {/* Timeline */}
+            {timeline.length > 0 && (
+              <div className="glass-strong rounded-lg p-4 border border-cafe-primary/30">
+                <h3 className="font-medium text-cafe-text mb-4">Order Timeline</h3>
+                <ol className="space-y-3">
+                  {timeline.map((entry, index) => (
+                    <li key={`${entry.status}-${entry.created_at}-${index}`} className="flex items-start gap-3">
+                      <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${index === timeline.length - 1 ? 'bg-cafe-primary' : 'bg-cafe-textMuted/50'}`} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-cafe-text">
+                          {index === 0 ? 'Order placed' : getOrderStatusLabel(entry.status)}
+                        </p>
+                        <p className="text-xs text-cafe-textMuted">{new Date(entry.created_at).toLocaleString()}</p>
+                        {entry.message && (
+                          <p className="text-sm text-cafe-textMuted mt-0.5 break-words">{entry.message}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             {/* Order Details */}
             <div className="glass-strong rounded-lg p-4 border border-cafe-primary/30">
               <h3 className="font-medium text-cafe-text mb-4">Order Details</h3>
@@ -176,6 +305,18 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
                 ))}
               </div>
               <div className="mt-4 pt-4 border-t border-cafe-primary/30">
+                {order.voucher_code && (
+                  <div className="flex items-center justify-between text-sm text-cafe-textMuted mb-2">
+                    <span>Voucher {order.voucher_code}:</span>
+                    <span className="text-green-300">-₱{Number(order.voucher_discount || 0)}</span>
+                  </div>
+                )}
+                {Number(order.payment_fee || 0) > 0 && (
+                  <div className="flex items-center justify-between text-sm text-cafe-textMuted mb-2">
+                    <span>Payment fee:</span>
+                    <span>₱{Number(order.payment_fee)}</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-xl font-semibold text-cafe-text">
                   <span>Total:</span>
                   <span className="text-white">₱{order.total_price}</span>
@@ -203,6 +344,14 @@ const OrderStatusModal: React.FC<OrderStatusModalProps> = ({ orderId, isOpen, on
 
         {/* Footer */}
         <div className="mt-6 pt-4 border-t border-cafe-primary/20">
+          {order?.invoice_number && (
+            <p className="text-xs text-cafe-textMuted text-center mb-2">
+              Save your invoice number <span className="font-semibold text-cafe-text">#{order.invoice_number}</span> – you can check this order anytime at{' '}
+              <a href={`/track?invoice=${encodeURIComponent(order.invoice_number)}`} className="underline hover:text-cafe-text">
+                Track Order
+              </a>
+            </p>
+          )}
           <p className="text-xs text-cafe-textMuted text-center">
             Heven Game Credit
           </p>
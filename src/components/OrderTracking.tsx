@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Search, Loader2, Receipt, User } from 'lucide-react';
+import { TrackedOrder } from '../types';
+import { useOrders } from '../hooks/useOrders';
+import {
+  CUSTOMER_MESSAGE_STATUSES,
+  ORDER_STATUS_TONES,
+  OrderStatusTone,
+  getOrderStatusLabel,
+} from '../lib/orderStatus';
+
+const ORDER_STATUS_TONE_CLASSES: Record<OrderStatusTone, string> = {
+  success: 'bg-green-500/20 text-green-300',
+  danger: 'bg-red-500/20 text-red-300',
+  warning: 'bg-orange-500/20 text-orange-300',
+  info: 'bg-yellow-500/20 text-yellow-300',
+  progress: 'bg-blue-500/20 text-blue-300',
+  neutral: 'bg-gray-500/20 text-gray-300',
+};
+
+// Public order lookup (/track). Only the customer-safe summary from track_order is shown.
+const OrderTracking: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { trackOrder } = useOrders();
+  const [invoiceNumber, setInvoiceNumber] = useState(searchParams.get('invoice') || '');
+  const [contact, setContact] = useState('');
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setOrder(null);
+
+    if (!invoiceNumber.trim() || !contact.trim()) {
+      setError('Please enter your invoice number and contact or IGN.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await trackOrder(invoiceNumber, contact);
+      if (result) {
+        setOrder(result);
+      } else {
+        setError('No order matches that invoice number and contact / IGN.');
+      }
+    } catch (err) {
+      console.error('Error tracking order:', err);
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen theme-page-bg flex items-start justify-center p-4 pt-12">
+      <div className="w-full max-w-md">
+        <button
+          onClick={() => navigate('/')}
+          className="mb-6 flex items-center text-cafe-text hover:text-cafe-primary transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5 mr-2" />
+          Back to shop
+        </button>
+
+        <div className="glass-card rounded-xl p-6">
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-semibold text-cafe-text mb-2">Track Your Order</h2>
+            <p className="text-sm text-cafe-textMuted">
+              Enter the invoice number from your order and the contact number, email or IGN you used.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 glass-strong border border-red-500/30 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-cafe-text mb-2">Invoice Number</label>
+              <div className="relative">
+                <Receipt className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-cafe-text/50" />
+                <input
+                  type="text"
+                  value={invoiceNumber}
+                  onChange={(e) => setInvoiceNumber(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 glass border border-cafe-primary/30 rounded-lg text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary"
+                  placeholder="e.g. HGC2M11D1"
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-cafe-text mb-2">Contact or IGN</label>
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-cafe-text/50" />
+                <input
+                  type="text"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 glass border border-cafe-primary/30 rounded-lg text-cafe-text placeholder-cafe-textMuted focus:outline-none focus:ring-2 focus:ring-cafe-primary focus:border-cafe-primary"
+                  placeholder="Mobile number, email or in-game name"
+                  autoComplete="off"
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full py-3 bg-gradient-to-r from-cafe-primary to-cafe-secondary text-white rounded-lg font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {loading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Search className="h-5 w-5" />}
+              Track Order
+            </button>
+          </form>
+        </div>
+
+        {order && (
+          <div className="glass-card rounded-xl p-6 mt-4 space-y-5">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-cafe-textMuted">Order #{order.invoice_number}</p>
+                <p className="text-xs text-cafe-textMuted">{new Date(order.created_at).toLocaleString()}</p>
+              </div>
+              <span className={`px-3 py-1 rounded-full text-xs font-medium ${ORDER_STATUS_TONE_CLASSES[ORDER_STATUS_TONES[order.status] || 'neutral']}`}>
+                {getOrderStatusLabel(order.status)}
+              </span>
+            </div>
+
+            {CUSTOMER_MESSAGE_STATUSES.includes(order.status) && order.message && (
+              <div className="rounded-lg bg-red-500/10 border border-red-500/30 p-3">
+                <p className="text-sm font-medium text-red-400">Message from store:</p>
+                <p className="text-sm text-cafe-text mt-1">{order.message}</p>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium text-cafe-text mb-2">Items</h3>
+              <ul className="space-y-1">
+                {order.items.map((item, index) => (
+                  <li key={index} className="text-sm text-cafe-textMuted">
+                    {item.name}{item.variation ? ` – ${item.variation}` : ''} × {item.quantity}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {order.timeline.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-cafe-text mb-3">Order Timeline</h3>
+                <ol className="space-y-3">
+                  {order.timeline.map((entry, index) => (
+                    <li key={`${entry.status}-${entry.created_at}-${index}`} className="flex items-start gap-3">
+                      <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${index === order.timeline.length - 1 ? 'bg-cafe-primary' : 'bg-cafe-textMuted/50'}`} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-cafe-text">
+                          {index === 0 ? 'Order placed' : getOrderStatusLabel(entry.status)}
+                        </p>
+                        <p className="text-xs text-cafe-textMuted">{new Date(entry.created_at).toLocaleString()}</p>
+                        {entry.message && (
+                          <p className="text-sm text-cafe-textMuted mt-0.5 break-words">{entry.message}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracking;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Plus, Edit, Trash2, Save, X, ArrowLeft, CreditCard, Upload, ChevronDown, ChevronUp, ToggleLeft, ToggleRight, AlertTriangle } from 'lucide-react';
 import { usePaymentMethods, PaymentMethod, AdminPaymentGroup } from '../hooks/usePaymentMethods';
 import { supabase } from '../lib/supabase';
+import { formatPaymentMethodFee, hasPaymentMethodFee } from '../lib/paymentFees';
 import ImageUpload from './ImageUpload';
 
 interface PaymentMethodManagerProps {
@@ -72,7 +73,9 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
     active: true,
     sort_order: 0,
     admin_name: '',
-    max_order_amount: null as number | null
+    max_order_amount: null as number | null,
+    fee_fixed: 0,
+    fee_percent: 0
   });
 
   // Modal state
@@ -174,7 +177,9 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
       qr_code_url: '',
       active: true,
       sort_order: nextSortOrder,
-      admin_name: adminName || ''
+      admin_name: adminName || '',
+      fee_fixed: 0,
+      fee_percent: 0
     });
     setCurrentView('add');
   };
@@ -191,7 +196,9 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
       active: method.active,
       sort_order: method.sort_order,
       admin_name: method.admin_name || '',
-      max_order_amount: method.max_order_amount || null
+      max_order_amount: method.max_order_amount || null,
+      fee_fixed: Number(method.fee_fixed || 0),
+      fee_percent: Number(method.fee_percent || 0)
     });
     setCurrentView('edit');
   };
@@ -229,6 +236,11 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
       return;
     }
 
+    if (formData.fee_fixed < 0 || formData.fee_percent < 0 || formData.fee_percent > 100) {
+      alert('Fees cannot be negative and the percentage fee must be at most 100%');
+      return;
+    }
+
     // Check for duplicate ID within the same admin group when adding (not editing)
     if (currentView === 'add') {
       const duplicateInGroup = allPaymentMethods.some(
@@ -449,6 +461,37 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
                 </p>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Fixed Fee (PHP)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.fee_fixed || ''}
+                    onChange={(e) => setFormData({ ...formData, fee_fixed: e.target.value ? parseFloat(e.target.value) : 0 })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    placeholder="0"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Percentage Fee (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={formData.fee_percent || ''}
+                    onChange={(e) => setFormData({ ...formData, fee_percent: e.target.value ? parseFloat(e.target.value) : 0 })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    placeholder="0"
+                  />
+                </div>
+                <p className="col-span-2 text-xs text-gray-500 -mt-2">
+                  Convenience fee added to orders paid with this method (fixed amount plus a percentage of the amount paid). Shown to the customer as its own line.
+                </p>
+              </div>
+
               <div className="flex items-center">
                 <label className="flex items-center space-x-2">
                   <input
@@ -677,6 +720,9 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
                                   <p className="text-xs text-gray-600">{method.account_number}</p>
                                   <p className="text-xs text-gray-500">Account: {method.account_name}</p>
                                   <p className="text-xs text-gray-400">ID: {method.id} • Order: #{method.sort_order}</p>
+                                  {hasPaymentMethodFee(method) && (
+                                    <p className="text-xs text-orange-600">Fee: {formatPaymentMethodFee(method)}</p>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -753,6 +799,9 @@ const PaymentMethodManager: React.FC<PaymentMethodManagerProps> = ({ onBack }) =
                         <h3 className="font-medium text-black text-xs">{method.name}</h3>
                         <p className="text-xs text-gray-600">{method.account_number}</p>
                         <p className="text-xs text-gray-500">Account: {method.account_name}</p>
+                        {hasPaymentMethodFee(method) && (
+                          <p className="text-xs text-orange-600">Fee: {formatPaymentMethodFee(method)}</p>
+                        )}
                       </div>
                     </div>
                   </div>
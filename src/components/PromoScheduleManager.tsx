@@ -0,0 +1,123 @@
+import React from 'react';
+import { ArrowLeft, Edit, CalendarClock } from 'lucide-react';
+import { MenuItem } from '../types';
+import {
+  DiscountScheduleState,
+  formatCountdown,
+  formatManilaDateTime,
+  getDiscountScheduleState,
+} from '../lib/discountSchedule';
+
+interface PromoScheduleManagerProps {
+  menuItems: MenuItem[];
+  onBack: () => void;
+  onEditItem: (item: MenuItem) => void;
+}
+
+const SECTIONS: { state: Exclude<DiscountScheduleState, 'none'>; title: string; empty: string; className: string }[] = [
+  { state: 'live', title: 'Live now', empty: 'No sales running', className: 'bg-green-100 text-green-800' },
+  { state: 'upcoming', title: 'Upcoming', empty: 'No sales scheduled', className: 'bg-blue-100 text-blue-800' },
+  { state: 'expired', title: 'Expired', empty: 'No expired sales', className: 'bg-gray-100 text-gray-700' },
+];
+
+// Read-only overview of scheduled game sales; editing happens in the item form
+const PromoScheduleManager: React.FC<PromoScheduleManagerProps> = ({ menuItems, onBack, onEditItem }) => {
+  const now = Date.now();
+
+  const grouped: Record<DiscountScheduleState, MenuItem[]> = { none: [], upcoming: [], live: [], expired: [] };
+  menuItems.forEach(item => grouped[getDiscountScheduleState(item, now)].push(item));
+  // Soonest first; most recently ended first
+  const time = (value?: string) => (value ? new Date(value).getTime() : Infinity);
+  grouped.live.sort((a, b) => time(a.discountEndDate) - time(b.discountEndDate));
+  grouped.upcoming.sort((a, b) => time(a.discountStartDate) - time(b.discountStartDate));
+  grouped.expired.sort((a, b) => time(b.discountEndDate) - time(a.discountEndDate));
+
+  const describeTiming = (item: MenuItem, state: DiscountScheduleState) => {
+    if (state === 'upcoming' && item.discountStartDate) {
+      return `Starts in ${formatCountdown(new Date(item.discountStartDate).getTime() - now)}`;
+    }
+    if (state === 'live') {
+      return item.discountEndDate
+        ? `Ends in ${formatCountdown(new Date(item.discountEndDate).getTime() - now)}`
+        : 'No end date';
+    }
+    if (state === 'expired') return 'Ended';
+    return '';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="text-gray-600 hover:text-black transition-colors duration-200"
+                aria-label="Back to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+              <h1 className="text-black">Scheduled Sales</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <p className="text-xs text-gray-500">
+          Times are in Manila time. Set a game's sale discount and dates from its item form.
+        </p>
+
+        {SECTIONS.map(section => (
+          <div key={section.state} className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6">
+              <h2 className="text-xs font-playfair font-medium text-black mb-4">
+                {section.title} ({grouped[section.state].length})
+              </h2>
+
+              {grouped[section.state].length === 0 ? (
+                <div className="text-center py-6">
+                  <CalendarClock className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+                  <p className="text-xs text-gray-500">{section.empty}</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {grouped[section.state].map(item => (
+                    <div
+                      key={item.id}
+                      className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center justify-between gap-4"
+                    >
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-baseline gap-2 flex-wrap">
+                          <h3 className="font-semibold text-black text-xs">{item.name}</h3>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${section.className}`}>
+                            {Math.round((item.discountPercentage ?? 0) * 100)}% OFF
+                          </span>
+                          {!item.available && <span className="text-xs text-red-600">Unavailable</span>}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {formatManilaDateTime(item.discountStartDate)} → {formatManilaDateTime(item.discountEndDate)}
+                        </p>
+                        <p className="text-xs text-gray-700">{describeTiming(item, section.state)}</p>
+                      </div>
+                      <button
+                        onClick={() => onEditItem(item)}
+                        className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 flex-shrink-0"
+                        aria-label={`Edit ${item.name}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PromoScheduleManager;
@@ -1,8 +1,26 @@
 import React, { useState } from 'react';
-import { Save, Upload, X, Lock, Eye, EyeOff } from 'lucide-react';
+import { Save, Upload, X } from 'lucide-react';
 import { useSiteSettings } from '../hooks/useSiteSettings';
 import { useImageUpload } from '../hooks/useImageUpload';
-import { supabase } from '../lib/supabase';
+import { InvoiceResetPeriod, SiteSettings } from '../types';
+import {
+  DEFAULT_INVOICE_PREFIX,
+  DEFAULT_INVOICE_TEMPLATE,
+  DEFAULT_INVOICE_TIMEZONE,
+  INVOICE_TEMPLATE_TOKENS,
+  formatInvoiceNumber,
+  getInvoiceTemplateError,
+  isValidTimeZone,
+} from '../lib/invoiceNumber';
+
+// Invoice format fields of the settings form (padding kept as text for the number input)
+const getInvoiceFormData = (settings: SiteSettings) => ({
+  invoice_prefix: settings.invoice_prefix ?? DEFAULT_INVOICE_PREFIX,
+  invoice_template: settings.invoice_template || DEFAULT_INVOICE_TEMPLATE,
+  invoice_number_padding: String(settings.invoice_number_padding ?? 0),
+  invoice_reset_period: settings.invoice_reset_period || ('daily' as InvoiceResetPeriod),
+  invoice_timezone: settings.invoice_timezone || DEFAULT_INVOICE_TIMEZONE
+});
 
 const SiteSettingsManager: React.FC = () => {
   const { siteSettings, loading, updateSiteSettings } = useSiteSettings();
@@ -17,8 +35,14 @@ const SiteSettingsManager: React.FC = () => {
     footer_social_3: '',
     footer_social_4: '',
     footer_support_url: '',
-    order_option: 'order_via_messenger' as 'order_via_messenger' | 'place_order'
+    order_option: 'order_via_messenger' as 'order_via_messenger' | 'place_order',
+    invoice_prefix: DEFAULT_INVOICE_PREFIX,
+    invoice_template: DEFAULT_INVOICE_TEMPLATE,
+    invoice_number_padding: '0',
+    invoice_reset_period: 'daily' as InvoiceResetPeriod,
+    invoice_timezone: DEFAULT_INVOICE_TIMEZONE
   });
+  const [invoiceFormatError, setInvoiceFormatError] = useState('');
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>('');
   
@@ -44,22 +68,6 @@ const SiteSettingsManager: React.FC = () => {
     hero_image_5: null,
   });
   
-  // Password change state
-  const [showPasswordSection, setShowPasswordSection] = useState(false);
-  const [passwordData, setPasswordData] = useState({
-    currentPassword: '',
-    newPassword: '',
-    confirmPassword: ''
-  });
-  const [showPasswords, setShowPasswords] = useState({
-    current: false,
-    new: false,
-    confirm: false
-  });
-  const [passwordError, setPasswordError] = useState('');
-  const [passwordSuccess, setPasswordSuccess] = useState('');
-  const [isChangingPassword, setIsChangingPassword] = useState(false);
-
   React.useEffect(() => {
     if (siteSettings) {
       setFormData({
@@ -72,7 +80,8 @@ const SiteSettingsManager: React.FC = () => {
         footer_social_3: siteSettings.footer_social_3 || '',
         footer_social_4: siteSettings.footer_social_4 || '',
         footer_support_url: siteSettings.footer_support_url || '',
-        order_option: siteSettings.order_option || 'order_via_messenger'
+        order_option: siteSettings.order_option || 'order_via_messenger',
+        ...getInvoiceFormData(siteSettings)
       });
       setLogoPreview(siteSettings.site_logo);
       setHeroImages({
@@ -123,6 +132,23 @@ const SiteSettingsManager: React.FC = () => {
   };
 
   const handleSave = async () => {
+    // Validate invoice format before uploading anything
+    const padding = parseInt(formData.invoice_number_padding, 10);
+    const templateError = getInvoiceTemplateError(formData.invoice_template, formData.invoice_reset_period);
+    if (templateError) {
+      setInvoiceFormatError(templateError);
+      return;
+    }
+    if (isNaN(padding) || padding < 0 || padding > 10) {
+      setInvoiceFormatError('Zero-padding must be a number from 0 to 10.');
+      return;
+    }
+    if (!isValidTimeZone(formData.invoice_timezone)) {
+      setInvoiceFormatError(`Unknown timezone "${formData.invoice_timezone}". Use an IANA name like Asia/Manila.`);
+      return;
+    }
+    setInvoiceFormatError('');
+
     try {
       let logoUrl = logoPreview;
       
@@ -154,6 +180,11 @@ const SiteSettingsManager: React.FC = () => {
         footer_social_4: formData.footer_social_4,
         footer_support_url: formData.footer_support_url,
         order_option: formData.order_option,
+        invoice_prefix: formData.invoice_prefix.trim(),
+        invoice_template: formData.invoice_template.trim(),
+        invoice_number_padding: padding,
+        invoice_reset_period: formData.invoice_reset_period,
+        invoice_timezone: formData.invoice_timezone.trim(),
         hero_image_1: heroImageUrls.hero_image_1,
         hero_image_2: heroImageUrls.hero_image_2,
         hero_image_3: heroImageUrls.hero_image_3,
@@ -185,108 +216,14 @@ const SiteSettingsManager: React.FC = () => {
         footer_social_2: siteSettings.footer_social_2 || '',
         footer_social_3: siteSettings.footer_social_3 || '',
         footer_social_4: siteSettings.footer_social_4 || '',
-        footer_support_url: siteSettings.footer_support_url || ''
+        footer_support_url: siteSettings.footer_support_url || '',
+        order_option: siteSettings.order_option || 'order_via_messenger',
+        ...getInvoiceFormData(siteSettings)
       });
       setLogoPreview(siteSettings.site_logo);
     }
     setLogoFile(null);
-  };
-
-  // Password change handlers
-  const handlePasswordInputChange = (field: keyof typeof passwordData, value: string) => {
-    setPasswordData(prev => ({
-      ...prev,
-      [field]: value
-    }));
-    setPasswordError('');
-    setPasswordSuccess('');
-  };
-
-  const handleChangePassword = async () => {
-    setPasswordError('');
-    setPasswordSuccess('');
-    setIsChangingPassword(true);
-
-    try {
-      // Validation
-      if (!passwordData.currentPassword || !passwordData.newPassword || !passwordData.confirmPassword) {
-        setPasswordError('All fields are required');
-        setIsChangingPassword(false);
-        return;
-      }
-
-      if (passwordData.newPassword.length < 6) {
-        setPasswordError('New password must be at least 6 characters long');
-        setIsChangingPassword(false);
-        return;
-      }
-
-      if (passwordData.newPassword !== passwordData.confirmPassword) {
-        setPasswordError('New passwords do not match');
-        setIsChangingPassword(false);
-        return;
-      }
-
-      // Fetch current password from database
-      const { data: currentPasswordData, error: fetchError } = await supabase
-        .from('site_settings')
-        .select('value')
-        .eq('id', 'admin_password')
-        .single();
-
-      if (fetchError) {
-        throw new Error('Failed to fetch current password');
-      }
-
-      const currentPassword = currentPasswordData?.value || 'Diginix@Admin!2025';
-
-      // Verify current password
-      if (passwordData.currentPassword !== currentPassword) {
-        setPasswordError('Current password is incorrect');
-        setIsChangingPassword(false);
-        return;
-      }
-
-      // Update password in database
-      const { error: updateError } = await supabase
-        .from('site_settings')
-        .update({ value: passwordData.newPassword })
-        .eq('id', 'admin_password');
-
-      if (updateError) {
-        throw new Error('Failed to update password');
-      }
-
-      // Success
-      setPasswordSuccess('Password changed successfully!');
-      setPasswordData({
-        currentPassword: '',
-        newPassword: '',
-        confirmPassword: ''
-      });
-      setShowPasswordSection(false);
-
-      // Reset success message after 3 seconds
-      setTimeout(() => {
-        setPasswordSuccess('');
-      }, 3000);
-    } catch (err) {
-      console.error('Error changing password:', err);
-      setPasswordError(err instanceof Error ? err.message : 'Failed to change password. Please try again.');
-    } finally {
-      setIsChangingPassword(false);
-    }
-  };
-
-  const handleCancelPasswordChange = () => {
-    setPasswordData({
-      currentPassword: '',
-      newPassword: '',
-      confirmPassword: ''
-    });
-    setPasswordError('');
-    setPasswordSuccess('');
-    setShowPasswordSection(false);
+    setInvoiceFormatError('');
   };
 
   if (loading) {
@@ -519,6 +456,102 @@ const SiteSettingsManager: React.FC = () => {
           </div>
         </div>
 
+        {/* Invoice Number Format */}
+        <div className="border-t border-gray-200 pt-6 mt-6">
+          <h3 className="text-xs font-semibold text-black mb-4">Invoice Number Format</h3>
+          <p className="text-xs text-gray-600 mb-4">
+            Controls how invoice numbers are generated for every order. Available tokens:{' '}
+            {INVOICE_TEMPLATE_TOKENS.map(({ token, description }, index) => (
+              <span key={token}>
+                {index > 0 && ', '}
+                <code className="bg-gray-100 px-1 rounded">{token}</code> {description.toLowerCase()}
+              </span>
+            ))}
+            .
+          </p>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">Prefix</label>
+                <input
+                  type="text"
+                  name="invoice_prefix"
+                  value={formData.invoice_prefix}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder="e.g., HGC"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">Template</label>
+                <input
+                  type="text"
+                  name="invoice_template"
+                  value={formData.invoice_template}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 font-mono"
+                  placeholder={DEFAULT_INVOICE_TEMPLATE}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">Zero-padding of {'{N}'}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  name="invoice_number_padding"
+                  value={formData.invoice_number_padding}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">Number resets</label>
+                <select
+                  name="invoice_reset_period"
+                  value={formData.invoice_reset_period}
+                  onChange={(e) => setFormData(prev => ({ ...prev, invoice_reset_period: e.target.value as InvoiceResetPeriod }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="never">Never</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">Timezone</label>
+                <input
+                  type="text"
+                  name="invoice_timezone"
+                  value={formData.invoice_timezone}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder={DEFAULT_INVOICE_TIMEZONE}
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-600">
+              Preview (1st order today):{' '}
+              <span className="font-mono font-semibold text-gray-900">
+                {formatInvoiceNumber({
+                  prefix: formData.invoice_prefix,
+                  template: formData.invoice_template,
+                  padding: parseInt(formData.invoice_number_padding, 10) || 0,
+                  timezone: formData.invoice_timezone
+                }, 1)}
+              </span>
+            </p>
+            {invoiceFormatError && (
+              <p className="text-xs text-red-600">{invoiceFormatError}</p>
+            )}
+          </div>
+        </div>
+
         {/* Hero Slideshow Images */}
         <div className="border-t border-gray-200 pt-6 mt-6">
           <h3 className="text-xs font-semibold text-black mb-4">Hero Slideshow (Customer Page)</h3>
@@ -563,129 +596,6 @@ const SiteSettingsManager: React.FC = () => {
             ))}
           </div>
         </div>
-
-        {/* Password Change Section */}
-        <div className="border-t border-gray-200 pt-6 mt-6">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-2">
-              <Lock className="h-5 w-5 text-gray-600" />
-              <h3 className="text-xs font-semibold text-black">Admin Password</h3>
-            </div>
-            {!showPasswordSection && (
-              <button
-                onClick={() => setShowPasswordSection(true)}
-                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors duration-200 flex items-center space-x-2"
-              >
-                <Lock className="h-4 w-4" />
-                <span>Change Password</span>
-              </button>
-            )}
-          </div>
-
-          {showPasswordSection && (
-            <div className="bg-gray-50 rounded-lg p-6 space-y-4">
-              {passwordSuccess && (
-                <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
-                  {passwordSuccess}
-                </div>
-              )}
-
-              {passwordError && (
-                <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
-                  {passwordError}
-                </div>
-              )}
-
-              <div>
-                <label className="block text-xs font-medium text-gray-700 mb-2">
-                  Current Password
-                </label>
-                <div className="relative">
-                  <input
-                    type={showPasswords.current ? 'text' : 'password'}
-                    name="admin_current_password"
-                    autoComplete="off"
-                    value={passwordData.currentPassword}
-                    onChange={(e) => handlePasswordInputChange('currentPassword', e.target.value)}
-                    className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                    placeholder="Enter current admin password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPasswords(prev => ({ ...prev, current: !prev.current }))}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                  >
-                    {showPasswords.current ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                  </button>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-700 mb-2">
-                  New Password
-                </label>
-                <div className="relative">
-                  <input
-                    type={showPasswords.new ? 'text' : 'password'}
-                    name="admin_new_password"
-                    autoComplete="new-password"
-                    value={passwordData.newPassword}
-                    onChange={(e) => handlePasswordInputChange('newPassword', e.target.value)}
-                    className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                    placeholder="Enter new password (min. 6 characters)"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPasswords(prev => ({ ...prev, new: !prev.new }))}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                  >
-                    {showPasswords.new ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                  </button>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-xs font-medium text-gray-700 mb-2">
-                  Confirm New Password
-                </label>
-                <div className="relative">
-                  <input
-                    type={showPasswords.confirm ? 'text' : 'password'}
-                    name="admin_confirm_password"
-                    autoComplete="new-password"
-                    value={passwordData.confirmPassword}
-                    onChange={(e) => handlePasswordInputChange('confirmPassword', e.target.value)}
-                    className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                    placeholder="Confirm new password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPasswords(prev => ({ ...prev, confirm: !prev.confirm }))}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                  >
-                    {showPasswords.confirm ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                  </button>
-                </div>
-              </div>
-
-              <div className="flex space-x-2 pt-2">
-                <button
-                  onClick={handleCancelPasswordChange}
-                  className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors duration-200"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleChangePassword}
-                  disabled={isChangingPassword}
-                  className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isChangingPassword ? 'Changing...' : 'Change Password'}
-                </button>
-              </div>
-            </div>
-          )}
-        </div>
       </div>
     </div>
   );
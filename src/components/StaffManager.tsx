@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Save, X, ArrowLeft, UserCog } from 'lucide-react';
+import { StaffAccount, StaffRole } from '../types';
+import { useStaffAccounts } from '../hooks/useStaffAccounts';
+import { useStaffAuth } from '../hooks/useStaffAuth';
+import { STAFF_MIN_PASSWORD_LENGTH, STAFF_ROLE_DESCRIPTIONS, STAFF_ROLE_LABELS } from '../lib/staffRoles';
+
+interface StaffManagerProps {
+  onBack: () => void;
+}
+
+interface StaffFormState {
+  email: string;
+  display_name: string;
+  role: StaffRole;
+  active: boolean;
+  password: string; // Required for new accounts; for existing ones only set when changing it
+}
+
+const EMPTY_FORM: StaffFormState = {
+  email: '',
+  display_name: '',
+  role: 'cashier',
+  active: true,
+  password: '',
+};
+
+const ROLE_BADGE_CLASSES: Record<StaffRole, string> = {
+  owner: 'bg-purple-100 text-purple-800',
+  manager: 'bg-blue-100 text-blue-800',
+  cashier: 'bg-green-100 text-green-800',
+};
+
+const StaffManager: React.FC<StaffManagerProps> = ({ onBack }) => {
+  const { account: currentAccount } = useStaffAuth();
+  const { accounts, loading, createAccount, updateAccount, setPassword } = useStaffAccounts();
+  const [editing, setEditing] = useState<StaffAccount | 'new' | null>(null);
+  const [formData, setFormData] = useState<StaffFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = () => {
+    setFormData(EMPTY_FORM);
+    setFormError('');
+    setEditing('new');
+  };
+
+  const handleEdit = (account: StaffAccount) => {
+    setFormData({
+      email: account.email ?? '',
+      display_name: account.display_name,
+      role: account.role,
+      active: account.active,
+      password: '',
+    });
+    setFormError('');
+    setEditing(account);
+  };
+
+  const handleCancel = () => {
+    setEditing(null);
+    setFormError('');
+  };
+
+  const handleSave = async () => {
+    setFormError('');
+    if (!formData.display_name.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (editing === 'new' && !formData.email.trim()) {
+      setFormError('Email is required');
+      return;
+    }
+    if ((editing === 'new' || formData.password) && formData.password.length < STAFF_MIN_PASSWORD_LENGTH) {
+      setFormError(`Password must be at least ${STAFF_MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing === 'new') {
+        await createAccount({
+          email: formData.email.trim(),
+          password: formData.password,
+          display_name: formData.display_name,
+          role: formData.role,
+        });
+      } else if (editing) {
+        await updateAccount(editing.user_id, {
+          display_name: formData.display_name,
+          role: formData.role,
+          active: formData.active,
+        });
+        if (formData.password) {
+          await setPassword(editing.user_id, formData.password);
+        }
+      }
+      setEditing(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save staff account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isSelf = editing !== null && editing !== 'new' && editing.user_id === currentAccount?.user_id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="text-gray-600 hover:text-black transition-colors duration-200"
+                aria-label="Back to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+              <h1 className="text-black">Staff</h1>
+            </div>
+            {!editing && (
+              <button
+                onClick={handleAdd}
+                className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-1.5 md:px-4 md:py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200 text-xs"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        {editing && (
+          <div className="bg-white rounded-xl shadow-sm p-4 md:p-6 space-y-4">
+            <h2 className="text-xs font-playfair font-medium text-black">
+              {editing === 'new' ? 'Add Staff Account' : `Edit ${editing.display_name}`}
+            </h2>
+
+            {formError && (
+              <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg text-xs">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={formData.display_name}
+                  onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  placeholder="Shown on orders they handle"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Email {editing === 'new' && '*'}</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  disabled={editing !== 'new'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs disabled:bg-gray-100 disabled:text-gray-500"
+                  placeholder="Used to log in"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Role *</label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as StaffRole })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                >
+                  {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map(role => (
+                    <option key={role} value={role}>{STAFF_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{STAFF_ROLE_DESCRIPTIONS[formData.role]}</p>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">
+                  {editing === 'new' ? 'Password *' : 'New Password'}
+                </label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent text-xs"
+                  placeholder={editing === 'new' ? `At least ${STAFF_MIN_PASSWORD_LENGTH} characters` : 'Leave empty to keep the current password'}
+                />
+              </div>
+            </div>
+
+            {editing !== 'new' && (
+              <label className="flex items-center space-x-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  disabled={isSelf}
+                  className="rounded border-gray-300"
+                />
+                <span>Active {isSelf && '(you cannot deactivate your own account)'}</span>
+              </label>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleCancel}
+                className="px-3 py-1.5 md:px-4 md:py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center space-x-2 text-xs"
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-1.5 md:px-4 md:py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors duration-200 flex items-center space-x-2 text-xs disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>{saving ? 'Saving...' : 'Save'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-6">
+            <h2 className="text-xs font-playfair font-medium text-black mb-4">Staff Accounts</h2>
+
+            {loading ? (
+              <p className="text-xs text-gray-500 text-center py-8">Loading staff accounts...</p>
+            ) : accounts.length === 0 ? (
+              <div className="text-center py-8">
+                <UserCog className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500">No staff accounts yet</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {accounts.map(account => (
+                  <div
+                    key={account.user_id}
+                    className={`p-4 border border-gray-200 rounded-lg flex items-center justify-between gap-3 ${account.active ? '' : 'opacity-60'}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <h3 className="font-semibold text-black text-xs">{account.display_name}</h3>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_BADGE_CLASSES[account.role]}`}>
+                          {STAFF_ROLE_LABELS[account.role]}
+                        </span>
+                        {!account.active && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Inactive</span>
+                        )}
+                        {account.user_id === currentAccount?.user_id && (
+                          <span className="text-xs text-gray-500">(you)</span>
+                        )}
+                      </div>
+                      {account.email && <p className="text-xs text-gray-500 truncate">{account.email}</p>}
+                    </div>
+                    <button
+                      onClick={() => handleEdit(account)}
+                      className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 flex-shrink-0"
+                      aria-label={`Edit ${account.display_name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StaffManager;
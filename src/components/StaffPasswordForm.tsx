@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Lock, Eye, EyeOff } from 'lucide-react';
+import { useStaffAuth } from '../hooks/useStaffAuth';
+import { STAFF_MIN_PASSWORD_LENGTH } from '../lib/staffRoles';
+
+// Password of the logged-in staff account. Owners can also set anyone's password from the Staff tab.
+const StaffPasswordForm: React.FC = () => {
+  const { changePassword } = useStaffAuth();
+  const [showPasswordSection, setShowPasswordSection] = useState(false);
+  const [passwordData, setPasswordData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: ''
+  });
+  const [showPasswords, setShowPasswords] = useState({
+    current: false,
+    new: false,
+    confirm: false
+  });
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordSuccess, setPasswordSuccess] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  const handlePasswordInputChange = (field: keyof typeof passwordData, value: string) => {
+    setPasswordData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+    setPasswordError('');
+    setPasswordSuccess('');
+  };
+
+  const handleChangePassword = async () => {
+    setPasswordError('');
+    setPasswordSuccess('');
+
+    if (!passwordData.currentPassword || !passwordData.newPassword || !passwordData.confirmPassword) {
+      setPasswordError('All fields are required');
+      return;
+    }
+
+    if (passwordData.newPassword.length < STAFF_MIN_PASSWORD_LENGTH) {
+      setPasswordError(`New password must be at least ${STAFF_MIN_PASSWORD_LENGTH} characters long`);
+      return;
+    }
+
+    if (passwordData.newPassword !== passwordData.confirmPassword) {
+      setPasswordError('New passwords do not match');
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      const result = await changePassword(passwordData.currentPassword, passwordData.newPassword);
+      if (!result.success) {
+        setPasswordError(result.error || 'Failed to change password. Please try again.');
+        return;
+      }
+
+      setPasswordSuccess('Password changed successfully!');
+      setPasswordData({
+        currentPassword: '',
+        newPassword: '',
+        confirmPassword: ''
+      });
+      setShowPasswordSection(false);
+
+      // Reset success message after 3 seconds
+      setTimeout(() => {
+        setPasswordSuccess('');
+      }, 3000);
+    } catch (err) {
+      console.error('Error changing password:', err);
+      setPasswordError('Failed to change password. Please try again.');
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleCancelPasswordChange = () => {
+    setPasswordData({
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: ''
+    });
+    setPasswordError('');
+    setPasswordSuccess('');
+    setShowPasswordSection(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 md:p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Lock className="h-5 w-5 text-gray-600" />
+          <h3 className="text-xs font-semibold text-black">Your Password</h3>
+        </div>
+        {!showPasswordSection && (
+          <button
+            onClick={() => setShowPasswordSection(true)}
+            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors duration-200 flex items-center space-x-2 text-xs"
+          >
+            <Lock className="h-4 w-4" />
+            <span>Change Password</span>
+          </button>
+        )}
+      </div>
+
+      {passwordSuccess && !showPasswordSection && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg mt-4 text-xs">
+          {passwordSuccess}
+        </div>
+      )}
+
+      {showPasswordSection && (
+        <div className="bg-gray-50 rounded-lg p-6 space-y-4 mt-4">
+          {passwordError && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg text-xs">
+              {passwordError}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">
+              Current Password
+            </label>
+            <div className="relative">
+              <input
+                type={showPasswords.current ? 'text' : 'password'}
+                name="staff_current_password"
+                autoComplete="current-password"
+                value={passwordData.currentPassword}
+                onChange={(e) => handlePasswordInputChange('currentPassword', e.target.value)}
+                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 text-xs"
+                placeholder="Enter current password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPasswords(prev => ({ ...prev, current: !prev.current }))}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+              >
+                {showPasswords.current ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">
+              New Password
+            </label>
+            <div className="relative">
+              <input
+                type={showPasswords.new ? 'text' : 'password'}
+                name="staff_new_password"
+                autoComplete="new-password"
+                value={passwordData.newPassword}
+                onChange={(e) => handlePasswordInputChange('newPassword', e.target.value)}
+                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 text-xs"
+                placeholder={`Enter new password (min. ${STAFF_MIN_PASSWORD_LENGTH} characters)`}
+              />
+              <button
+                type="button"
+                onClick={() => setShowPasswords(prev => ({ ...prev, new: !prev.new }))}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+              >
+                {showPasswords.new ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">
+              Confirm New Password
+            </label>
+            <div className="relative">
+              <input
+                type={showPasswords.confirm ? 'text' : 'password'}
+                name="staff_confirm_password"
+                autoComplete="new-password"
+                value={passwordData.confirmPassword}
+                onChange={(e) => handlePasswordInputChange('confirmPassword', e.target.value)}
+                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 text-xs"
+                placeholder="Confirm new password"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPasswords(prev => ({ ...prev, confirm: !prev.confirm }))}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+              >
+                {showPasswords.confirm ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex space-x-2 pt-2">
+            <button
+              onClick={handleCancelPasswordChange}
+              className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 transition-colors duration-200 text-xs"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleChangePassword}
+              disabled={isChangingPassword}
+              className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed text-xs"
+            >
+              {isChangingPassword ? 'Changing...' : 'Change Password'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffPasswordForm;
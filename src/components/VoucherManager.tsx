@@ -0,0 +1,541 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, ArrowLeft, Ticket } from 'lucide-react';
+import { MemberUserType, Voucher, VoucherDiscountType } from '../types';
+import { useVouchers, VoucherFormData } from '../hooks/useVouchers';
+import { useMenu } from '../hooks/useMenu';
+import { useCategories } from '../hooks/useCategories';
+
+interface VoucherManagerProps {
+  onBack: () => void;
+}
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface VoucherFormState {
+  code: string;
+  description: string;
+  discount_type: VoucherDiscountType;
+  discount_value: string;
+  max_discount: string;
+  min_spend: string;
+  menu_item_ids: string[];
+  categories: string[];
+  member_types: MemberUserType[];
+  usage_limit: string;
+  per_member_limit: string;
+  starts_at: string;
+  ends_at: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: VoucherFormState = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  max_discount: '',
+  min_spend: '0',
+  menu_item_ids: [],
+  categories: [],
+  member_types: [],
+  usage_limit: '',
+  per_member_limit: '',
+  starts_at: '',
+  ends_at: '',
+  active: true,
+};
+
+const MEMBER_TYPE_LABELS: Record<MemberUserType, string> = {
+  end_user: 'Members',
+  reseller: 'Resellers',
+};
+
+// ISO timestamp → value for <input type="datetime-local"> (local time)
+const toDateTimeInput = (value: string | null): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const toOptionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const getVoucherState = (voucher: Voucher): { label: string; className: string } => {
+  const now = Date.now();
+  if (!voucher.active) return { label: 'Inactive', className: 'bg-red-100 text-red-800' };
+  if (voucher.starts_at && new Date(voucher.starts_at).getTime() > now) {
+    return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  }
+  if (voucher.ends_at && new Date(voucher.ends_at).getTime() <= now) {
+    return { label: 'Expired', className: 'bg-gray-100 text-gray-700' };
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+const VoucherManager: React.FC<VoucherManagerProps> = ({ onBack }) => {
+  const { vouchers, usageCounts, loading, addVoucher, updateVoucher, deleteVoucher } = useVouchers();
+  const { menuItems } = useMenu();
+  const { categories } = useCategories();
+  const [currentView, setCurrentView] = useState<'list' | 'add' | 'edit'>('list');
+  const [editingVoucher, setEditingVoucher] = useState<Voucher | null>(null);
+  const [formData, setFormData] = useState<VoucherFormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const handleAddVoucher = () => {
+    setEditingVoucher(null);
+    setFormData(EMPTY_FORM);
+    setCurrentView('add');
+  };
+
+  const handleEditVoucher = (voucher: Voucher) => {
+    setEditingVoucher(voucher);
+    setFormData({
+      code: voucher.code,
+      description: voucher.description || '',
+      discount_type: voucher.discount_type,
+      discount_value: String(voucher.discount_value),
+      max_discount: voucher.max_discount != null ? String(voucher.max_discount) : '',
+      min_spend: String(voucher.min_spend),
+      menu_item_ids: voucher.menu_item_ids || [],
+      categories: voucher.categories || [],
+      member_types: voucher.member_types || [],
+      usage_limit: voucher.usage_limit != null ? String(voucher.usage_limit) : '',
+      per_member_limit: voucher.per_member_limit != null ? String(voucher.per_member_limit) : '',
+      starts_at: toDateTimeInput(voucher.starts_at),
+      ends_at: toDateTimeInput(voucher.ends_at),
+      active: voucher.active,
+    });
+    setCurrentView('edit');
+  };
+
+  const handleDeleteVoucher = async (voucher: Voucher) => {
+    if (!confirm(`Delete voucher ${voucher.code}? Orders that used it keep the code and discount.`)) return;
+    try {
+      await deleteVoucher(voucher.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete voucher');
+    }
+  };
+
+  const handleCancel = () => {
+    setCurrentView('list');
+    setEditingVoucher(null);
+  };
+
+  const toggleListValue = <T extends string>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleSaveVoucher = async () => {
+    const discountValue = Number(formData.discount_value);
+    if (!formData.code.trim() || !formData.discount_value.trim() || !(discountValue > 0)) {
+      alert('Please enter a code and a discount greater than 0');
+      return;
+    }
+    if (formData.discount_type === 'percentage' && discountValue > 100) {
+      alert('A percentage discount cannot be more than 100%');
+      return;
+    }
+    if (formData.starts_at && formData.ends_at && new Date(formData.starts_at) >= new Date(formData.ends_at)) {
+      alert('The voucher must start before it ends');
+      return;
+    }
+
+    const voucher: VoucherFormData = {
+      code: formData.code,
+      description: formData.description,
+      discount_type: formData.discount_type,
+      discount_value: discountValue,
+      max_discount: formData.discount_type === 'percentage' ? toOptionalNumber(formData.max_discount) : null,
+      min_spend: Number(formData.min_spend) || 0,
+      menu_item_ids: formData.menu_item_ids,
+      categories: formData.categories,
+      member_types: formData.member_types,
+      usage_limit: toOptionalNumber(formData.usage_limit),
+      per_member_limit: toOptionalNumber(formData.per_member_limit),
+      starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+      ends_at: formData.ends_at ? new Date(formData.ends_at).toISOString() : null,
+      active: formData.active,
+    };
+
+    try {
+      setSaving(true);
+      if (editingVoucher) {
+        await updateVoucher(editingVoucher.id, voucher);
+      } else {
+        await addVoucher(voucher);
+      }
+      setCurrentView('list');
+      setEditingVoucher(null);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      alert(code === '23505' ? 'A voucher with this code already exists' : error instanceof Error ? error.message : 'Failed to save voucher');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeDiscount = (voucher: Voucher) => {
+    if (voucher.discount_type === 'fixed') return `₱${voucher.discount_value} off`;
+    return `${voucher.discount_value}% off${voucher.max_discount != null ? ` (max ₱${voucher.max_discount})` : ''}`;
+  };
+
+  const describeScope = (voucher: Voucher) => {
+    const parts = [
+      ...voucher.categories.map(id => categories.find(c => c.id === id)?.name || id),
+      ...voucher.menu_item_ids.map(id => menuItems.find(item => item.id === id)?.name || 'Removed game'),
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'Whole cart';
+  };
+
+  // Form View (Add/Edit)
+  if (currentView === 'add' || currentView === 'edit') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between h-16">
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center space-x-2 text-gray-600 hover:text-black transition-colors duration-200"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </button>
+                <h1 className="text-xs font-semibold text-black">
+                  {currentView === 'add' ? 'Add New Voucher' : 'Edit Voucher'}
+                </h1>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={handleCancel}
+                  className="px-3 py-1.5 md:px-4 md:py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 flex items-center space-x-2 text-xs"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel</span>
+                </button>
+                <button
+                  onClick={handleSaveVoucher}
+                  disabled={saving}
+                  className="px-3 py-1.5 md:px-4 md:py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors duration-200 flex items-center space-x-2 text-xs disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{saving ? 'Saving...' : 'Save'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="bg-white rounded-xl shadow-sm p-4 md:p-8">
+            <div className="space-y-6">
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Voucher Code *</label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent font-mono"
+                  placeholder="e.g. PAYDAY10"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  placeholder="Shown to the customer when the voucher is applied"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Discount Type</label>
+                  <select
+                    value={formData.discount_type}
+                    onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as VoucherDiscountType })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  >
+                    <option value="percentage">Percentage off</option>
+                    <option value="fixed">Fixed amount off</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">
+                    {formData.discount_type === 'percentage' ? 'Percent Off (%) *' : 'Amount Off (₱) *'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {formData.discount_type === 'percentage' && (
+                  <div>
+                    <label className="block text-xs font-medium text-black mb-2">Maximum Discount (₱)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.max_discount}
+                      onChange={(e) => setFormData({ ...formData, max_discount: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                      placeholder="No cap"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Minimum Spend (₱)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.min_spend}
+                    onChange={(e) => setFormData({ ...formData, min_spend: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Counts only the items the voucher applies to</p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Applies To</label>
+                <p className="text-xs text-gray-500 mb-2">Leave everything unchecked to apply the voucher to the whole cart.</p>
+                {categories.length > 0 && (
+                  <div className="mb-3">
+                    <p className="text-xs font-medium text-gray-700 mb-1">Categories</p>
+                    <div className="flex flex-wrap gap-2">
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center space-x-1.5 px-2 py-1 border border-gray-200 rounded-lg text-xs">
+                          <input
+                            type="checkbox"
+                            checked={formData.categories.includes(category.id)}
+                            onChange={() => setFormData({ ...formData, categories: toggleListValue(formData.categories, category.id) })}
+                            className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                          />
+                          <span>{category.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <p className="text-xs font-medium text-gray-700 mb-1">Games</p>
+                  <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {menuItems.map(item => (
+                      <label key={item.id} className="flex items-center space-x-1.5 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={formData.menu_item_ids.includes(item.id)}
+                          onChange={() => setFormData({ ...formData, menu_item_ids: toggleListValue(formData.menu_item_ids, item.id) })}
+                          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                        <span className="truncate">{item.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-black mb-2">Who Can Use It</label>
+                <div className="flex flex-wrap gap-4">
+                  {(Object.keys(MEMBER_TYPE_LABELS) as MemberUserType[]).map(type => (
+                    <label key={type} className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.member_types.includes(type)}
+                        onChange={() => setFormData({ ...formData, member_types: toggleListValue(formData.member_types, type) })}
+                        className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                      />
+                      <span className="text-xs text-black">{MEMBER_TYPE_LABELS[type]}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave unchecked to allow everyone, including guests.</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Total Uses</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.usage_limit}
+                    onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Uses per Member</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={formData.per_member_limit}
+                    onChange={(e) => setFormData({ ...formData, per_member_limit: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                    placeholder="Unlimited"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">When set, customers must log in to use the voucher</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Valid From</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-black mb-2">Valid Until</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.ends_at}
+                    onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.active}
+                    onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  <span className="text-xs font-medium text-black">Active Voucher</span>
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // List View
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="sticky top-0 z-40 bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="text-gray-600 hover:text-black transition-colors duration-200"
+                aria-label="Back to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+              <h1 className="text-black">Vouchers</h1>
+            </div>
+            <button
+              onClick={handleAddVoucher}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-1.5 md:px-4 md:py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200 text-xs"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="p-6">
+            <h2 className="text-xs font-playfair font-medium text-black mb-4">Vouchers</h2>
+
+            {loading ? (
+              <p className="text-xs text-gray-500 text-center py-8">Loading vouchers...</p>
+            ) : vouchers.length === 0 ? (
+              <div className="text-center py-8">
+                <Ticket className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-500 mb-4">No vouchers yet</p>
+                <button
+                  onClick={handleAddVoucher}
+                  className="bg-green-600 text-white px-3 py-1.5 md:px-4 md:py-2 rounded-lg hover:bg-green-700 transition-colors duration-200 text-xs"
+                >
+                  Add First Voucher
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {vouchers.map((voucher) => {
+                  const state = getVoucherState(voucher);
+                  const used = usageCounts[voucher.id] || 0;
+                  return (
+                    <div
+                      key={voucher.id}
+                      className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${state.className}`}>
+                          {state.label}
+                        </span>
+
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleEditVoucher(voucher)}
+                            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteVoucher(voucher)}
+                            className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        <div className="flex items-baseline gap-2 flex-wrap">
+                          <h3 className="font-mono font-semibold text-black text-xs">{voucher.code}</h3>
+                          <span className="text-xs text-gray-700">{describeDiscount(voucher)}</span>
+                        </div>
+                        {voucher.description && <p className="text-xs text-gray-500">{voucher.description}</p>}
+                        <p className="text-xs text-gray-500">
+                          Applies to: {describeScope(voucher)}
+                          {voucher.min_spend > 0 && ` · Min spend ₱${voucher.min_spend}`}
+                          {voucher.member_types.length > 0 && ` · ${voucher.member_types.map(type => MEMBER_TYPE_LABELS[type]).join(' & ')} only`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Used {used}{voucher.usage_limit != null ? ` / ${voucher.usage_limit}` : ''}
+                          {voucher.per_member_limit != null && ` · ${voucher.per_member_limit} per member`}
+                          {(voucher.starts_at || voucher.ends_at) && ' · '}
+                          {voucher.starts_at && `From ${new Date(voucher.starts_at).toLocaleString()}`}
+                          {voucher.starts_at && voucher.ends_at && ' '}
+                          {voucher.ends_at && `Until ${new Date(voucher.ends_at).toLocaleString()}`}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoucherManager;
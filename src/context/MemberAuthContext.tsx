@@ -1,27 +1,45 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { Member, CreateMemberData, LoginMemberData } from '../types';
-
-const hashPassword = async (password: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+import { hasResellerPricing } from '../lib/pricing';
+
+// Login is kept as a session token from the member-auth edge function. The token is what
+// create_order and the other member RPCs accept; the member id alone is never trusted.
+const SESSION_STORAGE_KEY = 'member_session';
+const LEGACY_MEMBER_ID_KEY = 'member_id';
+
+type MemberAuthResponse = {
+  success: boolean;
+  error?: string;
+  member?: Member;
+  session?: { token: string; expires_at: string };
 };
 
-const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+const invokeMemberAuth = async (body: Record<string, unknown>): Promise<MemberAuthResponse> => {
+  const { data, error } = await supabase.functions.invoke('member-auth', { body });
+  if (!error) return data as MemberAuthResponse;
+  // Non-2xx responses still carry the message in their body
+  try {
+    return (await error.context.json()) as MemberAuthResponse;
+  } catch {
+    throw error;
+  }
 };
 
+type MemberAuthActionResult = { success: boolean; error?: string };
+
 type MemberAuthValue = {
   currentMember: Member | null;
   loading: boolean;
   register: (data: CreateMemberData) => Promise<{ success: boolean; error?: string; member?: Member }>;
   login: (data: LoginMemberData) => Promise<{ success: boolean; error?: string; member?: Member }>;
   logout: () => void;
-  isReseller: () => boolean;
+  sessionToken: string | null; // Pass to member RPCs as p_member_session
+  requestEmailVerification: () => Promise<MemberAuthActionResult>;
+  verifyEmail: (token: string) => Promise<MemberAuthActionResult>;
+  requestPasswordReset: (email: string) => Promise<MemberAuthActionResult>;
+  resetPassword: (token: string, password: string) => Promise<MemberAuthActionResult>;
+  isReseller: () => boolean; // Gets reseller prices (reseller with a confirmed email)
   isAuthenticated: boolean;
 };
 
@@ -29,122 +47,133 @@ const MemberAuthContext = createContext<MemberAuthValue | null>(null);
 
 export const MemberAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [currentMember, setCurrentMember] = useState<Member | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    setSessionToken(null);
+    setCurrentMember(null);
+  }, []);
+
+  const startSession = useCallback((result: MemberAuthResponse): Member | null => {
+    if (!result.success || !result.member || !result.session) return null;
+    localStorage.setItem(SESSION_STORAGE_KEY, result.session.token);
+    setSessionToken(result.session.token);
+    setCurrentMember(result.member);
+    return result.member;
+  }, []);
+
   const checkAuth = useCallback(async () => {
-    const memberId = localStorage.getItem('member_id');
-    if (memberId) {
+    // Logins from before sessions only stored the member id; those members log in again
+    localStorage.removeItem(LEGACY_MEMBER_ID_KEY);
+
+    const token = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (token) {
       try {
-        const { data, error } = await supabase
-          .from('members')
-          .select('*')
-          .eq('id', memberId)
-          .eq('status', 'active')
-          .single();
-
-        if (!error && data) {
-          setCurrentMember(data as Member);
+        const result = await invokeMemberAuth({ action: 'session', token });
+        if (result.success && result.member) {
+          setSessionToken(token);
+          setCurrentMember(result.member);
         } else {
-          localStorage.removeItem('member_id');
-          setCurrentMember(null);
+          clearSession();
         }
       } catch (err) {
+        // Keep the token when the check itself failed (e.g. offline); it is checked again next time
         console.error('Error checking auth:', err);
-        localStorage.removeItem('member_id');
+        setSessionToken(null);
         setCurrentMember(null);
       }
     } else {
+      setSessionToken(null);
       setCurrentMember(null);
     }
     setLoading(false);
-  }, []);
+  }, [clearSession]);
 
   useEffect(() => {
     checkAuth();
+    // Logins and logouts in other tabs
     const handleStorageChange = () => checkAuth();
     window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('memberAuthUpdate', handleStorageChange);
     return () => {
       window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('memberAuthUpdate', handleStorageChange);
     };
   }, [checkAuth]);
 
   const register = useCallback(async (data: CreateMemberData): Promise<{ success: boolean; error?: string; member?: Member }> => {
     try {
-      const { data: existingEmail } = await supabase
-        .from('members')
-        .select('id')
-        .eq('email', data.email)
-        .single();
-      if (existingEmail) return { success: false, error: 'Email already registered' };
-
-      const { data: existingUsername } = await supabase
-        .from('members')
-        .select('id')
-        .eq('username', data.username)
-        .single();
-      if (existingUsername) return { success: false, error: 'Username already taken' };
-
-      const passwordHash = await hashPassword(data.password);
-      const { data: newMember, error } = await supabase
-        .from('members')
-        .insert({
-          username: data.username,
-          email: data.email,
-          mobile_no: data.mobile_no || null,
-          password_hash: passwordHash,
-          level: 1,
-          status: 'active',
-          user_type: 'end_user'
-        })
-        .select()
-        .single();
-
-      if (error) return { success: false, error: error.message };
-      if (newMember) {
-        localStorage.setItem('member_id', newMember.id);
-        setCurrentMember(newMember as Member);
-        window.dispatchEvent(new CustomEvent('memberAuthUpdate'));
-        return { success: true, member: newMember as Member };
-      }
-      return { success: false, error: 'Registration failed' };
+      const result = await invokeMemberAuth({
+        action: 'register',
+        username: data.username,
+        email: data.email,
+        mobile_no: data.mobile_no || null,
+        password: data.password
+      });
+      const member = startSession(result);
+      if (member) return { success: true, member };
+      return { success: false, error: result.error || 'Registration failed' };
     } catch (err) {
       console.error('Registration error:', err);
       return { success: false, error: 'An error occurred during registration' };
     }
-  }, []);
+  }, [startSession]);
 
   const login = useCallback(async (data: LoginMemberData): Promise<{ success: boolean; error?: string; member?: Member }> => {
     try {
-      const { data: member, error } = await supabase
-        .from('members')
-        .select('*')
-        .eq('email', data.email)
-        .single();
-
-      if (error || !member) return { success: false, error: 'Invalid email or password' };
-      if (member.status !== 'active') return { success: false, error: 'Account is inactive' };
-
-      const isValid = await verifyPassword(data.password, member.password_hash);
-      if (!isValid) return { success: false, error: 'Invalid email or password' };
-
-      localStorage.setItem('member_id', member.id);
-      setCurrentMember(member as Member);
-      window.dispatchEvent(new CustomEvent('memberAuthUpdate'));
-      return { success: true, member: member as Member };
+      const result = await invokeMemberAuth({ action: 'login', email: data.email, password: data.password });
+      const member = startSession(result);
+      if (member) return { success: true, member };
+      return { success: false, error: result.error || 'Invalid email or password' };
     } catch (err) {
       console.error('Login error:', err);
       return { success: false, error: 'An error occurred during login' };
     }
-  }, []);
+  }, [startSession]);
 
   const logout = useCallback(() => {
-    localStorage.removeItem('member_id');
-    setCurrentMember(null);
+    const token = localStorage.getItem(SESSION_STORAGE_KEY);
+    clearSession();
+    if (token) {
+      invokeMemberAuth({ action: 'logout', token }).catch(err => console.error('Logout error:', err));
+    }
+  }, [clearSession]);
+
+  // Email links: token-based verification and password reset (member-auth sends the emails)
+  const runAction = useCallback(async (body: Record<string, unknown>, fallbackError: string): Promise<MemberAuthActionResult> => {
+    try {
+      const result = await invokeMemberAuth(body);
+      return result.success ? { success: true } : { success: false, error: result.error || fallbackError };
+    } catch (err) {
+      console.error(`Member auth ${String(body.action)} error:`, err);
+      return { success: false, error: fallbackError };
+    }
   }, []);
 
-  const isReseller = useCallback(() => currentMember?.user_type === 'reseller', [currentMember?.user_type]);
+  const requestEmailVerification = useCallback(async (): Promise<MemberAuthActionResult> => {
+    if (!sessionToken) return { success: false, error: 'Please log in first' };
+    return runAction({ action: 'request_email_verification', token: sessionToken }, 'Could not send the verification email');
+  }, [runAction, sessionToken]);
+
+  const verifyEmail = useCallback(async (token: string): Promise<MemberAuthActionResult> => {
+    const result = await runAction({ action: 'verify_email', token }, 'Could not verify your email');
+    // Reload the member so email_verified_at (and reseller prices) show up
+    if (result.success) await checkAuth();
+    return result;
+  }, [runAction, checkAuth]);
+
+  const requestPasswordReset = useCallback(async (email: string): Promise<MemberAuthActionResult> => {
+    return runAction({ action: 'request_password_reset', email }, 'Could not send the reset email');
+  }, [runAction]);
+
+  const resetPassword = useCallback(async (token: string, password: string): Promise<MemberAuthActionResult> => {
+    const result = await runAction({ action: 'reset_password', token, password }, 'Could not reset your password');
+    // Every session ends with the old password, including this browser's
+    if (result.success) clearSession();
+    return result;
+  }, [runAction, clearSession]);
+
+  const isReseller = useCallback(() => hasResellerPricing(currentMember), [currentMember]);
 
   const value: MemberAuthValue = {
     currentMember,
@@ -152,6 +181,11 @@ export const MemberAuthProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     register,
     login,
     logout,
+    sessionToken,
+    requestEmailVerification,
+    verifyEmail,
+    requestPasswordReset,
+    resetPassword,
     isReseller,
     isAuthenticated: !!currentMember
   };
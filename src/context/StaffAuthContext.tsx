@@ -0,0 +1,133 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { StaffAccount } from '../types';
+
+// Admin login is a Supabase Auth account plus its staff_accounts row. The role on that row decides
+// which dashboard tabs are shown here and, through RLS, what the account can change.
+const STAFF_COLUMNS = 'user_id, display_name, role, active, created_at, updated_at';
+
+type StaffAuthActionResult = { success: boolean; error?: string };
+
+type StaffAuthValue = {
+  account: StaffAccount | null;
+  loading: boolean;
+  login: (email: string, password: string) => Promise<StaffAuthActionResult>;
+  logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<StaffAuthActionResult>;
+};
+
+const StaffAuthContext = createContext<StaffAuthValue | null>(null);
+
+const fetchStaffAccount = async (userId: string): Promise<StaffAccount | null> => {
+  const { data, error } = await supabase
+    .from('staff_accounts')
+    .select(STAFF_COLUMNS)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as StaffAccount | null;
+};
+
+export const StaffAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // undefined until the stored Supabase session has been read
+  const [userId, setUserId] = useState<string | null | undefined>(undefined);
+  const [account, setAccount] = useState<StaffAccount | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUserId(data.session?.user.id ?? null));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Logins without an active staff account (removed or deactivated staff) are signed out
+  const loadAccount = useCallback(async (id: string) => {
+    try {
+      const staff = await fetchStaffAccount(id);
+      if (staff?.active) {
+        setAccount(staff);
+      } else {
+        setAccount(null);
+        await supabase.auth.signOut();
+      }
+    } catch (err) {
+      console.error('Error loading staff account:', err);
+      setAccount(null);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (userId === undefined) return;
+    if (userId) {
+      loadAccount(userId);
+    } else {
+      setAccount(null);
+      setLoading(false);
+    }
+  }, [userId, loadAccount]);
+
+  const login = useCallback(async (email: string, password: string): Promise<StaffAuthActionResult> => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error || !data.user) {
+      return { success: false, error: 'Invalid email or password' };
+    }
+
+    try {
+      const staff = await fetchStaffAccount(data.user.id);
+      if (!staff?.active) {
+        await supabase.auth.signOut();
+        return { success: false, error: 'This account does not have staff access' };
+      }
+      setAccount(staff);
+      return { success: true };
+    } catch (err) {
+      console.error('Staff login error:', err);
+      await supabase.auth.signOut();
+      return { success: false, error: 'An error occurred during login' };
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    setAccount(null);
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error('Error logging out:', error);
+  }, []);
+
+  // The current password is checked by logging in with it again
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string): Promise<StaffAuthActionResult> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) return { success: false, error: 'Please log in again' };
+
+    const { error: verifyError } = await supabase.auth.signInWithPassword({ email: user.email, password: currentPassword });
+    if (verifyError) return { success: false, error: 'Current password is incorrect' };
+
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) return { success: false, error: error.message };
+    return { success: true };
+  }, []);
+
+  const value: StaffAuthValue = {
+    account,
+    loading,
+    login,
+    logout,
+    changePassword
+  };
+
+  return (
+    <StaffAuthContext.Provider value={value}>
+      {children}
+    </StaffAuthContext.Provider>
+  );
+};
+
+export function useStaffAuth(): StaffAuthValue {
+  const ctx = useContext(StaffAuthContext);
+  if (ctx == null) {
+    throw new Error('useStaffAuth must be used within StaffAuthProvider');
+  }
+  return ctx;
+}
@@ -1,15 +1,21 @@
-import { useState, useCallback, useEffect } from 'react';
-import { CartItem, MenuItem, Variation, AddOn, Member } from '../types';
-
-/** Resolve variation price for current member (reseller_price / member_price / base price). */
-function getVariationPriceForMember(variation: Variation, currentMember: Member | null): number {
-  if (!currentMember) return variation.price;
-  if (currentMember.user_type === 'reseller' && variation.reseller_price != null) return variation.reseller_price;
-  if (currentMember.user_type === 'end_user' && variation.member_price != null) return variation.member_price;
-  return variation.price;
-}
-
-export const useCart = (currentMember: Member | null) => {
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { CartItem, CartPriceChange, FlashSaleState, MenuItem, Variation, AddOn, Member } from '../types';
+import { getCartItemMenuItemId, getCartLineUnitPrice, hasResellerPricing } from '../lib/pricing';
+import { exceedsVariationStock, isVariationSoldOut } from '../lib/variationStock';
+
+/**
+ * Cart state (persisted in localStorage). Once the menu has loaded, and again whenever the member
+ * logs in or out or a flash sale changes, saved items are reconciled against the latest menu and
+ * member pricing: prices are refreshed (reported in priceChanges until acknowledged) and removed or
+ * disabled items are flagged.
+ */
+export const useCart = (
+  currentMember: Member | null,
+  menuItems: MenuItem[] = [],
+  menuLoaded: boolean = false,
+  flashSales?: FlashSaleState
+) => {
   // Load cart items from localStorage on mount
   const [cartItems, setCartItems] = useState<CartItem[]>(() => {
     try {
@@ -23,6 +29,15 @@ export const useCart = (currentMember: Member | null) => {
     return [];
   });
   const [isCartOpen, setIsCartOpen] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<CartPriceChange[]>([]);
+  // Reseller selling prices from member_discounts (by variation id), for the member identified by key
+  const [memberPricing, setMemberPricing] = useState<{ key: string; sellingPrices: Record<string, number> } | null>(null);
+  const cartItemsRef = useRef(cartItems);
+  cartItemsRef.current = cartItems;
+
+  const memberId = currentMember?.id;
+  const memberHasResellerPricing = hasResellerPricing(currentMember);
+  const memberPricingKey = currentMember ? `${currentMember.id}:${currentMember.user_type}:${memberHasResellerPricing}` : 'guest';
 
   // Save cart items to localStorage whenever they change
   useEffect(() => {
@@ -33,18 +48,109 @@ export const useCart = (currentMember: Member | null) => {
     }
   }, [cartItems]);
 
-  const calculateItemPrice = useCallback((item: MenuItem, variation?: Variation, addOns?: AddOn[]) => {
-    let price = item.basePrice;
-    if (variation) {
-      price += getVariationPriceForMember(variation, currentMember);
+  // Load the reseller's custom selling prices whenever the member changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMemberPricing = async () => {
+      const sellingPrices: Record<string, number> = {};
+      if (memberId && memberHasResellerPricing) {
+        try {
+          const { data, error } = await supabase
+            .from('member_discounts')
+            .select('variation_id, selling_price')
+            .eq('member_id', memberId);
+          if (error) throw error;
+          (data || []).forEach(discount => {
+            if (discount.variation_id) sellingPrices[discount.variation_id] = Number(discount.selling_price);
+          });
+        } catch (error) {
+          console.error('Error loading member pricing for cart:', error);
+        }
+      }
+      if (!cancelled) setMemberPricing({ key: memberPricingKey, sellingPrices });
+    };
+
+    loadMemberPricing();
+    return () => {
+      cancelled = true;
+    };
+  }, [memberId, memberHasResellerPricing, memberPricingKey]);
+
+  // Reconcile saved items with the latest menu and member pricing (on load, login / logout and menu refresh)
+  useEffect(() => {
+    if (!menuLoaded || memberPricing?.key !== memberPricingKey) return;
+
+    const changes: CartPriceChange[] = [];
+    const reconciled = new Map<string, CartItem>();
+
+    cartItemsRef.current.forEach(cartItem => {
+      const menuItem = menuItems.find(item => item.id === getCartItemMenuItemId(cartItem));
+      const variation = cartItem.selectedVariation
+        ? menuItem?.variations?.find(v => v.id === cartItem.selectedVariation?.id)
+        : undefined;
+
+      if (
+        !menuItem ||
+        menuItem.available === false ||
+        (cartItem.selectedVariation && (!variation || isVariationSoldOut(variation, menuItem.variations)))
+      ) {
+        if (!cartItem.unavailable) reconciled.set(cartItem.id, { ...cartItem, unavailable: true });
+        return;
+      }
+
+      const oldPrice = cartItem.effectiveUnitPriceOverride ?? cartItem.totalPrice;
+      const newPrice = getCartLineUnitPrice(
+        menuItem,
+        variation,
+        cartItem.selectedAddOns,
+        currentMember,
+        memberPricing.sellingPrices,
+        flashSales
+      );
+      if (Math.abs(newPrice - oldPrice) >= 0.01) {
+        changes.push({
+          id: cartItem.id,
+          name: menuItem.name,
+          variationName: variation?.name,
+          oldPrice,
+          newPrice,
+        });
+      }
+
+      // Refresh the snapshot (name, custom fields, variation) but keep the cart line's own fields
+      reconciled.set(cartItem.id, {
+        ...menuItem,
+        id: cartItem.id,
+        quantity: cartItem.quantity,
+        selectedVariation: variation,
+        selectedAddOns: cartItem.selectedAddOns,
+        totalPrice: newPrice,
+        effectiveUnitPriceOverride: newPrice,
+      });
+    });
+
+    if (reconciled.size > 0) {
+      setCartItems(prev => prev.map(item => reconciled.get(item.id) ?? item));
     }
-    if (addOns) {
-      addOns.forEach(addOn => {
-        price += (addOn.quantity ?? 1) * addOn.price;
+    if (changes.length > 0) {
+      // Keep the price the customer originally saw when an item changes more than once
+      setPriceChanges(prev => {
+        const merged = changes.map(change => {
+          const previous = prev.find(p => p.id === change.id);
+          return previous ? { ...change, oldPrice: previous.oldPrice } : change;
+        });
+        return [
+          ...prev.filter(p => !merged.some(change => change.id === p.id)),
+          ...merged.filter(change => Math.abs(change.newPrice - change.oldPrice) >= 0.01),
+        ];
       });
     }
-    return price;
-  }, [currentMember]);
+  }, [menuLoaded, menuItems, currentMember, memberPricing, memberPricingKey, flashSales]);
+
+  const calculateItemPrice = useCallback((item: MenuItem, variation?: Variation, addOns?: AddOn[]) => {
+    return getCartLineUnitPrice(item, variation, addOns, currentMember, memberPricing?.sellingPrices, flashSales);
+  }, [currentMember, memberPricing, flashSales]);
 
   /** Effective unit price for a cart item (member/reseller aware, or override from custom discount). */
   const getEffectiveUnitPrice = useCallback((cartItem: CartItem): number => {
@@ -137,16 +243,29 @@ export const useCart = (currentMember: Member | null) => {
 
   const removeFromCart = useCallback((id: string) => {
     setCartItems(prev => prev.filter(item => item.id !== id));
+    setPriceChanges(prev => prev.filter(change => change.id !== id));
   }, []);
 
   const clearCart = useCallback(() => {
     setCartItems([]);
+    setPriceChanges([]);
   }, []);
 
+  const acknowledgePriceChanges = useCallback(() => {
+    setPriceChanges([]);
+  }, []);
+
+  // Unavailable items are excluded from the total; they have to be removed before checkout
   const getTotalPrice = useCallback(() => {
-    return cartItems.reduce((total, item) => total + getEffectiveUnitPrice(item) * item.quantity, 0);
+    return cartItems
+      .filter(item => !item.unavailable)
+      .reduce((total, item) => total + getEffectiveUnitPrice(item) * item.quantity, 0);
   }, [cartItems, getEffectiveUnitPrice]);
 
+  // Checkout waits until unavailable items are removed, quantities fit the remaining stock and
+  // price changes were acknowledged
+  const needsReview = priceChanges.length > 0 || cartItems.some(item => item.unavailable || exceedsVariationStock(item));
+
   const getTotalItems = useCallback(() => {
     return cartItems.reduce((total, item) => total + item.quantity, 0);
   }, [cartItems]);
@@ -164,6 +283,9 @@ export const useCart = (currentMember: Member | null) => {
     getTotalPrice,
     getTotalItems,
     getEffectiveUnitPrice,
+    priceChanges,
+    acknowledgePriceChanges,
+    needsReview,
     openCart,
     closeCart
   };
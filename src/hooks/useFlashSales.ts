@@ -0,0 +1,193 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { FlashSale, FlashSaleState } from '../types';
+
+export type FlashSaleFormData = Omit<FlashSale, 'id' | 'sold_count' | 'created_at' | 'updated_at'>;
+
+// Admin management of flash sales (AdminDashboard → Flash Sales)
+export const useFlashSales = () => {
+  const [flashSales, setFlashSales] = useState<FlashSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFlashSales = async () => {
+    try {
+      setLoading(true);
+      const { data, error: fetchError } = await supabase
+        .from('flash_sales')
+        .select('*')
+        .order('starts_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      setFlashSales((data || []) as FlashSale[]);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching flash sales:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch flash sales');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addFlashSale = async (flashSale: FlashSaleFormData) => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('flash_sales')
+        .insert(flashSale)
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      await fetchFlashSales();
+      return data as FlashSale;
+    } catch (err) {
+      console.error('Error adding flash sale:', err);
+      throw err;
+    }
+  };
+
+  const updateFlashSale = async (id: string, flashSale: FlashSaleFormData) => {
+    try {
+      const { error: updateError } = await supabase
+        .from('flash_sales')
+        .update(flashSale)
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+
+      await fetchFlashSales();
+    } catch (err) {
+      console.error('Error updating flash sale:', err);
+      throw err;
+    }
+  };
+
+  const deleteFlashSale = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('flash_sales')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      await fetchFlashSales();
+    } catch (err) {
+      console.error('Error deleting flash sale:', err);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchFlashSales();
+  }, []);
+
+  return {
+    flashSales,
+    loading,
+    error,
+    addFlashSale,
+    updateFlashSale,
+    deleteFlashSale,
+    refetch: fetchFlashSales,
+  };
+};
+
+/**
+ * Storefront: active flash sales that have not ended, kept live over Realtime (sold_count changes
+ * with every order), plus the units the logged-in member (by session token) already bought for
+ * per-member caps.
+ */
+export const useLiveFlashSales = (memberSession: string | null): FlashSaleState => {
+  const [sales, setSales] = useState<FlashSale[]>([]);
+  const [memberClaims, setMemberClaims] = useState<Record<string, number>>({});
+
+  const fetchSales = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('flash_sales')
+        .select('*')
+        .eq('active', true)
+        .gt('ends_at', new Date().toISOString());
+      if (error) throw error;
+      setSales((data || []) as FlashSale[]);
+    } catch (err) {
+      console.error('Error fetching flash sales:', err);
+    }
+  };
+
+  const fetchMemberClaims = async (session: string | null) => {
+    if (!session) {
+      setMemberClaims({});
+      return;
+    }
+    try {
+      const { data, error } = await supabase.rpc('get_member_flash_sale_claims', { p_member_session: session });
+      if (error) throw error;
+      const claims: Record<string, number> = {};
+      ((data || []) as { flash_sale_id: string; quantity: number }[]).forEach(row => {
+        claims[row.flash_sale_id] = Number(row.quantity);
+      });
+      setMemberClaims(claims);
+    } catch (err) {
+      console.error('Error fetching flash sale claims:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSales();
+
+    const channel = supabase
+      .channel('flash-sales-realtime')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'flash_sales' },
+        (payload: { eventType?: string; new?: Partial<FlashSale>; old?: Partial<FlashSale> }) => {
+          if (payload.eventType === 'UPDATE' && payload.new?.id) {
+            const updated = payload.new as FlashSale;
+            setSales(prev => prev.some(sale => sale.id === updated.id)
+              ? prev.map(sale => (sale.id === updated.id ? updated : sale))
+              : [...prev, updated]);
+          } else if (payload.eventType === 'DELETE' && payload.old?.id) {
+            const oldId = payload.old.id;
+            setSales(prev => prev.filter(sale => sale.id !== oldId));
+          } else {
+            fetchSales();
+          }
+        }
+      )
+      .subscribe();
+
+    // Fallback in case Realtime doesn't deliver
+    const pollInterval = setInterval(fetchSales, 60000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(pollInterval);
+    };
+  }, []);
+
+  // Member claims only change with the member's own orders; refresh them with the sales
+  useEffect(() => {
+    fetchMemberClaims(memberSession);
+  }, [memberSession, sales]);
+
+  // New state when a sale starts or ends so menu and cart prices switch on time (ended sales are
+  // dropped; the new array also re-renders everything priced from a sale that just started)
+  useEffect(() => {
+    const now = Date.now();
+    const boundaries = sales
+      .flatMap(sale => [new Date(sale.starts_at).getTime(), new Date(sale.ends_at).getTime()])
+      .filter(time => time > now);
+    if (boundaries.length === 0) return;
+    const delay = Math.min(Math.min(...boundaries) - now + 1000, 2147483647);
+    const timer = setTimeout(() => {
+      setSales(prev => prev.filter(sale => new Date(sale.ends_at).getTime() > Date.now()));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [sales]);
+
+  return useMemo(() => ({ sales, memberClaims }), [sales, memberClaims]);
+};
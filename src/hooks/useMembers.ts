@@ -19,7 +19,7 @@ export const useMembers = () => {
       // Only select needed fields, exclude password_hash
       const { data, error } = await supabase
         .from('members')
-        .select('id, username, email, mobile_no, level, status, user_type, created_at, updated_at')
+        .select('id, username, email, mobile_no, level, status, user_type, email_verified_at, created_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
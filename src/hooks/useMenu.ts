@@ -1,11 +1,24 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { MenuItem, CustomField } from '../types';
+import { MenuItem, CustomField, Variation, BundleComponent } from '../types';
+import { getNextDiscountBoundary, isDiscountLive } from '../lib/discountSchedule';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// New packages get their ids before they are saved, so bundles can include packages added in the
+// same form (form ids → new ids)
+const remapBundleItems = (variation: Variation, newIds: Map<string, string>): BundleComponent[] =>
+  (variation.bundle_items || []).map(component => ({
+    ...component,
+    variation_id: newIds.get(component.variation_id) ?? component.variation_id
+  }));
 
 export const useMenu = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Bumped whenever the discount timer fires, so it is armed again even when no item changed
+  const [discountTick, setDiscountTick] = useState(0);
 
   const fetchMenuItems = async () => {
     try {
@@ -26,11 +39,10 @@ export const useMenu = () => {
       if (itemsError) throw itemsError;
 
       const formattedItems: MenuItem[] = items?.map(item => {
-        // Calculate if discount is currently active (no date range check)
-        const isDiscountActive = item.discount_active || false;
-        
         // discount_price now stores decimal (0-1, e.g., 0.10 for 10%)
         const discountPercentage = item.discount_price !== null ? item.discount_price : undefined;
+        const discountStartDate = item.discount_start_date || undefined;
+        const discountEndDate = item.discount_end_date || undefined;
 
         return {
           id: item.id,
@@ -44,10 +56,18 @@ export const useMenu = () => {
           sort_order: item.sort_order || 0,
           discountPercentage,
           discountActive: item.discount_active || false,
+          discountStartDate,
+          discountEndDate,
           // Legacy field for backward compatibility
           discountPrice: item.discount_price || undefined,
           effectivePrice: item.base_price, // Not used anymore, but kept for compatibility
-          isOnDiscount: isDiscountActive && discountPercentage !== undefined,
+          // Only within the scheduled window (Manila time), see lib/discountSchedule
+          isOnDiscount: isDiscountLive({
+            discountActive: item.discount_active || false,
+            discountPercentage,
+            discountStartDate,
+            discountEndDate
+          }),
           variations: (item.variations?.map(v => ({
             id: v.id,
             name: v.name,
@@ -58,7 +78,10 @@ export const useMenu = () => {
             description: v.description || undefined,
             sort_order: v.sort_order || 0,
             category: v.category || undefined,
-            sort: v.sort !== null && v.sort !== undefined ? v.sort : undefined
+            sort: v.sort !== null && v.sort !== undefined ? v.sort : undefined,
+            available: v.available ?? true,
+            stock: v.stock ?? null,
+            bundle_items: Array.isArray(v.bundle_items) ? v.bundle_items : []
           })) || []).sort((a, b) => (a.sort_order || 0) - (b.sort_order || 0)),
           customFields: (item.custom_fields as CustomField[]) || [],
           subtitle: item.subtitle || undefined
@@ -92,6 +115,8 @@ export const useMenu = () => {
           // Store discountPercentage (as decimal 0-1) in discount_price column
           discount_price: item.discountPercentage !== undefined ? item.discountPercentage : null,
           discount_active: item.discountActive || false,
+          discount_start_date: item.discountStartDate || null,
+          discount_end_date: item.discountEndDate || null,
           custom_fields: item.customFields || [],
           subtitle: item.subtitle || null
         })
@@ -102,10 +127,12 @@ export const useMenu = () => {
 
       // Insert variations if any
       if (item.variations && item.variations.length > 0) {
+        const newIds = new Map(item.variations.filter(v => v.id).map(v => [v.id, crypto.randomUUID()]));
         const { error: variationsError } = await supabase
           .from('variations')
           .insert(
             item.variations.map((v, index) => ({
+              id: newIds.get(v.id),
               menu_item_id: menuItem.id,
               name: v.name,
               price: v.price,
@@ -115,7 +142,10 @@ export const useMenu = () => {
               description: v.description || null,
               sort_order: v.sort_order !== undefined ? v.sort_order : index,
               category: v.category || null,
-              sort: v.sort !== null && v.sort !== undefined ? v.sort : null
+              sort: v.sort !== null && v.sort !== undefined ? v.sort : null,
+              available: v.available ?? true,
+              stock: v.stock ?? null,
+              bundle_items: remapBundleItems(v, newIds)
             }))
           );
 
@@ -147,8 +177,8 @@ export const useMenu = () => {
           sort_order: updates.sort_order !== undefined ? updates.sort_order : undefined,
           // Store discountPercentage (as decimal 0-1) in discount_price column
           discount_price: updates.discountPercentage !== undefined ? updates.discountPercentage : null,
-          discount_start_date: null,
-          discount_end_date: null,
+          discount_start_date: updates.discountStartDate || null,
+          discount_end_date: updates.discountEndDate || null,
           discount_active: updates.discountActive,
           custom_fields: updates.customFields !== undefined ? updates.customFields : undefined,
           subtitle: updates.subtitle !== undefined ? (updates.subtitle || null) : undefined
@@ -157,31 +187,53 @@ export const useMenu = () => {
 
       if (itemError) throw itemError;
 
-      // Delete existing variations
-      await supabase.from('variations').delete().eq('menu_item_id', id);
+      // Existing packages keep their ids (flash sales, member discounts and past orders refer to
+      // them); packages added in the form have temporary "var-..." ids
+      const variations = updates.variations || [];
+      const isSavedVariation = (v: Variation) => UUID_PATTERN.test(v.id);
+      const newIds = new Map(variations.filter(v => !isSavedVariation(v)).map(v => [v.id, crypto.randomUUID()]));
+      const toVariationRow = (v: Variation, index: number) => ({
+        menu_item_id: id,
+        name: v.name,
+        price: v.price,
+        member_price: v.member_price !== undefined ? v.member_price : null,
+        reseller_price: v.reseller_price !== undefined ? v.reseller_price : null,
+        credits_amount: v.credits_amount !== undefined ? v.credits_amount : null,
+        description: v.description || null,
+        sort_order: v.sort_order !== undefined ? v.sort_order : index,
+        category: v.category || null,
+        sort: v.sort !== null && v.sort !== undefined ? v.sort : null,
+        available: v.available ?? true,
+        stock: v.stock ?? null,
+        bundle_items: remapBundleItems(v, newIds)
+      });
 
-      // Insert new variations
-      if (updates.variations && updates.variations.length > 0) {
-        const { error: variationsError } = await supabase
-          .from('variations')
-          .insert(
-            updates.variations.map((v, index) => ({
-              menu_item_id: id,
-              name: v.name,
-              price: v.price,
-              member_price: v.member_price !== undefined ? v.member_price : null,
-              reseller_price: v.reseller_price !== undefined ? v.reseller_price : null,
-              credits_amount: v.credits_amount !== undefined ? v.credits_amount : null,
-              description: v.description || null,
-              sort_order: v.sort_order !== undefined ? v.sort_order : index,
-              category: v.category || null,
-              sort: v.sort !== null && v.sort !== undefined ? v.sort : null
-            }))
-          );
+      // Delete packages removed in the form
+      const keptIds = variations.filter(isSavedVariation).map(v => v.id);
+      let deleteQuery = supabase.from('variations').delete().eq('menu_item_id', id);
+      if (keptIds.length > 0) {
+        deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`);
+      }
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) throw deleteError;
 
+      const savedRows = variations
+        .map((v, index) => ({ v, index }))
+        .filter(({ v }) => isSavedVariation(v))
+        .map(({ v, index }) => ({ id: v.id, ...toVariationRow(v, index) }));
+      if (savedRows.length > 0) {
+        const { error: variationsError } = await supabase.from('variations').upsert(savedRows);
         if (variationsError) throw variationsError;
       }
 
+      const newRows = variations
+        .map((v, index) => ({ v, index }))
+        .filter(({ v }) => !isSavedVariation(v))
+        .map(({ v, index }) => ({ id: newIds.get(v.id), ...toVariationRow(v, index) }));
+      if (newRows.length > 0) {
+        const { error: variationsError } = await supabase.from('variations').insert(newRows);
+        if (variationsError) throw variationsError;
+      }
 
       await fetchMenuItems();
     } catch (err) {
@@ -226,7 +278,11 @@ export const useMenu = () => {
         sort_order: (originalItem.sort_order || 0) + 1, // Place after original
         discountPercentage: originalItem.discountPercentage,
         discountActive: originalItem.discountActive || false,
+        discountStartDate: originalItem.discountStartDate,
+        discountEndDate: originalItem.discountEndDate,
+        // The copies get new ids; bundles are pointed at the copied packages
         variations: originalItem.variations?.map(v => ({
+          id: v.id,
           name: v.name,
           price: v.price,
           member_price: v.member_price,
@@ -235,7 +291,10 @@ export const useMenu = () => {
           description: v.description,
           sort_order: v.sort_order || 0,
           category: v.category,
-          sort: v.sort
+          sort: v.sort,
+          available: v.available,
+          stock: v.stock,
+          bundle_items: v.bundle_items
         })) || [],
         customFields: originalItem.customFields || [],
         subtitle: originalItem.subtitle
@@ -253,6 +312,27 @@ export const useMenu = () => {
     fetchMenuItems();
   }, []);
 
+  // Start / end scheduled sales on time without a refetch
+  useEffect(() => {
+    const next = getNextDiscountBoundary(menuItems);
+    if (next === null) return;
+
+    // A second past the boundary (the end date is inclusive); setTimeout caps at ~24.8 days
+    const delay = Math.min(next - Date.now() + 1000, 2147483647);
+    const timer = setTimeout(() => {
+      setMenuItems(prev => {
+        const updated = prev.map(item => {
+          const isOnDiscount = isDiscountLive(item);
+          return item.isOnDiscount === isOnDiscount ? item : { ...item, isOnDiscount };
+        });
+        return updated.some((item, index) => item !== prev[index]) ? updated : prev;
+      });
+      setDiscountTick(tick => tick + 1);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [menuItems, discountTick]);
+
   return {
     menuItems,
     loading,
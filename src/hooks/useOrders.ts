@@ -1,7 +1,73 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import { Order, CreateOrderData, OrderStatus } from '../types';
+import {
+  Order,
+  CreateOrderData,
+  OrderStatus,
+  OrderLineStatus,
+  OrderEvent,
+  OrderTimelineEntry,
+  OrderSearchFilters,
+  OrderSearchCursor,
+  BulkOrderStatusResult,
+  TrackedOrder,
+} from '../types';
 import { useSiteSettings } from './useSiteSettings';
+import { ORDER_SEARCH_PAGE_SIZE, getOrderSearchDateRange } from '../lib/orderSearch';
+import { canTransitionOrderStatus, getOrderStatusLabel, CUSTOMER_MESSAGE_STATUSES } from '../lib/orderStatus';
+
+// How many times createOrder allocates a new invoice number after a duplicate before giving up
+const MAX_INVOICE_ATTEMPTS = 3;
+
+// Lookups that don't use any hook state live outside the hook and keep the same identity across
+// renders (safe as effect dependencies). useOrders returns them as well.
+
+// Fetch the order for the customer who placed it (order status modal). Only staff can read
+// orders directly; knowing the id is enough here, as for the timeline below.
+export const fetchCustomerOrder = async (orderId: string): Promise<Order | null> => {
+  try {
+    const { data, error: rpcError } = await supabase.rpc('get_customer_order', { p_order_id: orderId });
+
+    if (rpcError) throw rpcError;
+
+    return (data as Order | null)?.id ? (data as Order) : null;
+  } catch (err) {
+    console.error('Error fetching order:', err);
+    return null;
+  }
+};
+
+// Status history shown to the customer: statuses, store messages and times only
+export const fetchOrderTimeline = async (orderId: string): Promise<OrderTimelineEntry[]> => {
+  try {
+    const { data, error: rpcError } = await supabase.rpc('get_order_timeline', { p_order_id: orderId });
+
+    if (rpcError) throw rpcError;
+
+    return (data || []) as OrderTimelineEntry[];
+  } catch (err) {
+    console.error('Error fetching order timeline:', err);
+    return [];
+  }
+};
+
+// Full status history of an order for the admin (oldest first)
+export const fetchOrderEvents = async (orderId: string): Promise<OrderEvent[]> => {
+  try {
+    const { data, error: fetchError } = await supabase
+      .from('order_events')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) throw fetchError;
+
+    return (data || []) as OrderEvent[];
+  } catch (err) {
+    console.error('Error fetching order events:', err);
+    return [];
+  }
+};
 
 export const useOrders = () => {
   const { siteSettings } = useSiteSettings();
@@ -17,7 +83,7 @@ export const useOrders = () => {
       setLoading(true);
       let query = supabase
         .from('orders')
-        .select('id, invoice_number, status, total_price, payment_method_id, created_at, updated_at, member_id, order_option, order_items, customer_info, receipt_url, rejection_message')
+        .select('id, invoice_number, status, total_price, payment_method_id, created_at, updated_at, member_id, order_option, order_items, customer_info, receipt_url, rejection_message, item_fulfillment, claimed_by, claimed_at, customer_cancelled_at, voucher_id, voucher_code, voucher_discount, payment_parts, payment_fee')
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -54,6 +120,47 @@ export const useOrders = () => {
     }
   };
 
+  // Search all orders server-side (newest first). Pass the cursor returned by the previous call
+  // to load the next, older page; nextCursor is null when there is nothing older.
+  // Memoized so the order manager can search again from an effect.
+  const searchOrders = useCallback(async (
+    filters: OrderSearchFilters,
+    cursor?: OrderSearchCursor | null,
+    pageSize: number = ORDER_SEARCH_PAGE_SIZE
+  ): Promise<{ orders: Order[]; nextCursor: OrderSearchCursor | null } | null> => {
+    try {
+      const { from, to } = getOrderSearchDateRange(filters);
+      const { data, error: rpcError } = await supabase.rpc('search_orders', {
+        p_query: filters.query?.trim() || null,
+        p_status: filters.status || null,
+        p_payment_method: filters.paymentMethod || null,
+        p_order_option: filters.orderOption || null,
+        p_from: from,
+        p_to: to,
+        p_before_created_at: cursor?.created_at || null,
+        p_before_id: cursor?.id || null,
+        // One extra row tells us whether an older page exists
+        p_limit: pageSize + 1,
+      });
+
+      if (rpcError) throw rpcError;
+
+      const rows = (data || []) as Order[];
+      const page = rows.slice(0, pageSize);
+      const last = page[page.length - 1];
+
+      setError(null);
+      return {
+        orders: page,
+        nextCursor: rows.length > pageSize && last ? { created_at: last.created_at, id: last.id } : null,
+      };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search orders');
+      console.error('Error searching orders:', err);
+      return null;
+    }
+  }, []);
+
   // Fetch a single order by ID
   const fetchOrderById = async (orderId: string): Promise<Order | null> => {
     try {
@@ -72,26 +179,69 @@ export const useOrders = () => {
     }
   };
 
+  // Public order lookup: invoice number plus a contact value or IGN from the order.
+  // Returns null both for unknown invoices and for contacts that don't match.
+  const trackOrder = async (invoiceNumber: string, contact: string): Promise<TrackedOrder | null> => {
+    const { data, error: rpcError } = await supabase.rpc('track_order', {
+      p_invoice_number: invoiceNumber.trim(),
+      p_contact: contact.trim(),
+    });
+
+    if (rpcError) throw rpcError;
+
+    return (data as TrackedOrder | null) || null;
+  };
+
+  // Allocate the next invoice number from the database, formatted from the invoice_* site settings.
+  // The counter lives in invoice_counters and is incremented atomically per reset period,
+  // so concurrent checkouts can never receive the same number.
+  const allocateInvoiceNumber = async (): Promise<string> => {
+    const { data, error: rpcError } = await supabase.rpc('allocate_invoice_number');
+
+    if (rpcError) throw rpcError;
+    if (!data) throw new Error('No invoice number was allocated');
+
+    return data as string;
+  };
+
   // Create a new order
+  // The invoice number is allocated server-side unless one is passed in. If the insert still
+  // hits the unique constraint on orders.invoice_number, a fresh number is allocated and retried.
+  // create_order re-prices every line from the database; when the submitted total does not match
+  // (or an item is no longer available) the order is rejected and the server's message is thrown.
   const createOrder = async (orderData: CreateOrderData): Promise<Order | null> => {
     try {
-      const { data, error: createError } = await supabase
-        .from('orders')
-        .insert({
-          order_items: orderData.order_items,
-          customer_info: orderData.customer_info,
-          payment_method_id: orderData.payment_method_id,
-          receipt_url: orderData.receipt_url,
-          total_price: orderData.total_price,
-          member_id: orderData.member_id || null,
-          order_option: orderData.order_option || 'place_order',
-          invoice_number: orderData.invoice_number || null,
-          status: 'pending',
-        })
-        .select()
-        .single();
+      let invoiceNumber = orderData.invoice_number || await allocateInvoiceNumber();
+      let data: Order | null = null;
+
+      for (let attempt = 1; ; attempt++) {
+        const { data: inserted, error: createError } = await supabase.rpc('create_order', {
+          p_order_items: orderData.order_items,
+          p_customer_info: orderData.customer_info,
+          p_payment_method_id: orderData.payment_method_id,
+          p_receipt_url: orderData.receipt_url,
+          p_total_price: orderData.total_price,
+          p_member_session: orderData.member_session || null,
+          p_order_option: orderData.order_option || 'place_order',
+          p_invoice_number: invoiceNumber,
+          p_voucher_code: orderData.voucher_code || null,
+          p_payment_parts: orderData.payment_parts?.length ? orderData.payment_parts : null,
+          p_payment_method_uuid: orderData.payment_method_uuid || null,
+        });
 
-      if (createError) throw createError;
+        if (!createError) {
+          data = inserted as Order;
+          break;
+        }
+
+        // 23505 = unique_violation: the invoice number is already taken, allocate another one
+        if (createError.code === '23505' && attempt < MAX_INVOICE_ATTEMPTS) {
+          invoiceNumber = await allocateInvoiceNumber();
+          continue;
+        }
+
+        throw createError;
+      }
 
       // Add new order to the list if we're in admin view
       if (orders.length > 0 && data) {
@@ -109,38 +259,216 @@ export const useOrders = () => {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create order');
       console.error('Error creating order:', err);
+      // 23514 = check_violation: the order was rejected by create_order's validation
+      if ((err as { code?: string }).code === '23514') throw err;
       return null;
     }
   };
 
-  // Update order status (rejectionMessage optional, used when status is 'rejected')
-  const updateOrderStatus = async (orderId: string, status: OrderStatus, rejectionMessage?: string | null): Promise<boolean> => {
+  // Move one order to a new status; throws on failure (see updateOrderStatus / updateOrderStatuses).
+  // Only transitions allowed by ORDER_STATUS_TRANSITIONS are accepted. The update is conditional on
+  // the status we validated against, so a concurrent change by another admin is not overwritten.
+  // The actor is recorded with the transition in order_events.
+  const applyOrderStatus = async (
+    orderId: string,
+    status: OrderStatus,
+    message: string | null | undefined,
+    actor: string
+  ) => {
+    const { data: current, error: currentError } = await supabase
+      .from('orders')
+      .select('status')
+      .eq('id', orderId)
+      .single();
+
+    if (currentError) throw currentError;
+
+    const currentStatus = current.status as OrderStatus;
+    if (!canTransitionOrderStatus(currentStatus, status)) {
+      throw new Error(`Cannot change order from ${getOrderStatusLabel(currentStatus)} to ${getOrderStatusLabel(status)}`);
+    }
+
+    const updatePayload: { status: OrderStatus; rejection_message: string | null } = {
+      status,
+      rejection_message: CUSTOMER_MESSAGE_STATUSES.includes(status) && message && message.trim() ? message.trim() : null,
+    };
+    const { data: updated, error: updateError } = await supabase
+      .from('orders')
+      .update({ ...updatePayload, status_actor: actor })
+      .eq('id', orderId)
+      .eq('status', currentStatus)
+      .select('id, claimed_by, claimed_at, updated_at');
+
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) {
+      throw new Error('Order status was changed by someone else. Please refresh and try again.');
+    }
+
+    // Update the specific order in the list (moving to processing may also have claimed it)
+    setOrders(prev => prev.map(order =>
+      order.id === orderId
+        ? { ...order, ...updatePayload, ...updated[0] }
+        : order
+    ));
+  };
+
+  // Update order status (message optional, shown to the customer for CUSTOMER_MESSAGE_STATUSES)
+  const updateOrderStatus = async (
+    orderId: string,
+    status: OrderStatus,
+    message?: string | null,
+    actor: string = 'admin'
+  ): Promise<boolean> => {
+    try {
+      await applyOrderStatus(orderId, status, message, actor);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order');
+      console.error('Error updating order:', err);
+      return false;
+    }
+  };
+
+  // Move several orders to the same status, one at a time. Each order succeeds or fails on its own
+  // (e.g. one already rejected by another admin), and every success is recorded in order_events.
+  const updateOrderStatuses = async (
+    orderIds: string[],
+    status: OrderStatus,
+    message?: string | null,
+    actor: string = 'admin'
+  ): Promise<BulkOrderStatusResult[]> => {
+    const results: BulkOrderStatusResult[] = [];
+
+    for (const orderId of orderIds) {
+      try {
+        await applyOrderStatus(orderId, status, message, actor);
+        results.push({ orderId, success: true });
+      } catch (err) {
+        console.error(`Error updating order ${orderId}:`, err);
+        results.push({
+          orderId,
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to update order',
+        });
+      }
+    }
+
+    return results;
+  };
+
+  // Mark a single order line delivered / failed (or back to pending). The database derives the
+  // overall order status from all lines, so the returned order may have a new status as well.
+  const updateOrderLine = async (
+    orderId: string,
+    lineIndex: number,
+    status: OrderLineStatus,
+    note?: string | null,
+    actor: string = 'admin'
+  ): Promise<Order | null> => {
     try {
-      const updatePayload: { status: OrderStatus; rejection_message?: string | null } = { status };
-      if (status === 'rejected' && rejectionMessage !== undefined) {
-        updatePayload.rejection_message = rejectionMessage && rejectionMessage.trim() ? rejectionMessage.trim() : null;
+      const { data, error: rpcError } = await supabase.rpc('set_order_line_fulfillment', {
+        p_order_id: orderId,
+        p_line_index: lineIndex,
+        p_status: status,
+        p_note: note ?? null,
+        p_actor: actor,
+      });
+
+      if (rpcError) throw rpcError;
+
+      const updatedOrder = data as Order;
+      if (orders.length > 0 && updatedOrder) {
+        setOrders(prev => prev.map(order =>
+          order.id === orderId ? { ...order, ...updatedOrder } : order
+        ));
       }
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update(updatePayload)
-        .eq('id', orderId);
 
-      if (updateError) throw updateError;
+      setError(null);
+      return updatedOrder;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update order line');
+      console.error('Error updating order line:', err);
+      return null;
+    }
+  };
+
+  // Mark one part of a split payment verified (or not). Verifying the last part approves the order
+  // (paid_verified) in the database, so the returned order may have a new status as well.
+  const verifyOrderPayment = async (
+    orderId: string,
+    partIndex: number,
+    verified: boolean,
+    actor: string = 'admin'
+  ): Promise<Order | null> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('set_order_payment_verified', {
+        p_order_id: orderId,
+        p_part_index: partIndex,
+        p_verified: verified,
+        p_actor: actor,
+      });
 
-      // Update the specific order in the list
-      if (orders.length > 0) {
+      if (rpcError) throw rpcError;
+
+      const updatedOrder = data as Order;
+      if (orders.length > 0 && updatedOrder) {
         setOrders(prev => prev.map(order =>
-          order.id === orderId
-            ? { ...order, status, rejection_message: status === 'rejected' ? (updatePayload.rejection_message ?? null) : null }
-            : order
+          order.id === orderId ? { ...order, ...updatedOrder } : order
         ));
       }
 
-      return true;
+      setError(null);
+      return updatedOrder;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update order');
-      console.error('Error updating order:', err);
-      return false;
+      setError(err instanceof Error ? err.message : 'Failed to verify payment');
+      console.error('Error verifying payment:', err);
+      return null;
+    }
+  };
+
+  // Customer cancels their own order. The database only allows this while the order is still
+  // pending; otherwise the error explains that it is already being processed. Member orders need
+  // that member's session, guest orders a contact value or IGN from the order.
+  const cancelOrder = async (
+    orderId: string,
+    reason: string | null | undefined,
+    proof: { memberSession?: string | null; contact?: string | null }
+  ): Promise<Order> => {
+    const { data, error: rpcError } = await supabase.rpc('cancel_order_by_customer', {
+      p_order_id: orderId,
+      p_reason: reason?.trim() || null,
+      p_contact: proof.contact?.trim() || null,
+      p_member_session: proof.memberSession || null,
+    });
+
+    if (rpcError) throw rpcError;
+
+    return data as Order;
+  };
+
+  // Claim an order for a staff member. Fails if someone else holds it, unless takeover is set.
+  const claimOrder = async (orderId: string, staffName: string, takeover: boolean = false): Promise<Order | null> => {
+    try {
+      const { data, error: rpcError } = await supabase.rpc('claim_order', {
+        p_order_id: orderId,
+        p_staff: staffName,
+        p_takeover: takeover,
+      });
+
+      if (rpcError) throw rpcError;
+
+      const claimedOrder = data as Order;
+      setOrders(prev => prev.map(order =>
+        order.id === orderId ? { ...order, ...claimedOrder } : order
+      ));
+
+      setError(null);
+      return claimedOrder;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to claim order');
+      console.error('Error claiming order:', err);
+      return null;
     }
   };
 
@@ -198,8 +526,19 @@ export const useOrders = () => {
     loading,
     error,
     fetchOrders,
+    searchOrders,
     fetchOrderById,
+    fetchCustomerOrder,
+    fetchOrderEvents,
+    fetchOrderTimeline,
+    trackOrder,
+    allocateInvoiceNumber,
     createOrder,
     updateOrderStatus,
+    updateOrderStatuses,
+    updateOrderLine,
+    verifyOrderPayment,
+    claimOrder,
+    cancelOrder,
   };
 };
@@ -13,6 +13,8 @@ export interface PaymentMethod {
   sort_order: number;
   admin_name?: string | null;
   max_order_amount?: number | null;
+  fee_fixed?: number; // Convenience fee in PHP added to orders paid with this method
+  fee_percent?: number; // Convenience fee as a percentage of the amount paid
   created_at: string;
   updated_at: string;
 }
@@ -192,7 +194,9 @@ export const usePaymentMethods = () => {
           active: method.active,
           sort_order: method.sort_order,
           admin_name: method.admin_name || null,
-          max_order_amount: method.max_order_amount !== undefined ? method.max_order_amount : null
+          max_order_amount: method.max_order_amount !== undefined ? method.max_order_amount : null,
+          fee_fixed: method.fee_fixed || 0,
+          fee_percent: method.fee_percent || 0
         })
         .select()
         .single();
@@ -220,7 +224,9 @@ export const usePaymentMethods = () => {
           active: updates.active,
           sort_order: updates.sort_order,
           admin_name: updates.admin_name !== undefined ? updates.admin_name : undefined,
-          max_order_amount: updates.max_order_amount !== undefined ? updates.max_order_amount : undefined
+          max_order_amount: updates.max_order_amount !== undefined ? updates.max_order_amount : undefined,
+          fee_fixed: updates.fee_fixed,
+          fee_percent: updates.fee_percent
         })
         .eq('uuid_id', uuidId);
 
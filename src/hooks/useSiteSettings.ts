@@ -1,6 +1,12 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { SiteSettings, SiteSetting } from '../types';
+import { SiteSettings, SiteSetting, InvoiceResetPeriod } from '../types';
+import {
+  DEFAULT_INVOICE_PREFIX,
+  DEFAULT_INVOICE_TEMPLATE,
+  DEFAULT_INVOICE_TIMEZONE,
+  DEFAULT_INVOICE_RESET_PERIOD,
+} from '../lib/invoiceNumber';
 
 export const useSiteSettings = () => {
   const [siteSettings, setSiteSettings] = useState<SiteSettings | null>(null);
@@ -21,6 +27,7 @@ export const useSiteSettings = () => {
 
       // Transform the data into a more usable format
       const orderOptionValue = data.find(s => s.id === 'order_option')?.value || 'order_via_messenger';
+      const invoiceResetValue = data.find(s => s.id === 'invoice_reset_period')?.value;
       const settings: SiteSettings = {
         site_name: data.find(s => s.id === 'site_name')?.value || 'Diginix',
         site_logo: data.find(s => s.id === 'site_logo')?.value || '/logo.png',
@@ -38,6 +45,13 @@ export const useSiteSettings = () => {
         hero_image_3: data.find(s => s.id === 'hero_image_3')?.value || '',
         hero_image_4: data.find(s => s.id === 'hero_image_4')?.value || '',
         hero_image_5: data.find(s => s.id === 'hero_image_5')?.value || '',
+        invoice_prefix: data.find(s => s.id === 'invoice_prefix')?.value ?? DEFAULT_INVOICE_PREFIX,
+        invoice_template: data.find(s => s.id === 'invoice_template')?.value || DEFAULT_INVOICE_TEMPLATE,
+        invoice_number_padding: parseInt(data.find(s => s.id === 'invoice_number_padding')?.value || '0', 10) || 0,
+        invoice_reset_period: (invoiceResetValue === 'monthly' || invoiceResetValue === 'never'
+          ? invoiceResetValue
+          : DEFAULT_INVOICE_RESET_PERIOD) as InvoiceResetPeriod,
+        invoice_timezone: data.find(s => s.id === 'invoice_timezone')?.value || DEFAULT_INVOICE_TIMEZONE,
       };
 
       setSiteSettings(settings);
@@ -76,7 +90,7 @@ export const useSiteSettings = () => {
       const updatePromises = Object.entries(updates).map(([key, value]) =>
         supabase
           .from('site_settings')
-          .update({ value })
+          .update({ value: typeof value === 'number' ? String(value) : value })
           .eq('id', key)
       );
 
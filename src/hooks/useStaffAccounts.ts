@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { StaffAccount, StaffRole } from '../types';
+
+export interface CreateStaffAccountData {
+  email: string;
+  password: string;
+  display_name: string;
+  role: StaffRole;
+}
+
+type StaffAccountsResponse = {
+  success: boolean;
+  error?: string;
+  account?: StaffAccount;
+  emails?: Record<string, string>;
+};
+
+// Creating logins and setting passwords need the service role, so they go through the
+// staff-accounts edge function; everything else is a plain update that RLS limits to owners.
+const invokeStaffAccounts = async (body: Record<string, unknown>): Promise<StaffAccountsResponse> => {
+  const { data, error } = await supabase.functions.invoke('staff-accounts', { body });
+  if (!error) return data as StaffAccountsResponse;
+  // Non-2xx responses still carry the message in their body
+  try {
+    return (await error.context.json()) as StaffAccountsResponse;
+  } catch {
+    throw error;
+  }
+};
+
+// Admin management of staff accounts (AdminDashboard → Staff, owners only)
+export const useStaffAccounts = () => {
+  const [accounts, setAccounts] = useState<StaffAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAccounts = async () => {
+    try {
+      setLoading(true);
+
+      const [{ data, error: fetchError }, emailResult] = await Promise.all([
+        supabase
+          .from('staff_accounts')
+          .select('user_id, display_name, role, active, created_at, updated_at')
+          .order('created_at', { ascending: true }),
+        invokeStaffAccounts({ action: 'list_emails' }).catch((err) => {
+          // The list still works without emails
+          console.error('Error fetching staff emails:', err);
+          return null;
+        }),
+      ]);
+
+      if (fetchError) throw fetchError;
+
+      const emails = emailResult?.emails ?? {};
+      setAccounts(((data || []) as StaffAccount[]).map(account => ({ ...account, email: emails[account.user_id] })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching staff accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch staff accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createAccount = async (data: CreateStaffAccountData) => {
+    const result = await invokeStaffAccounts({ action: 'create', ...data, display_name: data.display_name.trim() });
+    if (!result.success) throw new Error(result.error || 'Failed to create staff account');
+    await fetchAccounts();
+    return result.account;
+  };
+
+  const updateAccount = async (userId: string, updates: Partial<Pick<StaffAccount, 'display_name' | 'role' | 'active'>>) => {
+    try {
+      const { error: updateError } = await supabase
+        .from('staff_accounts')
+        .update(updates.display_name !== undefined ? { ...updates, display_name: updates.display_name.trim() } : updates)
+        .eq('user_id', userId);
+
+      if (updateError) {
+        if (updateError.code === '23505') throw new Error('Another staff account already uses this name');
+        throw new Error(updateError.message); // e.g. the last owner being demoted
+      }
+
+      await fetchAccounts();
+    } catch (err) {
+      console.error('Error updating staff account:', err);
+      throw err;
+    }
+  };
+
+  const setPassword = async (userId: string, password: string) => {
+    const result = await invokeStaffAccounts({ action: 'set_password', user_id: userId, password });
+    if (!result.success) throw new Error(result.error || 'Failed to set password');
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  return {
+    accounts,
+    loading,
+    error,
+    fetchAccounts,
+    createAccount,
+    updateAccount,
+    setPassword
+  };
+};
@@ -0,0 +1,4 @@
+/**
+ * Re-export from context so the dashboard and its managers share the same staff login.
+ */
+export { useStaffAuth } from '../context/StaffAuthContext';
@@ -0,0 +1,8 @@
+import { useStaffAuth } from './useStaffAuth';
+
+// Name of the logged-in staff account. Order claims and the order history record it as the actor;
+// the database sets the same name from the login (apply_staff_actor), whatever the browser sends.
+export const useStaffName = () => {
+  const { account } = useStaffAuth();
+  return { staffName: account?.display_name.trim() ?? '' };
+};
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { AppliedVoucher, CartItem, Voucher } from '../types';
+
+export type VoucherFormData = Omit<Voucher, 'id' | 'created_at' | 'updated_at'>;
+
+// Admin management of vouchers (AdminDashboard → Vouchers)
+export const useVouchers = () => {
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  // Orders using each voucher, excluding rejected / cancelled ones (same rule as the usage limits)
+  const [usageCounts, setUsageCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVouchers = async () => {
+    try {
+      setLoading(true);
+
+      const [{ data, error: fetchError }, { data: usage, error: usageError }] = await Promise.all([
+        supabase
+          .from('vouchers')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('orders')
+          .select('voucher_id')
+          .not('voucher_id', 'is', null)
+          .not('status', 'in', '(rejected,cancelled)'),
+      ]);
+
+      if (fetchError) throw fetchError;
+      if (usageError) throw usageError;
+
+      const counts: Record<string, number> = {};
+      (usage || []).forEach(row => {
+        if (row.voucher_id) counts[row.voucher_id] = (counts[row.voucher_id] || 0) + 1;
+      });
+
+      setVouchers((data || []) as Voucher[]);
+      setUsageCounts(counts);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching vouchers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch vouchers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toVoucherRow = (voucher: VoucherFormData) => ({
+    ...voucher,
+    code: voucher.code.trim().toUpperCase(),
+    description: voucher.description?.trim() || null,
+  });
+
+  const addVoucher = async (voucher: VoucherFormData) => {
+    try {
+      const { data, error: insertError } = await supabase
+        .from('vouchers')
+        .insert(toVoucherRow(voucher))
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      await fetchVouchers();
+      return data as Voucher;
+    } catch (err) {
+      console.error('Error adding voucher:', err);
+      throw err;
+    }
+  };
+
+  const updateVoucher = async (id: string, voucher: VoucherFormData) => {
+    try {
+      const { error: updateError } = await supabase
+        .from('vouchers')
+        .update(toVoucherRow(voucher))
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+
+      await fetchVouchers();
+    } catch (err) {
+      console.error('Error updating voucher:', err);
+      throw err;
+    }
+  };
+
+  const deleteVoucher = async (id: string) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('vouchers')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      await fetchVouchers();
+    } catch (err) {
+      console.error('Error deleting voucher:', err);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchVouchers();
+  }, []);
+
+  return {
+    vouchers,
+    usageCounts,
+    loading,
+    error,
+    addVoucher,
+    updateVoucher,
+    deleteVoucher,
+    refetch: fetchVouchers,
+  };
+};
+
+// Check a voucher code against the cart (validate_voucher). Throws with the reason the voucher
+// cannot be used; the discount is checked again when the order is created.
+export const validateVoucher = async (
+  code: string,
+  cartItems: CartItem[],
+  memberSession?: string | null
+): Promise<AppliedVoucher> => {
+  const { data, error } = await supabase.rpc('validate_voucher', {
+    p_code: code.trim(),
+    p_order_items: cartItems,
+    p_member_session: memberSession || null,
+  });
+
+  if (error) throw error;
+  const result = data as AppliedVoucher;
+  return { ...result, discount: Number(result.discount) };
+};
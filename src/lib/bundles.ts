@@ -0,0 +1,37 @@
+import { BundleComponent, Variation } from '../types';
+
+// Bundle packages: a package of a game made of other packages of the same game. create_order
+// copies the contents onto the order line (bundleItems) so staff know what to deliver.
+
+export interface ResolvedBundleComponent extends BundleComponent {
+  variation?: Variation; // Undefined when the package was removed
+}
+
+export const isBundle = (variation?: Pick<Variation, 'bundle_items'>): boolean => {
+  return !!variation?.bundle_items?.length;
+};
+
+// Packages in a bundle, looked up among the game's packages
+export const getBundleComponents = (
+  variation: Pick<Variation, 'bundle_items'>,
+  packages: Variation[] = []
+): ResolvedBundleComponent[] => {
+  return (variation.bundle_items || []).map(component => ({
+    ...component,
+    variation: packages.find(p => p.id === component.variation_id),
+  }));
+};
+
+// "4 × Weekly Pass + 500 Diamonds"
+export const formatBundleContents = (items: Array<{ name: string; quantity: number }>): string => {
+  return items.map(item => (item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name)).join(' + ');
+};
+
+export const getBundleContentsLabel = (variation: Pick<Variation, 'bundle_items'>, packages: Variation[] = []): string => {
+  return formatBundleContents(
+    getBundleComponents(variation, packages).map(component => ({
+      name: component.variation?.name || 'Removed package',
+      quantity: component.quantity,
+    }))
+  );
+};
@@ -0,0 +1,82 @@
+import { MenuItem } from '../types';
+
+// Scheduled game discounts. Start / end are stored as timestamptz; admins enter and read them in
+// Manila time (UTC+8, no daylight saving). Keep isDiscountLive in sync with is_discount_active()
+// in supabase/migrations, which the server uses when it re-prices an order.
+
+export const MANILA_TIME_ZONE = 'Asia/Manila';
+const MANILA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export type DiscountScheduleState = 'none' | 'upcoming' | 'live' | 'expired';
+
+type ScheduledDiscount = Pick<MenuItem, 'discountActive' | 'discountPercentage' | 'discountStartDate' | 'discountEndDate'>;
+
+const toTime = (value?: string | null): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+export const getDiscountScheduleState = (item: ScheduledDiscount, now: number = Date.now()): DiscountScheduleState => {
+  if (!item.discountActive || item.discountPercentage === undefined) return 'none';
+  const start = toTime(item.discountStartDate);
+  const end = toTime(item.discountEndDate);
+  if (start !== null && now < start) return 'upcoming';
+  if (end !== null && now > end) return 'expired';
+  return 'live';
+};
+
+export const isDiscountLive = (item: ScheduledDiscount, now: number = Date.now()): boolean => {
+  return getDiscountScheduleState(item, now) === 'live';
+};
+
+// Next start / end after `now` across all items, so the menu can flip sales on and off on time
+export const getNextDiscountBoundary = (items: ScheduledDiscount[], now: number = Date.now()): number | null => {
+  let next: number | null = null;
+  items.forEach(item => {
+    if (!item.discountActive) return;
+    [toTime(item.discountStartDate), toTime(item.discountEndDate)].forEach(time => {
+      if (time !== null && time > now && (next === null || time < next)) next = time;
+    });
+  });
+  return next;
+};
+
+// ISO timestamp → "YYYY-MM-DDTHH:mm" in Manila time, for <input type="datetime-local">
+export const toManilaDateTimeInput = (value?: string | null): string => {
+  const time = toTime(value);
+  if (time === null) return '';
+  return new Date(time + MANILA_UTC_OFFSET_MS).toISOString().slice(0, 16);
+};
+
+// "YYYY-MM-DDTHH:mm" entered as Manila time → ISO timestamp
+export const fromManilaDateTimeInput = (value: string): string | undefined => {
+  if (!value) return undefined;
+  const time = toTime(`${value}:00+08:00`);
+  return time === null ? undefined : new Date(time).toISOString();
+};
+
+export const formatManilaDateTime = (value?: string | null): string => {
+  const time = toTime(value);
+  if (time === null) return '—';
+  return new Date(time).toLocaleString('en-PH', {
+    timeZone: MANILA_TIME_ZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// Compact countdown: "2d 5h", "3h 12m", "45m", "<1m"
+export const formatCountdown = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '<1m';
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+};
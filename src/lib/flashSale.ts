@@ -0,0 +1,52 @@
+import { FlashSale, FlashSaleState, Member } from '../types';
+
+// Flash sale rules shared by the menu and the cart. Keep in sync with get_live_flash_sale() in
+// supabase/migrations; create_order re-checks the caps with the sale rows locked.
+
+export const isFlashSaleLive = (sale: FlashSale, now: number = Date.now()): boolean => {
+  return sale.active && now >= new Date(sale.starts_at).getTime() && now < new Date(sale.ends_at).getTime();
+};
+
+export const getFlashSaleRemaining = (sale: FlashSale): number => {
+  return Math.max(0, sale.quantity_cap - sale.sold_count);
+};
+
+// Units this customer can still buy at the sale price (per-member caps need a logged-in member)
+export const getFlashSaleAllowance = (
+  sale: FlashSale,
+  flashSales: FlashSaleState,
+  currentMember: Member | null
+): number => {
+  const remaining = getFlashSaleRemaining(sale);
+  if (sale.per_member_cap == null) return remaining;
+  if (!currentMember || currentMember.status !== 'active') return 0;
+  return Math.min(remaining, Math.max(0, sale.per_member_cap - (flashSales.memberClaims[sale.id] || 0)));
+};
+
+// Live sale on the package, whether or not this customer can still use it (for display)
+export const getLiveFlashSale = (
+  flashSales: FlashSaleState | undefined,
+  variationId: string,
+  now: number = Date.now()
+): FlashSale | undefined => {
+  return (flashSales?.sales || [])
+    .filter(sale => sale.variation_id === variationId && isFlashSaleLive(sale, now))
+    .sort((a, b) => a.sale_price - b.sale_price)[0];
+};
+
+// Cheapest live sale on the package with units left for this customer
+export const getApplicableFlashSale = (
+  flashSales: FlashSaleState | undefined,
+  variationId: string,
+  currentMember: Member | null,
+  now: number = Date.now()
+): FlashSale | undefined => {
+  if (!flashSales) return undefined;
+  return flashSales.sales
+    .filter(sale =>
+      sale.variation_id === variationId &&
+      isFlashSaleLive(sale, now) &&
+      getFlashSaleAllowance(sale, flashSales, currentMember) > 0
+    )
+    .sort((a, b) => a.sale_price - b.sale_price || new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime())[0];
+};
@@ -0,0 +1,51 @@
+import { Order } from '../types';
+
+// Gift top-ups: the customer pays and the top-up goes to another player's account. The account
+// fields of a gift order belong to the recipient; the gift details are stored in customer_info
+// next to them (in every account of a multi-account order) under these labels. Order tracking
+// skips these labels when matching a contact (order_contact_matches); keep both lists in sync.
+export const GIFT_FIELD_LABELS = {
+  gift: 'Gift',
+  senderName: 'Gift From',
+  message: 'Gift Message',
+  recipientContact: 'Recipient Contact',
+} as const;
+
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+export interface GiftDetails {
+  senderName: string;
+  message: string;
+  recipientContact: string; // Where the recipient can be told about the gift (phone, email, Messenger)
+}
+
+export const EMPTY_GIFT_DETAILS: GiftDetails = { senderName: '', message: '', recipientContact: '' };
+
+// customer_info fields for a gift; the optional details are left out when empty
+export const getGiftCustomerInfo = (gift: GiftDetails): Record<string, string> => {
+  const info: Record<string, string> = { [GIFT_FIELD_LABELS.gift]: 'Yes' };
+  if (gift.senderName.trim()) info[GIFT_FIELD_LABELS.senderName] = gift.senderName.trim();
+  if (gift.message.trim()) info[GIFT_FIELD_LABELS.message] = gift.message.trim();
+  if (gift.recipientContact.trim()) info[GIFT_FIELD_LABELS.recipientContact] = gift.recipientContact.trim();
+  return info;
+};
+
+export const isGiftFieldLabel = (label: string): boolean => {
+  return (Object.values(GIFT_FIELD_LABELS) as string[]).includes(label);
+};
+
+// Account fields without the gift details
+export const withoutGiftFields = (fields: Record<string, string>): Record<string, string> => {
+  return Object.fromEntries(Object.entries(fields).filter(([label]) => !isGiftFieldLabel(label)));
+};
+
+// Gift details of an order, or null when it is not a gift
+export const getOrderGift = (order: Pick<Order, 'customer_info'>): Partial<GiftDetails> | null => {
+  const info = Array.isArray(order.customer_info) ? order.customer_info[0]?.fields : order.customer_info;
+  if (!info || info[GIFT_FIELD_LABELS.gift] !== 'Yes') return null;
+  return {
+    senderName: info[GIFT_FIELD_LABELS.senderName],
+    message: info[GIFT_FIELD_LABELS.message],
+    recipientContact: info[GIFT_FIELD_LABELS.recipientContact],
+  };
+};
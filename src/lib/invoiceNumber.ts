@@ -0,0 +1,85 @@
+import { InvoiceResetPeriod } from '../types';
+
+// Client-side mirror of allocate_invoice_number() (see supabase/migrations), used to preview
+// the invoice format in the admin. Real invoice numbers are always allocated by the database.
+
+export const DEFAULT_INVOICE_PREFIX = 'HGC';
+export const DEFAULT_INVOICE_TEMPLATE = '{PREFIX}{M}M{D}D{N}';
+export const DEFAULT_INVOICE_TIMEZONE = 'Asia/Manila';
+export const DEFAULT_INVOICE_RESET_PERIOD: InvoiceResetPeriod = 'daily';
+
+export const INVOICE_TEMPLATE_TOKENS: Array<{ token: string; description: string }> = [
+  { token: '{PREFIX}', description: 'Invoice prefix' },
+  { token: '{YYYY}', description: 'Year (2025)' },
+  { token: '{YY}', description: 'Year (25)' },
+  { token: '{MM}', description: 'Month (02)' },
+  { token: '{M}', description: 'Month (2)' },
+  { token: '{DD}', description: 'Day (05)' },
+  { token: '{D}', description: 'Day (5)' },
+  { token: '{N}', description: 'Order number for the period' },
+];
+
+export interface InvoiceFormat {
+  prefix: string;
+  template: string;
+  padding: number;
+  timezone: string;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Why a template can't be used with the reset period, or null if it can. A counter that restarts
+// needs the date tokens of its period, or a later period repeats the numbers of an earlier one;
+// the database falls back to the default template in that case. A year token is optional: the
+// database skips numbers already used a year earlier.
+export const getInvoiceTemplateError = (template: string, resetPeriod: InvoiceResetPeriod): string | null => {
+  if (!template.includes('{N}')) {
+    return 'Invoice template must contain {N} (the order number).';
+  }
+  const hasMonth = template.includes('{MM}') || template.includes('{M}');
+  const hasDay = template.includes('{DD}') || template.includes('{D}');
+  if (resetPeriod === 'daily' && !(hasMonth && hasDay)) {
+    return 'A daily reset needs month and day tokens in the template, or numbers repeat.';
+  }
+  if (resetPeriod === 'monthly' && !hasMonth) {
+    return 'A monthly reset needs a month token in the template, or numbers repeat.';
+  }
+  return null;
+};
+
+// Build an invoice number the same way the database does, for the given order number and date
+export const formatInvoiceNumber = (format: InvoiceFormat, orderNumber: number, date: Date = new Date()): string => {
+  const timeZone = isValidTimeZone(format.timezone) ? format.timezone : DEFAULT_INVOICE_TIMEZONE;
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const year = parts.find(p => p.type === 'year')?.value || '';
+  const month = String(parseInt(parts.find(p => p.type === 'month')?.value || '0', 10));
+  const day = String(parseInt(parts.find(p => p.type === 'day')?.value || '0', 10));
+
+  let template = format.template || DEFAULT_INVOICE_TEMPLATE;
+  if (!template.includes('{N}')) {
+    template += '{N}';
+  }
+
+  return template
+    .split('{PREFIX}').join(format.prefix)
+    .split('{YYYY}').join(year)
+    .split('{YY}').join(year.slice(-2))
+    .split('{MM}').join(month.padStart(2, '0'))
+    .split('{M}').join(month)
+    .split('{DD}').join(day.padStart(2, '0'))
+    .split('{D}').join(day)
+    .split('{N}').join(String(orderNumber).padStart(Math.max(0, format.padding), '0'));
+};
@@ -0,0 +1,142 @@
+import { CartItem, Member, Order } from '../types';
+import { getOrderLineStatus, getOrderStatusLabel } from './orderStatus';
+import { createXlsxBlob, SpreadsheetCell } from './xlsx';
+import { formatBundleContents } from './bundles';
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+// Account details entered for an order line. Single-account orders share one set of fields;
+// multi-account orders store one entry per game + package.
+export const getOrderLineAccountFields = (order: Order, item: CartItem): Record<string, string> => {
+  if (Array.isArray(order.customer_info)) {
+    const account = order.customer_info.find(
+      entry => entry.game === item.name && entry.package === (item.selectedVariation?.name || 'Default')
+    );
+    return account ? account.fields : {};
+  }
+
+  const fields: Record<string, string> = {};
+  Object.entries(order.customer_info || {}).forEach(([key, value]) => {
+    // Payment method has its own column
+    if (key !== 'Payment Method') fields[key] = value;
+  });
+  return fields;
+};
+
+const formatTimestamp = (value: string | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const BASE_COLUMNS = [
+  'Invoice Number',
+  'Order ID',
+  'Created At',
+  'Updated At',
+  'Status',
+  'Order Option',
+  'Member',
+  'Member Type',
+  'Payment Method',
+  'Game',
+  'Variation',
+  'Bundle Contents',
+  'Add-ons',
+  'Quantity',
+  'Unit Price',
+  'Line Total',
+  'Line Status',
+  'Payment Fee',
+  'Order Total',
+];
+
+// One row per order line; every customer_info field label becomes its own column
+export const buildOrderExportRows = (
+  orders: Order[],
+  members: Record<string, Pick<Member, 'username' | 'user_type'>>,
+  paymentMethodNames: Record<string, string>
+): SpreadsheetCell[][] => {
+  const fieldLabels: string[] = [];
+  orders.forEach(order => {
+    order.order_items.forEach(item => {
+      Object.keys(getOrderLineAccountFields(order, item)).forEach(label => {
+        if (!fieldLabels.includes(label)) fieldLabels.push(label);
+      });
+    });
+  });
+
+  const rows: SpreadsheetCell[][] = [[...BASE_COLUMNS, ...fieldLabels]];
+
+  orders.forEach(order => {
+    const member = order.member_id ? members[order.member_id] : undefined;
+    order.order_items.forEach((item, index) => {
+      const fields = getOrderLineAccountFields(order, item);
+      rows.push([
+        order.invoice_number || '',
+        order.id,
+        formatTimestamp(order.created_at),
+        formatTimestamp(order.updated_at),
+        getOrderStatusLabel(order.status),
+        (order.order_option || 'place_order') === 'order_via_messenger' ? 'Messenger' : 'Place Order',
+        member?.username || '',
+        member ? (member.user_type === 'reseller' ? 'Reseller' : 'Member') : '',
+        order.payment_parts?.length
+          ? order.payment_parts.map(part => `${part.payment_method_name} ₱${part.amount}`).join(' + ')
+          : paymentMethodNames[order.payment_method_id] || order.payment_method_id,
+        item.name,
+        item.selectedVariation?.name || '',
+        // Total units of each package to deliver for the line
+        formatBundleContents((item.bundleItems || []).map(bundleItem => ({
+          name: bundleItem.name,
+          quantity: bundleItem.quantity * item.quantity,
+        }))),
+        (item.selectedAddOns || [])
+          .map(addOn => (addOn.quantity && addOn.quantity > 1 ? `${addOn.name} x${addOn.quantity}` : addOn.name))
+          .join(', '),
+        item.quantity,
+        item.totalPrice,
+        item.totalPrice * item.quantity,
+        getOrderLineStatus(order, index),
+        Number(order.payment_fee || 0),
+        Number(order.total_price),
+        ...fieldLabels.map(label => fields[label] || ''),
+      ]);
+    });
+  });
+
+  return rows;
+};
+
+// CSV text starting with = + - @ (or tab / CR) is run as a formula when the file is opened in a
+// spreadsheet app; a leading ' keeps it text. Customer fields end up in exports. (XLSX strings are
+// written as inline strings, which are never evaluated, so they stay unchanged.)
+const neutralizeFormula = (value: string): string =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const toCsv = (rows: SpreadsheetCell[][]): string =>
+  rows
+    .map(row => row.map(cell => {
+      if (cell === null || cell === undefined) return '';
+      const value = typeof cell === 'string' ? neutralizeFormula(cell) : String(cell);
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(','))
+    .join('\r\n');
+
+export const downloadOrderExport = (rows: SpreadsheetCell[][], format: OrderExportFormat, fileName: string) => {
+  const blob = format === 'xlsx'
+    ? createXlsxBlob('Orders', rows)
+    // BOM so Excel reads the file as UTF-8 (₱, names with accents)
+    : new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+};
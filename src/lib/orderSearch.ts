@@ -0,0 +1,35 @@
+import { Order, OrderSearchFilters } from '../types';
+
+// Orders per page returned by useOrders.searchOrders
+export const ORDER_SEARCH_PAGE_SIZE = 50;
+
+// Local YYYY-MM-DD → ISO timestamp of the start of that day, shifted by addDays
+const toDayStartIso = (date: string, addDays: number = 0): string => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
+// created_at bounds for the filter dates: from inclusive, to exclusive (start of the day after "to")
+export const getOrderSearchDateRange = (filters: OrderSearchFilters): { from: string | null; to: string | null } => ({
+  from: filters.from ? toDayStartIso(filters.from) : null,
+  to: filters.to ? toDayStartIso(filters.to, 1) : null,
+});
+
+export const hasOrderSearchQuery = (filters: OrderSearchFilters): boolean => !!filters.query?.trim();
+
+// Client-side check used to decide whether a realtime insert belongs in the current results.
+// Text queries also match member usernames, which we don't have here, so they never match.
+export const matchesOrderSearchFilters = (order: Order, filters: OrderSearchFilters): boolean => {
+  if (hasOrderSearchQuery(filters)) return false;
+  if (filters.status && order.status !== filters.status) return false;
+  if (filters.paymentMethod && order.payment_method_id !== filters.paymentMethod) return false;
+  if (filters.orderOption && (order.order_option || 'place_order') !== filters.orderOption) return false;
+
+  const { from, to } = getOrderSearchDateRange(filters);
+  const createdAt = new Date(order.created_at).getTime();
+  if (from && createdAt < new Date(from).getTime()) return false;
+  if (to && createdAt >= new Date(to).getTime()) return false;
+
+  return true;
+};
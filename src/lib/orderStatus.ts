@@ -0,0 +1,101 @@
+import { Order, OrderLineStatus, OrderStatus } from '../types';
+
+// Order lifecycle. Keep in sync with enforce_order_status_transition() in supabase/migrations.
+//
+//   pending → processing → paid_verified → topping_up → delivered
+//                   paid_verified / topping_up ↘ partially_delivered ↔ topping_up
+//   pending / processing → rejected | cancelled
+//   paid_verified / topping_up / partially_delivered / delivered → refunded
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'paid_verified', 'rejected', 'cancelled'],
+  processing: ['paid_verified', 'rejected', 'cancelled'],
+  paid_verified: ['topping_up', 'delivered', 'partially_delivered', 'refunded'],
+  topping_up: ['delivered', 'partially_delivered', 'refunded'],
+  partially_delivered: ['topping_up', 'delivered', 'refunded'],
+  delivered: ['refunded'],
+  rejected: [],
+  refunded: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  paid_verified: 'Payment Verified',
+  topping_up: 'Topping Up',
+  delivered: 'Delivered',
+  partially_delivered: 'Partially Delivered',
+  rejected: 'Rejected',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+// Statuses after which the customer no longer waits on the store (delivered can still be refunded)
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ['delivered', 'rejected', 'refunded', 'cancelled'];
+
+// Statuses that carry a message for the customer (stored in orders.rejection_message)
+export const CUSTOMER_MESSAGE_STATUSES: OrderStatus[] = ['rejected', 'cancelled', 'refunded', 'partially_delivered'];
+
+export type OrderStatusTone = 'neutral' | 'info' | 'progress' | 'warning' | 'success' | 'danger';
+
+export const ORDER_STATUS_TONES: Record<OrderStatus, OrderStatusTone> = {
+  pending: 'neutral',
+  processing: 'info',
+  paid_verified: 'info',
+  topping_up: 'progress',
+  delivered: 'success',
+  partially_delivered: 'warning',
+  rejected: 'danger',
+  refunded: 'warning',
+  cancelled: 'danger',
+};
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  return (ORDER_STATUS_TRANSITIONS[from] || []).includes(to);
+};
+
+export const isTerminalOrderStatus = (status: OrderStatus): boolean => {
+  return TERMINAL_ORDER_STATUSES.includes(status);
+};
+
+export const getOrderStatusLabel = (status: OrderStatus): string => {
+  return ORDER_STATUS_LABELS[status] || status;
+};
+
+// Statuses in which individual order lines can be marked delivered / failed (set_order_line_fulfillment)
+export const LINE_FULFILLMENT_ORDER_STATUSES: OrderStatus[] = ['paid_verified', 'topping_up', 'partially_delivered'];
+
+export const canUpdateOrderLines = (status: OrderStatus): boolean => {
+  return LINE_FULFILLMENT_ORDER_STATUSES.includes(status);
+};
+
+export const getOrderLineStatus = (order: Order, lineIndex: number): OrderLineStatus => {
+  return order.item_fulfillment?.[String(lineIndex)]?.status || 'pending';
+};
+
+export const getOrderLineSummary = (order: Order): { total: number; delivered: number; failed: number } => {
+  const total = order.order_items.length;
+  let delivered = 0;
+  let failed = 0;
+  for (let i = 0; i < total; i++) {
+    const status = getOrderLineStatus(order, i);
+    if (status === 'delivered') delivered++;
+    if (status === 'failed') failed++;
+  }
+  return { total, delivered, failed };
+};
+
+// Split payments are verified part by part while the order awaits approval (set_order_payment_verified);
+// the order can only be approved once every part is verified
+export const canVerifyOrderPayments = (status: OrderStatus): boolean => {
+  return status === 'pending' || status === 'processing';
+};
+
+export const getUnverifiedPaymentCount = (order: Order): number => {
+  return (order.payment_parts || []).filter(part => !part.verified_at).length;
+};
+
+// Customers can cancel place-order orders while they are still pending (cancel_order_by_customer)
+export const canCustomerCancelOrder = (order: Order): boolean => {
+  return order.status === 'pending' && (order.order_option || 'place_order') === 'place_order' && !order.claimed_by;
+};
@@ -0,0 +1,25 @@
+import { PaymentMethod } from '../hooks/usePaymentMethods';
+
+// Convenience fees charged by payment methods. Keep in sync with get_payment_fee() in
+// supabase/migrations; create_order adds the same fee to the order total.
+
+type PaymentFeeConfig = Pick<PaymentMethod, 'fee_fixed' | 'fee_percent'>;
+
+// Fee for paying `amount` with the method: fixed amount plus a percentage, rounded to centavos
+export const getPaymentMethodFee = (method: PaymentFeeConfig | null | undefined, amount: number): number => {
+  if (!method || amount <= 0) return 0;
+  const fee = Number(method.fee_fixed || 0) + amount * Number(method.fee_percent || 0) / 100;
+  return Math.round(fee * 100) / 100;
+};
+
+export const hasPaymentMethodFee = (method: PaymentFeeConfig | null | undefined): boolean => {
+  return !!method && (Number(method.fee_fixed || 0) > 0 || Number(method.fee_percent || 0) > 0);
+};
+
+// e.g. "₱15 + 1.5%", "2%" or "₱10"
+export const formatPaymentMethodFee = (method: PaymentFeeConfig): string => {
+  const parts: string[] = [];
+  if (Number(method.fee_fixed || 0) > 0) parts.push(`₱${Number(method.fee_fixed)}`);
+  if (Number(method.fee_percent || 0) > 0) parts.push(`${Number(method.fee_percent)}%`);
+  return parts.join(' + ');
+};
@@ -0,0 +1,67 @@
+import { AddOn, CartItem, FlashSaleState, Member, MenuItem, Variation } from '../types';
+import { getApplicableFlashSale } from './flashSale';
+
+// Storefront pricing rules. Keep in sync with get_order_line_unit_price() in supabase/migrations,
+// which re-prices every order line when the order is created.
+
+// Reseller prices wait until the member has confirmed their email (same rule in price_order_line)
+export const hasResellerPricing = (member: Pick<Member, 'user_type' | 'email_verified_at'> | null): boolean => {
+  return member?.user_type === 'reseller' && !!member.email_verified_at;
+};
+
+const getRegularVariationPrice = (
+  item: MenuItem,
+  variation: Variation,
+  currentMember: Member | null,
+  memberSellingPrice?: number
+): number => {
+  const reseller = hasResellerPricing(currentMember);
+  if (reseller && variation.reseller_price != null) return variation.reseller_price;
+  if (currentMember && !reseller && variation.member_price != null) return variation.member_price;
+  if (reseller && memberSellingPrice) return memberSellingPrice;
+  if (item.isOnDiscount && item.discountPercentage !== undefined) {
+    return variation.price - variation.price * item.discountPercentage;
+  }
+  return variation.price;
+};
+
+// Variation price for the current member, in priority order: reseller_price / member_price for the
+// member's user_type, the reseller's member_discounts selling_price, the game's discount while its
+// scheduled sale is live (isOnDiscount), then the regular price. A live flash sale on the package
+// replaces that price when it is lower.
+export const getVariationPriceForMember = (
+  item: MenuItem,
+  variation: Variation,
+  currentMember: Member | null,
+  memberSellingPrice?: number,
+  flashSales?: FlashSaleState
+): number => {
+  const price = getRegularVariationPrice(item, variation, currentMember, memberSellingPrice);
+  const flashSale = getApplicableFlashSale(flashSales, variation.id, currentMember);
+  return flashSale && flashSale.sale_price < price ? flashSale.sale_price : price;
+};
+
+// Unit price of a cart line: base price + variation price + add-ons
+export const getCartLineUnitPrice = (
+  item: MenuItem,
+  variation: Variation | undefined,
+  addOns: AddOn[] | undefined,
+  currentMember: Member | null,
+  memberSellingPrices: Record<string, number> = {},
+  flashSales?: FlashSaleState
+): number => {
+  let price = item.basePrice;
+  if (variation) {
+    price += getVariationPriceForMember(item, variation, currentMember, memberSellingPrices[variation.id], flashSales);
+  }
+  (addOns || []).forEach(addOn => {
+    price += (addOn.quantity ?? 1) * addOn.price;
+  });
+  // Same rounding as the server
+  return Math.round(price * 100) / 100;
+};
+
+// Cart line ids are "<menu item id>:::CART:::<suffix>"
+export const getCartItemMenuItemId = (cartItem: Pick<CartItem, 'id'>): string => {
+  return cartItem.id.split(':::CART:::')[0];
+};
@@ -0,0 +1,69 @@
+import { PaymentMethod } from '../hooks/usePaymentMethods';
+import { getPaymentMethodFee, hasPaymentMethodFee } from './paymentFees';
+
+// Checkout rules for paying with one method or splitting the total across several. create_order
+// checks the same rules again when the order is created.
+
+// One part of a split payment while the customer fills it in
+export interface PaymentPartDraft {
+  id: string;
+  paymentMethodUuid: string | null; // payment_methods.uuid_id – the same id can exist in several admin groups
+  amount: string; // As typed
+  receiptUrl: string | null;
+  receiptName?: string | null;
+}
+
+// Methods with a max_order_amount only accept payments below it
+export const canPayWithMethod = (method: Pick<PaymentMethod, 'max_order_amount'>, amount: number): boolean => {
+  return method.max_order_amount === null || method.max_order_amount === undefined || amount < method.max_order_amount;
+};
+
+// A split part is sent together with its method's fee, so the part plus the fee has to stay below
+// the limit
+export const canPayPartWithMethod = (method: PaymentMethod, amount: number): boolean => {
+  return canPayWithMethod(method, Math.round((amount + getPaymentMethodFee(method, amount)) * 100) / 100);
+};
+
+export const createPaymentPartDraft = (): PaymentPartDraft => ({
+  id: `part-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  paymentMethodUuid: null,
+  amount: '',
+  receiptUrl: null,
+});
+
+export const getPaymentPartAmount = (part: PaymentPartDraft): number => {
+  return Math.round((parseFloat(part.amount) || 0) * 100) / 100;
+};
+
+// Amount still to be covered by the parts (negative when they add up to more than the total)
+export const getSplitPaymentRemaining = (total: number, parts: PaymentPartDraft[]): number => {
+  const paid = parts.reduce((sum, part) => sum + getPaymentPartAmount(part), 0);
+  return Math.round((total - paid) * 100) / 100;
+};
+
+// First thing keeping the split payment from being submitted, or null when it is complete
+export const getSplitPaymentIssue = (
+  parts: PaymentPartDraft[],
+  paymentMethods: PaymentMethod[],
+  total: number
+): string | null => {
+  if (parts.length < 2) return 'Add at least two payments to split the total';
+
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+    const label = `Payment ${index + 1}`;
+    const method = paymentMethods.find(m => m.uuid_id === part.paymentMethodUuid);
+    if (!method) return `${label}: please choose a payment method`;
+    const amount = getPaymentPartAmount(part);
+    if (amount <= 0) return `${label}: please enter the amount`;
+    if (!canPayPartWithMethod(method, amount)) {
+      return `${label}: ${method.name} only accepts payments below ₱${method.max_order_amount}${hasPaymentMethodFee(method) ? ' (fee included)' : ''}`;
+    }
+    if (!part.receiptUrl) return `${label}: please upload your receipt`;
+  }
+
+  const remaining = getSplitPaymentRemaining(total, parts);
+  if (remaining > 0.01) return `₱${remaining} of the total is not covered yet`;
+  if (remaining < -0.01) return `Your payments are ₱${-remaining} more than the total`;
+  return null;
+};
@@ -0,0 +1,28 @@
+import { AdminView, StaffRole } from '../types';
+
+// Dashboard views each staff role can open. This only decides which tabs are shown; the database
+// policies (has_staff_role) enforce the same split on every change.
+const STAFF_ROLE_VIEWS: Record<StaffRole, AdminView[]> = {
+  owner: ['dashboard', 'items', 'add', 'edit', 'categories', 'payments', 'settings', 'orders', 'members', 'vouchers', 'promos', 'flash-sales', 'staff'],
+  manager: ['dashboard', 'items', 'add', 'edit', 'categories', 'payments', 'vouchers', 'promos', 'flash-sales'],
+  cashier: ['dashboard', 'orders'],
+};
+
+// Same minimum as the staff-accounts edge function
+export const STAFF_MIN_PASSWORD_LENGTH = 8;
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  cashier: 'Cashier',
+};
+
+export const STAFF_ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  owner: 'Everything, including staff accounts, members and site settings',
+  manager: 'Games, categories, payment methods, vouchers and sales',
+  cashier: 'Orders only',
+};
+
+export const canOpenAdminView = (role: StaffRole | null | undefined, view: AdminView): boolean => {
+  return !!role && STAFF_ROLE_VIEWS[role].includes(view);
+};
@@ -0,0 +1,35 @@
+import { CartItem, Variation } from '../types';
+import { getBundleComponents } from './bundles';
+
+// Package availability shared by the menu and the cart. The server checks the same rules when the
+// order is created (check_order_stock) and takes the stock when the order is approved. A bundle is
+// also limited by the packages inside it, so pass the game's packages for bundles.
+
+type StockFields = Pick<Variation, 'available' | 'stock' | 'bundle_items'>;
+
+export const isVariationSoldOut = (variation: StockFields, packages?: Variation[]): boolean => {
+  if (variation.available === false || variation.stock === 0) return true;
+  return getBundleComponents(variation, packages).some(component =>
+    !component.variation ||
+    component.variation.available === false ||
+    (component.variation.stock != null && component.variation.stock < component.quantity)
+  );
+};
+
+// Units that can still be ordered, or null when neither the package nor a package in the bundle
+// tracks stock
+export const getVariationStockLeft = (variation: StockFields, packages?: Variation[]): number | null => {
+  if (isVariationSoldOut(variation, packages)) return 0;
+  return getBundleComponents(variation, packages).reduce<number | null>((left, component) => {
+    if (component.variation?.stock == null) return left;
+    const bundles = Math.floor(component.variation.stock / component.quantity);
+    return left === null ? bundles : Math.min(left, bundles);
+  }, variation.stock ?? null);
+};
+
+// Cart line with more units than its package has left (selectedVariation and variations are
+// refreshed from the menu)
+export const exceedsVariationStock = (cartItem: CartItem): boolean => {
+  const stockLeft = cartItem.selectedVariation ? getVariationStockLeft(cartItem.selectedVariation, cartItem.variations) : null;
+  return stockLeft !== null && cartItem.quantity > stockLeft;
+};
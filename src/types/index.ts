@@ -9,6 +9,22 @@ export interface Variation {
   sort_order?: number;
   category?: string;
   sort?: number;
+  available?: boolean; // false = package switched off (default true)
+  stock?: number | null; // Units left; null/undefined = unlimited. Taken when an order is approved
+  bundle_items?: BundleComponent[]; // Packages of the same game sold together; empty for regular packages
+}
+
+// One package inside a bundle package (variations.bundle_items)
+export interface BundleComponent {
+  variation_id: string;
+  quantity: number; // Per bundle
+}
+
+// Bundle contents copied onto an order line when the order is created
+export interface OrderBundleItem {
+  variationId: string;
+  name: string;
+  quantity: number; // Per bundle
 }
 
 export interface CustomField {
@@ -60,6 +76,21 @@ export interface CartItem extends MenuItem {
   totalPrice: number;
   /** When set (e.g. from member/reseller or custom member_discount), used for display and total instead of recalculating */
   effectiveUnitPriceOverride?: number;
+  /** Set when the game or package was removed or disabled after it was added to the cart */
+  unavailable?: boolean;
+  /** Flash sale whose price was applied; set by create_order on the stored order lines */
+  flashSaleId?: string;
+  /** Packages to deliver when selectedVariation is a bundle; set on the stored order lines */
+  bundleItems?: OrderBundleItem[];
+}
+
+// Unit price change found when the cart was reconciled against the latest menu / member pricing
+export interface CartPriceChange {
+  id: string; // cart item id
+  name: string;
+  variationName?: string;
+  oldPrice: number;
+  newPrice: number;
 }
 
 export interface OrderData {
@@ -110,36 +141,139 @@ export interface SiteSettings {
   hero_image_3?: string;
   hero_image_4?: string;
   hero_image_5?: string;
+  // Invoice number format (see allocate_invoice_number)
+  invoice_prefix?: string;
+  invoice_template?: string;
+  invoice_number_padding?: number;
+  invoice_reset_period?: InvoiceResetPeriod;
+  invoice_timezone?: string;
 }
 
+export type InvoiceResetPeriod = 'daily' | 'monthly' | 'never';
+
 // Order Types
-export type OrderStatus = 'pending' | 'processing' | 'approved' | 'rejected';
+export type OrderStatus =
+  | 'pending'
+  | 'processing'
+  | 'paid_verified'
+  | 'topping_up'
+  | 'delivered'
+  | 'partially_delivered'
+  | 'rejected'
+  | 'refunded'
+  | 'cancelled';
+
+// Fulfillment of a single order line (order_items entry); lines without an entry are pending
+export type OrderLineStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OrderLineFulfillment {
+  status: Exclude<OrderLineStatus, 'pending'>;
+  note?: string | null;
+  updated_at: string;
+}
+
+// One part of a split payment (orders.payment_parts); method details are copied when the order is created
+export interface OrderPaymentPart {
+  payment_method_id: string;
+  payment_method_uuid: string; // payment_methods.uuid_id – ids repeat across admin groups
+  payment_method_name: string;
+  account_name?: string | null;
+  admin_name?: string | null;
+  amount: number; // Amount sent, including the fee
+  fee?: number; // Payment method fee charged on this part
+  receipt_url: string;
+  verified_at?: string | null;
+  verified_by?: string | null;
+}
 
 export interface Order {
   id: string;
-  invoice_number?: string | null; // Invoice number in format HGC{month}M{day}D{orderNumber} (e.g., HGC2M11D1)
+  invoice_number?: string | null; // Invoice number built from the invoice_* site settings (default HGC{month}M{day}D{orderNumber}, e.g. HGC2M11D1)
   order_items: CartItem[];
   customer_info: Record<string, string> | Array<{ game: string; package: string; fields: Record<string, string> }>; // Single account: { "IGN": "Miki", "Payment Method": "GCash" } | Multiple accounts: [{ game: "MLBB", package: "Package 1", fields: {...} }]
-  payment_method_id: string;
+  payment_method_id: string; // First part for split payments
   receipt_url: string;
+  payment_parts?: OrderPaymentPart[]; // Empty unless the customer split the payment
+  payment_fee?: number | null; // Payment method fee(s); included in total_price
   total_price: number;
   status: OrderStatus;
   order_option?: 'order_via_messenger' | 'place_order';
   member_id?: string | null;
-  rejection_message?: string | null; // Message shown to customer when order is rejected
+  rejection_message?: string | null; // Message shown to customer (rejected, cancelled, refunded, partially delivered)
+  item_fulfillment?: Record<string, OrderLineFulfillment>; // Keyed by order_items index, e.g. { "0": { status: "delivered", ... } }
+  claimed_by?: string | null; // Staff member handling the order (claimed when moved to processing)
+  claimed_at?: string | null;
+  customer_cancelled_at?: string | null; // Set when the customer cancelled the order themselves
+  voucher_id?: string | null;
+  voucher_code?: string | null;
+  voucher_discount?: number | null; // Amount taken off by the voucher; total_price is after the discount
   created_at: string;
   updated_at: string;
 }
 
+// One status transition of an order (order_events). old_status is null for the creation event.
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  old_status: OrderStatus | null;
+  new_status: OrderStatus;
+  actor: string; // customer, admin, system
+  message?: string | null;
+  created_at: string;
+}
+
+// Customer-safe view of an order's history (get_order_timeline)
+export interface OrderTimelineEntry {
+  status: OrderStatus;
+  message?: string | null;
+  created_at: string;
+}
+
+// Customer-safe order summary returned by track_order (public /track page)
+export interface TrackedOrder {
+  invoice_number: string;
+  status: OrderStatus;
+  message?: string | null;
+  created_at: string;
+  items: Array<{ name: string; variation?: string | null; quantity: number }>;
+  timeline: OrderTimelineEntry[];
+}
+
+// Admin order search (search_orders). Dates are YYYY-MM-DD in the admin's local time, both inclusive.
+export interface OrderSearchFilters {
+  query?: string; // Invoice number, any customer_info value (e.g. IGN) or member username
+  status?: OrderStatus | '';
+  paymentMethod?: string;
+  orderOption?: 'order_via_messenger' | 'place_order';
+  from?: string;
+  to?: string;
+}
+
+// Position after the last order of a page; the next page starts with older orders
+export interface OrderSearchCursor {
+  created_at: string;
+  id: string;
+}
+
+// Outcome for one order of a bulk status change (useOrders.updateOrderStatuses)
+export interface BulkOrderStatusResult {
+  orderId: string;
+  success: boolean;
+  error?: string;
+}
+
 export interface CreateOrderData {
   order_items: CartItem[];
   customer_info: Record<string, string> | Array<{ game: string; package: string; fields: Record<string, string> }>;
   payment_method_id: string;
+  payment_method_uuid?: string; // Exact method (payment_methods.uuid_id) for its fee – ids repeat across admin groups
   receipt_url: string;
-  total_price: number;
-  member_id?: string;
+  total_price: number; // Including the payment fee
+  member_session?: string | null; // Logged-in member's session token (see MemberAuthContext)
   order_option?: 'order_via_messenger' | 'place_order';
-  invoice_number?: string; // Invoice number in format HGC{month}M{day}D{orderNumber}
+  invoice_number?: string; // Optional – allocated server-side (allocate_invoice_number) when omitted
+  voucher_code?: string; // Re-validated by create_order; total_price must already include the discount
+  payment_parts?: Array<{ payment_method_uuid: string; amount: number; receipt_url: string }>; // Split payment; amounts (before fees) must add up to the order total
 }
 
 // Member Types
@@ -154,6 +288,7 @@ export interface Member {
   level: number;
   status: MemberStatus;
   user_type: MemberUserType;
+  email_verified_at?: string | null; // Set once the member confirmed their email; resellers need it for reseller prices
   created_at: string;
   updated_at: string;
 }
@@ -181,4 +316,71 @@ export interface CreateMemberData {
 export interface LoginMemberData {
   email: string;
   password: string;
-}
\ No newline at end of file
+}
+
+// Voucher Types
+export type VoucherDiscountType = 'percentage' | 'fixed';
+
+export interface Voucher {
+  id: string;
+  code: string; // Upper-case
+  description: string | null;
+  discount_type: VoucherDiscountType;
+  discount_value: number; // Percent (0-100) or ₱ amount
+  max_discount: number | null; // Cap for percentage vouchers
+  min_spend: number; // Minimum subtotal of the items in scope
+  menu_item_ids: string[]; // Scope: games; empty together with categories = whole cart
+  categories: string[]; // Scope: category ids
+  member_types: MemberUserType[]; // Empty = everyone, including guests
+  usage_limit: number | null;
+  per_member_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Voucher accepted by validate_voucher for the current cart
+export interface AppliedVoucher {
+  voucher_id: string;
+  code: string;
+  description?: string | null;
+  discount: number;
+}
+
+// Flash Sale Types
+export interface FlashSale {
+  id: string;
+  variation_id: string;
+  sale_price: number; // Fixed package price during the sale
+  quantity_cap: number; // Units available at the sale price
+  per_member_cap: number | null; // Units per member; requires a logged-in member
+  starts_at: string;
+  ends_at: string;
+  active: boolean;
+  sold_count: number; // Units taken by orders that were not rejected or cancelled
+  created_at: string;
+  updated_at: string;
+}
+
+// Live flash sales and the units the current member already bought (by flash sale id)
+export interface FlashSaleState {
+  sales: FlashSale[];
+  memberClaims: Record<string, number>;
+}
+
+// Staff Types
+export type StaffRole = 'owner' | 'manager' | 'cashier';
+
+export interface StaffAccount {
+  user_id: string; // Supabase Auth user
+  display_name: string; // Recorded on orders as the claim / actor name
+  role: StaffRole;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  email?: string; // Only from the staff-accounts edge function
+}
+
+export type AdminView = 'dashboard' | 'items' | 'add' | 'edit' | 'categories' | 'payments' | 'settings' | 'orders' | 'members' | 'vouchers' | 'promos' | 'flash-sales' | 'staff';
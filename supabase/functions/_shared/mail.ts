@@ -0,0 +1,91 @@
+// Outgoing mail for Edge Functions. MAIL_TRANSPORT (required) picks how messages are delivered:
+//   smtp    - through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD (TLS unless SMTP_TLS=false)
+//   file    - written to MAIL_FILE_DIR (default ./mail) as .eml files, for local development
+//   console - recipient and subject printed to the function logs, nothing is delivered
+// MAIL_FROM is the sender for every transport. Message bodies carry login links, so they are
+// never written to the logs.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>
+}
+
+const getFrom = (): string => Deno.env.get('MAIL_FROM') ?? 'no-reply@localhost'
+
+const smtpTransport = (): MailTransport => {
+  const hostname = Deno.env.get('SMTP_HOST') ?? ''
+  if (!hostname) throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set')
+
+  return {
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+          tls: Deno.env.get('SMTP_TLS') !== 'false',
+          auth: Deno.env.get('SMTP_USER')
+            ? { username: Deno.env.get('SMTP_USER') ?? '', password: Deno.env.get('SMTP_PASSWORD') ?? '' }
+            : undefined,
+        },
+      })
+      try {
+        await client.send({ from: getFrom(), to: message.to, subject: message.subject, content: message.text, html: message.html })
+      } finally {
+        await client.close()
+      }
+    },
+  }
+}
+
+const fileTransport = (): MailTransport => {
+  const dir = Deno.env.get('MAIL_FILE_DIR') ?? './mail'
+
+  return {
+    send: async (message) => {
+      await Deno.mkdir(dir, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.eml`
+      const eml = [
+        `From: ${getFrom()}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+      ].join('\r\n')
+      await Deno.writeTextFile(`${dir}/${name}`, eml)
+      console.log(`Mail to ${message.to} written to ${dir}/${name}`)
+    },
+  }
+}
+
+const consoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(`Mail to ${message.to} from ${getFrom()} not delivered (MAIL_TRANSPORT=console): ${message.subject}`)
+  },
+})
+
+export const getMailTransport = (): MailTransport => {
+  const transport = Deno.env.get('MAIL_TRANSPORT')
+  if (!transport) throw new Error('MAIL_TRANSPORT is not set (smtp, file or console)')
+  switch (transport) {
+    case 'smtp':
+      return smtpTransport()
+    case 'file':
+      return fileTransport()
+    case 'console':
+      return consoleTransport()
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`)
+  }
+}
+
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message)
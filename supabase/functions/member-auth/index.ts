@@ -0,0 +1,435 @@
+// Supabase Edge Function for member accounts: register, login, session lookup, logout, email
+// verification and password reset. Passwords are hashed and checked here (never in the browser) and
+// sessions are stored hashed in member_sessions, which create_order and the other member RPCs read.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendMail } from '../_shared/mail.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MEMBER_COLUMNS = 'id, username, email, mobile_no, level, status, user_type, email_verified_at, created_at, updated_at'
+const SESSION_DAYS = 30
+const VERIFY_EMAIL_HOURS = 48
+const RESET_PASSWORD_HOURS = 1
+const PBKDF2_ITERATIONS = 600000
+const MIN_PASSWORD_LENGTH = 6
+
+// Thrown for anything the member can fix; the message is shown as-is
+class MemberAuthError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const encoder = new TextEncoder()
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes))
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0))
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+
+const sha256Hex = async (value: string): Promise<string> => {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))))
+}
+
+// Compares without stopping at the first difference
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i]
+  return diff === 0
+}
+
+const pbkdf2 = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
+// pbkdf2_sha256$<iterations>$<salt>$<hash>
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS)
+  return `pbkdf2_sha256$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`
+}
+
+// Accounts created before this function have an unsalted SHA-256 hex hash
+const isLegacyHash = (stored: string): boolean => /^[0-9a-f]{64}$/.test(stored)
+
+const verifyPassword = async (password: string, stored: string | null): Promise<boolean> => {
+  // A missing or empty hash (e.g. a row edited by hand) never matches, instead of failing the request
+  if (!stored) return false
+  if (isLegacyHash(stored)) {
+    return timingSafeEqual(encoder.encode(await sha256Hex(password)), encoder.encode(stored))
+  }
+  const [scheme, iterations, salt, hash] = stored.split('$')
+  if (scheme !== 'pbkdf2_sha256' || !iterations || !salt || !hash) return false
+  return timingSafeEqual(await pbkdf2(password, fromBase64(salt), Number(iterations)), fromBase64(hash))
+}
+
+// URL-safe random token for sessions and email links
+const randomToken = (): string => {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+interface RequestContext {
+  siteUrl: string // Storefront URL for links in emails (SITE_URL)
+}
+
+type TokenPurpose = 'verify_email' | 'reset_password'
+
+// New session for the member; the token is returned once and only its hash is stored
+const createSession = async (supabase: SupabaseClient, memberId: string) => {
+  const token = randomToken()
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  // Clear the member's expired sessions while we're here
+  await supabase.from('member_sessions').delete().eq('member_id', memberId).lt('expires_at', new Date().toISOString())
+
+  const { error } = await supabase
+    .from('member_sessions')
+    .insert({ member_id: memberId, token_hash: await sha256Hex(token), expires_at: expiresAt })
+  if (error) throw error
+
+  return { token, expires_at: expiresAt }
+}
+
+// One-time token for an email link; earlier unused links for the same purpose stop working
+const issueMemberToken = async (supabase: SupabaseClient, memberId: string, purpose: TokenPurpose, hours: number) => {
+  const token = randomToken()
+
+  const { error: clearError } = await supabase
+    .from('member_tokens')
+    .delete()
+    .eq('member_id', memberId)
+    .eq('purpose', purpose)
+    .is('used_at', null)
+  if (clearError) throw clearError
+
+  const { error } = await supabase.from('member_tokens').insert({
+    member_id: memberId,
+    purpose,
+    token_hash: await sha256Hex(token),
+    expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+  })
+  if (error) throw error
+
+  return token
+}
+
+// Marks the link's token used and returns its member; each link works once
+const consumeMemberToken = async (supabase: SupabaseClient, token: string, purpose: TokenPurpose): Promise<string> => {
+  const { data, error } = await supabase
+    .from('member_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', await sha256Hex(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('member_id')
+    .maybeSingle()
+  if (error) throw error
+  if (!data) throw new MemberAuthError('This link is invalid or has expired. Please request a new one.', 410)
+  return data.member_id
+}
+
+const getSiteName = async (supabase: SupabaseClient): Promise<string> => {
+  const { data } = await supabase.from('site_settings').select('value').eq('id', 'site_name').maybeSingle()
+  return data?.value || 'our shop'
+}
+
+const getLink = (context: RequestContext, param: string, token: string): string => {
+  if (!context.siteUrl) throw new Error('SITE_URL is not set')
+  return `${context.siteUrl.replace(/\/+$/, '')}/?${param}=${encodeURIComponent(token)}`
+}
+
+const sendVerificationEmail = async (
+  supabase: SupabaseClient,
+  context: RequestContext,
+  member: { id: string; username: string; email: string }
+) => {
+  const token = await issueMemberToken(supabase, member.id, 'verify_email', VERIFY_EMAIL_HOURS)
+  const siteName = await getSiteName(supabase)
+  await sendMail({
+    to: member.email,
+    subject: `Confirm your email for ${siteName}`,
+    text: [
+      `Hi ${member.username},`,
+      '',
+      `Please confirm your email address for your ${siteName} account:`,
+      getLink(context, 'verify_email', token),
+      '',
+      `The link works for ${VERIFY_EMAIL_HOURS} hours. If you did not create an account, you can ignore this email.`
+    ].join('\n')
+  })
+}
+
+// Active member of a session token
+const getSessionMember = async (supabase: SupabaseClient, token: string) => {
+  if (!token) throw new MemberAuthError('Not logged in', 401)
+
+  const { data: session, error } = await supabase
+    .from('member_sessions')
+    .select('member_id, expires_at')
+    .eq('token_hash', await sha256Hex(token))
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+  if (error) throw error
+  if (!session) throw new MemberAuthError('Your session has expired. Please log in again.', 401)
+
+  const { data: member, error: memberError } = await supabase
+    .from('members')
+    .select(MEMBER_COLUMNS)
+    .eq('id', session.member_id)
+    .eq('status', 'active')
+    .maybeSingle()
+  if (memberError) throw memberError
+  if (!member) throw new MemberAuthError('Account is inactive', 403)
+
+  return { member, expiresAt: session.expires_at as string }
+}
+
+const register = async (supabase: SupabaseClient, body: Record<string, unknown>, context: RequestContext) => {
+  const username = String(body.username ?? '').trim()
+  const email = String(body.email ?? '').trim()
+  const mobileNo = String(body.mobile_no ?? '').trim()
+  const password = String(body.password ?? '')
+
+  if (!username || !email) throw new MemberAuthError('Username and email are required')
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new MemberAuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+
+  const { data: existingEmail } = await supabase.from('members').select('id').eq('email', email).maybeSingle()
+  if (existingEmail) throw new MemberAuthError('Email already registered', 409)
+
+  const { data: existingUsername } = await supabase.from('members').select('id').eq('username', username).maybeSingle()
+  if (existingUsername) throw new MemberAuthError('Username already taken', 409)
+
+  const { data: member, error } = await supabase
+    .from('members')
+    .insert({
+      username,
+      email,
+      mobile_no: mobileNo || null,
+      password_hash: await hashPassword(password),
+      level: 1,
+      status: 'active',
+      user_type: 'end_user'
+    })
+    .select(MEMBER_COLUMNS)
+    .single()
+  if (error) throw error
+
+  const session = await createSession(supabase, member.id)
+
+  // The account works without it; the member can ask for a new link from their profile
+  try {
+    await sendVerificationEmail(supabase, context, member)
+  } catch (mailError) {
+    console.error('Error sending verification email:', mailError)
+  }
+
+  return { member, session }
+}
+
+const login = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const email = String(body.email ?? '').trim()
+  const password = String(body.password ?? '')
+
+  const { data: member, error } = await supabase
+    .from('members')
+    .select(`${MEMBER_COLUMNS}, password_hash`)
+    .eq('email', email)
+    .maybeSingle()
+  if (error) throw error
+
+  if (!member) throw new MemberAuthError('Invalid email or password', 401)
+
+  const { password_hash: passwordHash, ...publicMember } = member
+  if (!(await verifyPassword(password, passwordHash))) {
+    throw new MemberAuthError('Invalid email or password', 401)
+  }
+  if (member.status !== 'active') throw new MemberAuthError('Account is inactive', 403)
+
+  // Move old SHA-256 accounts to PBKDF2 now that we have the password
+  if (passwordHash && isLegacyHash(passwordHash)) {
+    const { error: rehashError } = await supabase
+      .from('members')
+      .update({ password_hash: await hashPassword(password) })
+      .eq('id', member.id)
+    if (rehashError) console.error('Error upgrading password hash:', rehashError)
+  }
+
+  return { member: publicMember, session: await createSession(supabase, member.id) }
+}
+
+// Member of a session token, for restoring the login on page load
+const getSession = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const token = String(body.token ?? '')
+  const { member, expiresAt } = await getSessionMember(supabase, token)
+  return { member, session: { token, expires_at: expiresAt } }
+}
+
+const logout = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const token = String(body.token ?? '')
+  if (token) {
+    const { error } = await supabase.from('member_sessions').delete().eq('token_hash', await sha256Hex(token))
+    if (error) throw error
+  }
+  return {}
+}
+
+// New verification link for the logged-in member
+const requestEmailVerification = async (supabase: SupabaseClient, body: Record<string, unknown>, context: RequestContext) => {
+  const { member } = await getSessionMember(supabase, String(body.token ?? ''))
+  if (member.email_verified_at) throw new MemberAuthError('Your email is already verified')
+  await sendVerificationEmail(supabase, context, member)
+  return {}
+}
+
+const verifyEmail = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const memberId = await consumeMemberToken(supabase, String(body.token ?? ''), 'verify_email')
+  const { error } = await supabase
+    .from('members')
+    .update({ email_verified_at: new Date().toISOString() })
+    .eq('id', memberId)
+    .is('email_verified_at', null)
+  if (error) throw error
+  return {}
+}
+
+// Always succeeds so the response does not tell whether an email is registered
+const requestPasswordReset = async (supabase: SupabaseClient, body: Record<string, unknown>, context: RequestContext) => {
+  const email = String(body.email ?? '').trim()
+  if (!email) throw new MemberAuthError('Email is required')
+
+  const { data: member, error } = await supabase
+    .from('members')
+    .select('id, username, email')
+    .eq('email', email)
+    .eq('status', 'active')
+    .maybeSingle()
+  if (error) throw error
+  if (!member) return {}
+
+  const token = await issueMemberToken(supabase, member.id, 'reset_password', RESET_PASSWORD_HOURS)
+  const siteName = await getSiteName(supabase)
+  await sendMail({
+    to: member.email,
+    subject: `Reset your ${siteName} password`,
+    text: [
+      `Hi ${member.username},`,
+      '',
+      `Someone asked to reset the password of your ${siteName} account. Choose a new password here:`,
+      getLink(context, 'reset_password', token),
+      '',
+      `The link works for ${RESET_PASSWORD_HOURS} hour. If you did not ask for this, you can ignore this email; your password stays the same.`
+    ].join('\n')
+  })
+  return {}
+}
+
+const resetPassword = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const password = String(body.password ?? '')
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new MemberAuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+
+  const memberId = await consumeMemberToken(supabase, String(body.token ?? ''), 'reset_password')
+
+  const { data: member, error } = await supabase
+    .from('members')
+    .select('email_verified_at')
+    .eq('id', memberId)
+    .single()
+  if (error) throw error
+
+  // The link came by email, so the address is confirmed too
+  const { error: updateError } = await supabase
+    .from('members')
+    .update({
+      password_hash: await hashPassword(password),
+      email_verified_at: member.email_verified_at ?? new Date().toISOString()
+    })
+    .eq('id', memberId)
+  if (updateError) throw updateError
+
+  // Log out everywhere with the old password
+  const { error: sessionError } = await supabase.from('member_sessions').delete().eq('member_id', memberId)
+  if (sessionError) throw sessionError
+
+  return {}
+}
+
+const actions = {
+  register,
+  login,
+  session: getSession,
+  logout,
+  request_email_verification: requestEmailVerification,
+  verify_email: verifyEmail,
+  request_password_reset: requestPasswordReset,
+  reset_password: resetPassword
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const body = await req.json().catch(() => ({}))
+    const action = actions[body.action as keyof typeof actions]
+    if (!action) throw new MemberAuthError('Unknown action')
+
+    const context: RequestContext = { siteUrl: Deno.env.get('SITE_URL') ?? '' }
+    const result = await action(supabase, body, context)
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+  } catch (error) {
+    const isMemberError = error instanceof MemberAuthError
+    if (!isMemberError) console.error('Member auth error:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: isMemberError ? error.message : 'Something went wrong. Please try again.'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isMemberError ? error.status : 500
+      }
+    )
+  }
+})
@@ -0,0 +1,172 @@
+// Supabase Edge Function for the Staff tab of the admin dashboard: creating staff logins, setting
+// their passwords and listing their emails. These need the service role (auth.admin), so the
+// caller's own login is checked first and only active owners get through. Names, roles and
+// deactivation are plain updates of staff_accounts, which RLS already limits to owners.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const STAFF_ROLES = ['owner', 'manager', 'cashier']
+const MIN_PASSWORD_LENGTH = 8
+
+// Thrown for anything the owner can fix; the message is shown as-is
+class StaffAccountError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+const requireOwner = async (supabase: SupabaseClient, req: Request) => {
+  const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+  const { data: { user } } = await supabase.auth.getUser(jwt)
+  if (!user) throw new StaffAccountError('Please log in again.', 401)
+
+  const { data: staff, error } = await supabase
+    .from('staff_accounts')
+    .select('role, active')
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (error) throw error
+  if (!staff?.active || staff.role !== 'owner') {
+    throw new StaffAccountError('Only owners can manage staff accounts', 403)
+  }
+}
+
+const checkPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new StaffAccountError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+}
+
+const createAccount = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const email = String(body.email ?? '').trim().toLowerCase()
+  const password = String(body.password ?? '')
+  const displayName = String(body.display_name ?? '').trim()
+  const role = String(body.role ?? '')
+
+  if (!email || !displayName) throw new StaffAccountError('Email and name are required')
+  if (!STAFF_ROLES.includes(role)) throw new StaffAccountError('Unknown role')
+  checkPassword(password)
+
+  // Staff are created by an owner, so the email does not need confirming
+  const { data: created, error: createError } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  })
+  if (createError) throw new StaffAccountError(createError.message)
+
+  const { data: account, error: insertError } = await supabase
+    .from('staff_accounts')
+    .insert({ user_id: created.user.id, display_name: displayName, role })
+    .select('user_id, display_name, role, active, created_at, updated_at')
+    .single()
+  if (insertError) {
+    await supabase.auth.admin.deleteUser(created.user.id)
+    if (insertError.code === '23505') {
+      throw new StaffAccountError('Another staff account already uses this name', 409)
+    }
+    throw insertError
+  }
+
+  return { account: { ...account, email } }
+}
+
+const setPassword = async (supabase: SupabaseClient, body: Record<string, unknown>) => {
+  const userId = String(body.user_id ?? '')
+  const password = String(body.password ?? '')
+  checkPassword(password)
+
+  const { data: staff, error } = await supabase
+    .from('staff_accounts')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw error
+  if (!staff) throw new StaffAccountError('Staff account not found', 404)
+
+  const { error: updateError } = await supabase.auth.admin.updateUserById(userId, { password })
+  if (updateError) throw new StaffAccountError(updateError.message)
+
+  return {}
+}
+
+// Staff emails live in auth.users, which the browser cannot read
+const listEmails = async (supabase: SupabaseClient) => {
+  const { data: staff, error } = await supabase.from('staff_accounts').select('user_id')
+  if (error) throw error
+
+  const emails: Record<string, string> = {}
+  for (const { user_id } of staff ?? []) {
+    const { data } = await supabase.auth.admin.getUserById(user_id)
+    if (data.user?.email) emails[user_id] = data.user.email
+  }
+  return { emails }
+}
+
+const actions = {
+  create: createAccount,
+  set_password: setPassword,
+  list_emails: listEmails
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    await requireOwner(supabase, req)
+
+    const body = await req.json().catch(() => ({}))
+    const action = actions[body.action as keyof typeof actions]
+    if (!action) throw new StaffAccountError('Unknown action')
+
+    const result = await action(supabase, body)
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    )
+  } catch (error) {
+    const isStaffError = error instanceof StaffAccountError
+    if (!isStaffError) console.error('Staff accounts error:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: isStaffError ? error.message : 'Something went wrong. Please try again.'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: isStaffError ? error.status : 500
+      }
+    )
+  }
+})
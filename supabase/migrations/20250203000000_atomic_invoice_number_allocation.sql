@@ -0,0 +1,115 @@
+/*
+  # Atomic invoice number allocation
+
+  Invoice numbers used to be allocated in the browser: read `invoice_count` from site_settings,
+  increment it and upsert it back. Two customers checking out at the same moment could
+  therefore receive the same invoice number.
+
+  1. New Tables
+    - `invoice_counters`
+      - `invoice_date` (date, primary key) - day in Asia/Manila the counter belongs to
+      - `last_number` (integer) - last order number handed out for that day
+      - `updated_at` (timestamptz)
+
+  2. Functions
+    - `allocate_invoice_number()` - increments today's counter in a single statement
+      (row lock on the counter) and returns the formatted number HGC{month}M{day}D{n}.
+      Numbers already used by an order (the same day of an earlier year) are skipped.
+
+  3. Constraints
+    - `orders.invoice_number` is now unique. Existing duplicates are suffixed with
+      "-2", "-3", ... (oldest order keeps the original number) so the constraint can be added.
+
+  4. Security
+    - RLS enabled on `invoice_counters` without policies; it is only touched through
+      `allocate_invoice_number()` (SECURITY DEFINER)
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_counters (
+  invoice_date date PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Seed counters from invoice numbers already issued so numbering continues where it left off
+INSERT INTO invoice_counters (invoice_date, last_number)
+SELECT
+  (created_at AT TIME ZONE 'Asia/Manila')::date,
+  max(substring(invoice_number FROM 'D(\d+)$')::integer)
+FROM orders
+WHERE invoice_number ~ '^HGC\d+M\d+D\d+$'
+GROUP BY 1
+ON CONFLICT (invoice_date) DO UPDATE
+  SET last_number = GREATEST(invoice_counters.last_number, EXCLUDED.last_number);
+
+-- The old site_settings counter may be ahead of saved orders for its day
+INSERT INTO invoice_counters (invoice_date, last_number)
+SELECT d.value::date, COALESCE(NULLIF(c.value, '')::integer, 0)
+FROM site_settings d
+LEFT JOIN site_settings c ON c.id = 'invoice_count'
+WHERE d.id = 'invoice_count_date'
+  AND d.value ~ '^\d{4}-\d{2}-\d{2}$'
+ON CONFLICT (invoice_date) DO UPDATE
+  SET last_number = GREATEST(invoice_counters.last_number, EXCLUDED.last_number);
+
+-- Allocate the next invoice number for the current Asia/Manila day. The number has no year, so the
+-- same day of a later year hands out numbers that may already exist; those are skipped.
+CREATE OR REPLACE FUNCTION allocate_invoice_number()
+RETURNS text AS $$
+DECLARE
+  manila_now timestamp := now() AT TIME ZONE 'Asia/Manila';
+  next_number integer;
+  result text;
+BEGIN
+  LOOP
+    INSERT INTO invoice_counters (invoice_date, last_number)
+    VALUES (manila_now::date, 1)
+    ON CONFLICT (invoice_date) DO UPDATE
+      SET last_number = invoice_counters.last_number + 1,
+          updated_at = now()
+    RETURNING last_number INTO next_number;
+
+    result := 'HGC' || extract(month FROM manila_now)::int
+      || 'M' || extract(day FROM manila_now)::int
+      || 'D' || next_number;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM orders WHERE invoice_number = result);
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION allocate_invoice_number() TO anon, authenticated;
+
+-- Suffix existing duplicate invoice numbers so the unique constraint can be created
+WITH ranked AS (
+  SELECT
+    id,
+    invoice_number,
+    row_number() OVER (PARTITION BY invoice_number ORDER BY created_at, id) AS rn
+  FROM orders
+  WHERE invoice_number IS NOT NULL
+)
+UPDATE orders o
+SET invoice_number = ranked.invoice_number || '-' || ranked.rn
+FROM ranked
+WHERE o.id = ranked.id
+  AND ranked.rn > 1;
+
+-- Replace the plain lookup index with a unique constraint (which brings its own index)
+DROP INDEX IF EXISTS idx_orders_invoice_number;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'orders_invoice_number_key'
+  ) THEN
+    ALTER TABLE orders ADD CONSTRAINT orders_invoice_number_key UNIQUE (invoice_number);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN orders.invoice_number IS 'Unique invoice number HGC{month}M{day}D{orderNumber} allocated by allocate_invoice_number()';
@@ -0,0 +1,136 @@
+/*
+  # Configurable invoice number format
+
+  The HGC{month}M{day}D{n} pattern and the Asia/Manila day boundary were hard-coded.
+  A second storefront running on this codebase needs its own, distinguishable invoices.
+
+  1. New site settings
+    - `invoice_prefix` - text substituted for {PREFIX} (default HGC)
+    - `invoice_template` - tokens: {PREFIX} {YYYY} {YY} {MM} {M} {DD} {D} {N}
+      (default {PREFIX}{M}M{D}D{N}, the current format, so numbers only change when an admin
+      edits the template)
+    - `invoice_number_padding` - minimum digits for {N}, zero-padded (0 = no padding)
+    - `invoice_reset_period` - daily, monthly or never
+    - `invoice_timezone` - IANA timezone used for date tokens and resets (default Asia/Manila)
+
+  2. Changes
+    - `invoice_counters.invoice_date` renamed to `period_start`, plus a `reset_period` column,
+      so switching the reset period starts a fresh counter instead of reusing another period's count
+    - `allocate_invoice_number()` now builds the number from the settings above. A template that
+      would repeat numbers within a year (daily reset without month and day tokens, monthly reset
+      without a month token) is not used; the default template is used instead. Numbers already
+      used by an order (e.g. the same day a year earlier when there is no year token) are
+      skipped, so it never hands out a duplicate.
+      The admin rejects such templates too (getInvoiceTemplateError in src/lib/invoiceNumber.ts).
+*/
+
+INSERT INTO site_settings (id, value, type, description)
+VALUES
+  ('invoice_prefix', 'HGC', 'text', 'Invoice number prefix ({PREFIX} token)'),
+  ('invoice_template', '{PREFIX}{M}M{D}D{N}', 'text', 'Invoice number template. Tokens: {PREFIX} {YYYY} {YY} {MM} {M} {DD} {D} {N}'),
+  ('invoice_number_padding', '0', 'number', 'Minimum digits of the order number {N} (zero-padded, 0 = no padding)'),
+  ('invoice_reset_period', 'daily', 'text', 'When the invoice order number restarts at 1: daily, monthly or never'),
+  ('invoice_timezone', 'Asia/Manila', 'text', 'Timezone used for invoice date tokens and counter resets')
+ON CONFLICT (id) DO NOTHING;
+
+-- Counters are now keyed by reset period and the start of that period
+ALTER TABLE invoice_counters RENAME COLUMN invoice_date TO period_start;
+
+ALTER TABLE invoice_counters
+ADD COLUMN IF NOT EXISTS reset_period text NOT NULL DEFAULT 'daily'
+  CHECK (reset_period IN ('daily', 'monthly', 'never'));
+
+ALTER TABLE invoice_counters DROP CONSTRAINT IF EXISTS invoice_counters_pkey;
+ALTER TABLE invoice_counters ADD PRIMARY KEY (reset_period, period_start);
+
+-- Allocate the next invoice number using the invoice_* site settings
+CREATE OR REPLACE FUNCTION allocate_invoice_number()
+RETURNS text AS $$
+DECLARE
+  invoice_prefix text;
+  invoice_template text;
+  invoice_padding integer;
+  invoice_reset text;
+  invoice_timezone text;
+  local_now timestamp;
+  counter_period date;
+  default_template constant text := '{PREFIX}{M}M{D}D{N}';
+  next_number integer;
+  number_text text;
+  result text;
+BEGIN
+  SELECT
+    COALESCE(max(value) FILTER (WHERE id = 'invoice_prefix'), 'HGC'),
+    COALESCE(NULLIF(max(value) FILTER (WHERE id = 'invoice_template'), ''), default_template),
+    CASE
+      WHEN max(value) FILTER (WHERE id = 'invoice_number_padding') ~ '^\d{1,2}$'
+        THEN (max(value) FILTER (WHERE id = 'invoice_number_padding'))::integer
+      ELSE 0
+    END,
+    COALESCE(max(value) FILTER (WHERE id = 'invoice_reset_period'), 'daily'),
+    COALESCE(NULLIF(max(value) FILTER (WHERE id = 'invoice_timezone'), ''), 'Asia/Manila')
+  INTO invoice_prefix, invoice_template, invoice_padding, invoice_reset, invoice_timezone
+  FROM site_settings
+  WHERE id IN ('invoice_prefix', 'invoice_template', 'invoice_number_padding', 'invoice_reset_period', 'invoice_timezone');
+
+  -- Fall back to safe values instead of failing checkout on a bad setting
+  IF invoice_reset NOT IN ('daily', 'monthly', 'never') THEN
+    invoice_reset := 'daily';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = invoice_timezone) THEN
+    invoice_timezone := 'Asia/Manila';
+  END IF;
+  -- Without {N} every number in a period would be identical
+  IF position('{N}' IN invoice_template) = 0 THEN
+    invoice_template := invoice_template || '{N}';
+  END IF;
+  -- A counter that restarts needs the date tokens of its period, or a later period repeats the
+  -- numbers of an earlier one. Without a year token the numbers of the same date a year earlier
+  -- are skipped below.
+  IF (invoice_reset IN ('daily', 'monthly') AND invoice_template !~ '\{MM?\}')
+    OR (invoice_reset = 'daily' AND invoice_template !~ '\{DD?\}')
+  THEN
+    invoice_template := default_template;
+  END IF;
+
+  local_now := now() AT TIME ZONE invoice_timezone;
+  counter_period := CASE invoice_reset
+    WHEN 'daily' THEN local_now::date
+    WHEN 'monthly' THEN date_trunc('month', local_now)::date
+    ELSE DATE '1970-01-01'
+  END;
+
+  -- Skip numbers already used by an order (e.g. after the template or reset period was changed)
+  LOOP
+    INSERT INTO invoice_counters (reset_period, period_start, last_number)
+    VALUES (invoice_reset, counter_period, 1)
+    ON CONFLICT (reset_period, period_start) DO UPDATE
+      SET last_number = invoice_counters.last_number + 1,
+          updated_at = now()
+    RETURNING last_number INTO next_number;
+
+    number_text := next_number::text;
+    IF length(number_text) < invoice_padding THEN
+      number_text := lpad(number_text, invoice_padding, '0');
+    END IF;
+
+    result := invoice_template;
+    result := replace(result, '{PREFIX}', invoice_prefix);
+    result := replace(result, '{YYYY}', to_char(local_now, 'YYYY'));
+    result := replace(result, '{YY}', to_char(local_now, 'YY'));
+    result := replace(result, '{MM}', to_char(local_now, 'MM'));
+    result := replace(result, '{M}', extract(month FROM local_now)::int::text);
+    result := replace(result, '{DD}', to_char(local_now, 'DD'));
+    result := replace(result, '{D}', extract(day FROM local_now)::int::text);
+    result := replace(result, '{N}', number_text);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM orders WHERE invoice_number = result);
+  END LOOP;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION allocate_invoice_number() TO anon, authenticated;
+
+COMMENT ON COLUMN orders.invoice_number IS 'Unique invoice number allocated by allocate_invoice_number() from the invoice_* site settings';
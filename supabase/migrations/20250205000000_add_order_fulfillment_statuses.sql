@@ -0,0 +1,64 @@
+/*
+  # Order fulfillment lifecycle
+
+  Orders used to end at approved/rejected. Top-ups need to track payment verification,
+  the top-up itself, partial deliveries, refunds and cancellations.
+
+  1. Changes
+    - `orders.status` now allows: pending, processing, paid_verified, topping_up, delivered,
+      partially_delivered, rejected, refunded, cancelled
+    - Existing `approved` orders become `delivered` (approval used to mean the order was done)
+
+  2. Functions / Triggers
+    - `enforce_order_status_transition()` rejects status changes that are not part of the
+      lifecycle (mirrors ORDER_STATUS_TRANSITIONS in src/lib/orderStatus.ts)
+*/
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+
+UPDATE orders SET status = 'delivered' WHERE status = 'approved';
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_status_check CHECK (status IN (
+  'pending',
+  'processing',
+  'paid_verified',
+  'topping_up',
+  'delivered',
+  'partially_delivered',
+  'rejected',
+  'refunded',
+  'cancelled'
+));
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'paid_verified', 'rejected', 'cancelled')) OR
+    (OLD.status = 'processing' AND NEW.status IN ('paid_verified', 'rejected', 'cancelled')) OR
+    (OLD.status = 'paid_verified' AND NEW.status IN ('topping_up', 'delivered', 'refunded')) OR
+    (OLD.status = 'topping_up' AND NEW.status IN ('delivered', 'partially_delivered', 'refunded')) OR
+    (OLD.status = 'partially_delivered' AND NEW.status IN ('topping_up', 'delivered', 'refunded')) OR
+    (OLD.status = 'delivered' AND NEW.status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON orders;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+COMMENT ON COLUMN orders.rejection_message IS 'Message shown to the customer when the order is rejected, cancelled, refunded or partially delivered';
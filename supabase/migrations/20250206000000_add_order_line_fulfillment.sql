@@ -0,0 +1,126 @@
+/*
+  # Per-line fulfillment tracking
+
+  Fulfillment used to be recorded once for the whole order. Orders with several packages
+  (often for different accounts) need each line marked delivered or failed on its own.
+
+  1. Changes
+    - `orders.item_fulfillment` (jsonb) - keyed by the index of the line in `order_items`:
+      { "0": { "status": "delivered", "note": "...", "updated_at": "..." }, ... }
+      Line status is pending (absent), delivered or failed.
+    - paid_verified → partially_delivered is now an allowed transition (first lines already
+      done when the order is derived from its lines)
+
+  2. Functions
+    - `set_order_line_fulfillment(order_id, line_index, status, note)` updates one line
+      atomically (so staff working different lines don't overwrite each other) and derives
+      the order status from all lines:
+        all delivered                         → delivered
+        none pending, some delivered + failed → partially_delivered
+        some done, some pending               → topping_up
+        all failed                            → unchanged (staff decides refund/reject)
+      Lines can only be changed while the order is paid_verified, topping_up or partially_delivered.
+*/
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS item_fulfillment jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'paid_verified', 'rejected', 'cancelled')) OR
+    (OLD.status = 'processing' AND NEW.status IN ('paid_verified', 'rejected', 'cancelled')) OR
+    (OLD.status = 'paid_verified' AND NEW.status IN ('topping_up', 'delivered', 'partially_delivered', 'refunded')) OR
+    (OLD.status = 'topping_up' AND NEW.status IN ('delivered', 'partially_delivered', 'refunded')) OR
+    (OLD.status = 'partially_delivered' AND NEW.status IN ('topping_up', 'delivered', 'refunded')) OR
+    (OLD.status = 'delivered' AND NEW.status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_order_line_fulfillment(
+  p_order_id uuid,
+  p_line_index integer,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+  line_count integer;
+  delivered_count integer;
+  failed_count integer;
+  derived_status text;
+BEGIN
+  IF p_status NOT IN ('pending', 'delivered', 'failed') THEN
+    RAISE EXCEPTION 'Invalid line status %', p_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status NOT IN ('paid_verified', 'topping_up', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Lines can only be updated after payment is verified (order is %)', target.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  line_count := jsonb_array_length(target.order_items);
+  IF p_line_index < 0 OR p_line_index >= line_count THEN
+    RAISE EXCEPTION 'Order has no line %', p_line_index USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_status = 'pending' THEN
+    target.item_fulfillment := target.item_fulfillment - p_line_index::text;
+  ELSE
+    target.item_fulfillment := target.item_fulfillment || jsonb_build_object(
+      p_line_index::text,
+      jsonb_build_object(
+        'status', p_status,
+        'note', NULLIF(btrim(COALESCE(p_note, '')), ''),
+        'updated_at', now()
+      )
+    );
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE value->>'status' = 'delivered'),
+    count(*) FILTER (WHERE value->>'status' = 'failed')
+  INTO delivered_count, failed_count
+  FROM jsonb_each(target.item_fulfillment);
+
+  derived_status := CASE
+    WHEN delivered_count = line_count THEN 'delivered'
+    WHEN delivered_count + failed_count = line_count AND delivered_count > 0 THEN 'partially_delivered'
+    WHEN delivered_count + failed_count > 0 AND delivered_count + failed_count < line_count THEN 'topping_up'
+    ELSE target.status
+  END;
+
+  UPDATE orders
+  SET
+    item_fulfillment = target.item_fulfillment,
+    status = derived_status,
+    rejection_message = CASE
+      WHEN derived_status = 'partially_delivered'
+        THEN format('%s of %s items delivered', delivered_count, line_count)
+      ELSE rejection_message
+    END
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_order_line_fulfillment(uuid, integer, text, text) TO anon, authenticated;
@@ -0,0 +1,218 @@
+/*
+  # Order status history
+
+  Status changes used to overwrite `orders.status` / `rejection_message` with no record of who
+  changed the order or when. Every transition is now written to `order_events` by a trigger,
+  so status changes made through any path (admin buttons, line fulfillment) are captured.
+
+  1. New Tables
+    - `order_events`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid) - the order
+      - `old_status` (text, nullable) - null for the event written when the order is created
+      - `new_status` (text)
+      - `actor` (text) - who made the change: customer, admin, system (or a staff name)
+      - `message` (text, nullable) - message shown to the customer with the change
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `orders.status_actor` (text) - set together with `status` to say who is making the change.
+      It is consumed by the trigger and cleared, so it never goes stale.
+    - `set_order_line_fulfillment` takes the actor as well
+    - Existing orders are backfilled with a creation event and, when already past pending,
+      one event for their current status
+
+  3. Functions
+    - `get_order_timeline(order_id)` - customer-safe history (status, message, time; no actor)
+
+  4. Security
+    - RLS enabled; only authenticated (staff) users can select, no direct writes (the trigger
+      writes events). Customers see their history through `get_order_timeline`.
+*/
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  old_status text,
+  new_status text NOT NULL,
+  actor text NOT NULL DEFAULT 'system',
+  message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can select order events" ON order_events;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'order_events'
+    AND policyname = 'Authenticated users can read order events'
+  ) THEN
+    CREATE POLICY "Authenticated users can read order events"
+      ON order_events
+      FOR SELECT
+      TO authenticated
+      USING (true);
+  END IF;
+END $$;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS status_actor text;
+
+-- Backfill history for orders created before this migration
+INSERT INTO order_events (order_id, old_status, new_status, actor, created_at)
+SELECT o.id, NULL, 'pending', 'customer', o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = o.id);
+
+INSERT INTO order_events (order_id, old_status, new_status, actor, message, created_at)
+SELECT
+  o.id,
+  'pending',
+  o.status,
+  'system',
+  CASE WHEN o.status IN ('rejected', 'cancelled', 'refunded', 'partially_delivered') THEN o.rejection_message END,
+  o.updated_at
+FROM orders o
+WHERE o.status <> 'pending'
+AND NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = o.id AND e.old_status IS NOT NULL);
+
+-- Runs after enforce_order_status_transition (BEFORE triggers fire in name order),
+-- so only valid transitions are recorded
+CREATE OR REPLACE FUNCTION record_order_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_events (order_id, old_status, new_status, actor, message)
+    VALUES (
+      NEW.id,
+      OLD.status,
+      NEW.status,
+      COALESCE(NULLIF(btrim(NEW.status_actor), ''), 'system'),
+      CASE WHEN NEW.status IN ('rejected', 'cancelled', 'refunded', 'partially_delivered') THEN NEW.rejection_message END
+    );
+  END IF;
+
+  NEW.status_actor := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_status_event ON orders;
+CREATE TRIGGER record_order_status_event
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_event();
+
+CREATE OR REPLACE FUNCTION record_order_created_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO order_events (order_id, old_status, new_status, actor, created_at)
+  VALUES (NEW.id, NULL, NEW.status, 'customer', NEW.created_at);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_created_event ON orders;
+CREATE TRIGGER record_order_created_event
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_created_event();
+
+CREATE OR REPLACE FUNCTION get_order_timeline(p_order_id uuid)
+RETURNS TABLE (status text, message text, created_at timestamptz) AS $$
+  SELECT e.new_status, e.message, e.created_at
+  FROM order_events e
+  WHERE e.order_id = p_order_id
+  ORDER BY e.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_order_timeline(uuid) TO anon, authenticated;
+
+-- Same as before, plus the actor recorded on a derived status change
+DROP FUNCTION IF EXISTS set_order_line_fulfillment(uuid, integer, text, text);
+
+CREATE OR REPLACE FUNCTION set_order_line_fulfillment(
+  p_order_id uuid,
+  p_line_index integer,
+  p_status text,
+  p_note text DEFAULT NULL,
+  p_actor text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+  line_count integer;
+  delivered_count integer;
+  failed_count integer;
+  derived_status text;
+BEGIN
+  IF p_status NOT IN ('pending', 'delivered', 'failed') THEN
+    RAISE EXCEPTION 'Invalid line status %', p_status USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status NOT IN ('paid_verified', 'topping_up', 'partially_delivered') THEN
+    RAISE EXCEPTION 'Lines can only be updated after payment is verified (order is %)', target.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  line_count := jsonb_array_length(target.order_items);
+  IF p_line_index < 0 OR p_line_index >= line_count THEN
+    RAISE EXCEPTION 'Order has no line %', p_line_index USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_status = 'pending' THEN
+    target.item_fulfillment := target.item_fulfillment - p_line_index::text;
+  ELSE
+    target.item_fulfillment := target.item_fulfillment || jsonb_build_object(
+      p_line_index::text,
+      jsonb_build_object(
+        'status', p_status,
+        'note', NULLIF(btrim(COALESCE(p_note, '')), ''),
+        'updated_at', now()
+      )
+    );
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE value->>'status' = 'delivered'),
+    count(*) FILTER (WHERE value->>'status' = 'failed')
+  INTO delivered_count, failed_count
+  FROM jsonb_each(target.item_fulfillment);
+
+  derived_status := CASE
+    WHEN delivered_count = line_count THEN 'delivered'
+    WHEN delivered_count + failed_count = line_count AND delivered_count > 0 THEN 'partially_delivered'
+    WHEN delivered_count + failed_count > 0 AND delivered_count + failed_count < line_count THEN 'topping_up'
+    ELSE target.status
+  END;
+
+  UPDATE orders
+  SET
+    item_fulfillment = target.item_fulfillment,
+    status = derived_status,
+    status_actor = COALESCE(p_actor, 'admin'),
+    rejection_message = CASE
+      WHEN derived_status = 'partially_delivered'
+        THEN format('%s of %s items delivered', delivered_count, line_count)
+      ELSE rejection_message
+    END
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_order_line_fulfillment(uuid, integer, text, text, text) TO anon, authenticated;
@@ -0,0 +1,84 @@
+/*
+  # Order search with cursor pagination
+
+  The admin order list only loaded the latest 100 orders. `search_orders` filters server-side
+  and pages backwards through history with a (created_at, id) cursor, so older orders
+  (e.g. last month's disputes) can be found.
+
+  1. Functions
+    - `search_orders(...)` returns orders newest first, all filters optional:
+      - `p_query` - matched (case-insensitive, partial) against the invoice number, any
+        customer_info value (single-account object or multi-account `fields`, e.g. IGN)
+        and the member username
+      - `p_status`, `p_payment_method`, `p_order_option` - exact matches
+      - `p_from` / `p_to` - created_at range, `p_to` exclusive
+      - `p_before_created_at` / `p_before_id` - cursor: only orders older than this one
+      - `p_limit` - page size (max 200)
+
+  2. Indexes
+    - `orders(created_at DESC, id DESC)` for the cursor
+    - `orders(payment_method_id)`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_id ON orders(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_method_id ON orders(payment_method_id);
+
+CREATE OR REPLACE FUNCTION search_orders(
+  p_query text DEFAULT NULL,
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_order_option text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS SETOF orders AS $$
+DECLARE
+  pattern text;
+BEGIN
+  IF p_query IS NOT NULL AND btrim(p_query) <> '' THEN
+    -- Escape LIKE wildcards so the query is matched literally
+    pattern := '%' || replace(replace(replace(btrim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.*
+  FROM orders o
+  LEFT JOIN members m ON m.id = o.member_id
+  WHERE (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method_id = p_payment_method)
+    AND (p_order_option IS NULL OR COALESCE(o.order_option, 'place_order') = p_order_option)
+    AND (p_from IS NULL OR o.created_at >= p_from)
+    AND (p_to IS NULL OR o.created_at < p_to)
+    AND (
+      p_before_created_at IS NULL
+      OR (o.created_at, o.id) < (p_before_created_at, COALESCE(p_before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+    )
+    AND (
+      pattern IS NULL
+      OR o.invoice_number ILIKE pattern
+      OR m.username ILIKE pattern
+      OR (
+        jsonb_typeof(o.customer_info) = 'object'
+        AND EXISTS (SELECT 1 FROM jsonb_each_text(o.customer_info) f WHERE f.value ILIKE pattern)
+      )
+      OR (
+        jsonb_typeof(o.customer_info) = 'array'
+        AND EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(o.customer_info) account,
+            jsonb_each_text(
+              CASE WHEN jsonb_typeof(account->'fields') = 'object' THEN account->'fields' ELSE '{}'::jsonb END
+            ) f
+          WHERE f.value ILIKE pattern
+        )
+      )
+    )
+  ORDER BY o.created_at DESC, o.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_orders(text, text, text, text, timestamptz, timestamptz, timestamptz, uuid, integer) TO anon, authenticated;
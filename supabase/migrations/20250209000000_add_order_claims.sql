@@ -0,0 +1,95 @@
+/*
+  # Staff claims on orders
+
+  Several admins work the order list at once and sometimes top up the same order. An order is
+  now claimed by the staff member who moves it to processing, and only that person can change
+  it until someone explicitly takes it over.
+
+  1. Changes
+    - `orders.claimed_by` (text) - staff name holding the order
+    - `orders.claimed_at` (timestamptz)
+
+  2. Triggers
+    - `enforce_order_claim` (BEFORE UPDATE, runs before the status triggers):
+      - moving to processing claims an unclaimed order for the acting staff member (`status_actor`)
+      - status or line fulfillment changes by anyone other than the claimer are rejected,
+        unless the same update changes `claimed_by` (a takeover through `claim_order`)
+
+  3. Functions
+    - `claim_order(order_id, staff, takeover)` - claims an order; fails if another staff member
+      holds it and `takeover` is false
+*/
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS claimed_by text,
+ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE OR REPLACE FUNCTION enforce_order_claim()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.claimed_by IS DISTINCT FROM OLD.claimed_by THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.claimed_by IS NOT NULL
+    AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.item_fulfillment IS DISTINCT FROM OLD.item_fulfillment)
+    AND COALESCE(NEW.status_actor, '') <> OLD.claimed_by
+  THEN
+    RAISE EXCEPTION 'Order is claimed by %. Take it over to make changes.', OLD.claimed_by
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'processing' AND OLD.status IS DISTINCT FROM 'processing'
+    AND OLD.claimed_by IS NULL AND NULLIF(btrim(NEW.status_actor), '') IS NOT NULL
+  THEN
+    NEW.claimed_by := btrim(NEW.status_actor);
+    NEW.claimed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_claim ON orders;
+CREATE TRIGGER enforce_order_claim
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_claim();
+
+CREATE OR REPLACE FUNCTION claim_order(
+  p_order_id uuid,
+  p_staff text,
+  p_takeover boolean DEFAULT false
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+  staff text := NULLIF(btrim(p_staff), '');
+BEGIN
+  IF staff IS NULL THEN
+    RAISE EXCEPTION 'Staff name is required to claim an order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.claimed_by = staff THEN
+    RETURN target;
+  END IF;
+
+  IF target.claimed_by IS NOT NULL AND NOT p_takeover THEN
+    RAISE EXCEPTION 'Order is already claimed by %', target.claimed_by USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE orders
+  SET claimed_by = staff, claimed_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_order(uuid, text, boolean) TO anon, authenticated;
@@ -0,0 +1,105 @@
+/*
+  # Public order tracking
+
+  Guests lose the order status modal once they close the tab. The /track page lets them look
+  an order up again by invoice number plus something only the buyer knows.
+
+  1. Functions
+    - `track_order(invoice_number, contact)` returns a customer-safe summary, or null when
+      the invoice does not exist or the contact does not match (same answer for both, so
+      invoice numbers can't be probed). The contact must equal (case-insensitive) one of:
+      - a customer_info account field (IGN, user ID, contact fields; single or multi-account).
+        Payment Method and the gift details (Gift, Gift From, Gift Message, Recipient Contact)
+        are not the buyer's account and never match.
+      - the ordering member's email or mobile number
+      The summary contains the invoice number, status, store message, items (name, package,
+      quantity) and the status timeline. No ids, prices, receipts or account details.
+    - `order_contact_matches(order, contact)` - the contact check above, also used by customer
+      cancellation; not callable by clients
+*/
+
+CREATE OR REPLACE FUNCTION order_contact_matches(p_order orders, p_contact text)
+RETURNS boolean AS $$
+DECLARE
+  contact text := lower(btrim(COALESCE(p_contact, '')));
+BEGIN
+  IF length(contact) < 3 THEN
+    RETURN false;
+  END IF;
+
+  RETURN
+    EXISTS (
+      SELECT 1
+      FROM jsonb_each_text(CASE WHEN jsonb_typeof(p_order.customer_info) = 'object' THEN p_order.customer_info ELSE '{}'::jsonb END) f
+      WHERE f.key NOT IN ('Payment Method', 'Gift', 'Gift From', 'Gift Message', 'Recipient Contact')
+      AND lower(btrim(f.value)) = contact
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_order.customer_info) = 'array' THEN p_order.customer_info ELSE '[]'::jsonb END) account,
+        jsonb_each_text(CASE WHEN jsonb_typeof(account->'fields') = 'object' THEN account->'fields' ELSE '{}'::jsonb END) f
+      WHERE f.key NOT IN ('Gift', 'Gift From', 'Gift Message', 'Recipient Contact')
+      AND lower(btrim(f.value)) = contact
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM members m
+      WHERE m.id = p_order.member_id
+      AND (lower(m.email) = contact OR lower(COALESCE(m.mobile_no, '')) = contact)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION order_contact_matches(orders, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION track_order(p_invoice_number text, p_contact text)
+RETURNS jsonb AS $$
+DECLARE
+  target orders;
+BEGIN
+  IF btrim(COALESCE(p_invoice_number, '')) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO target
+  FROM orders
+  WHERE upper(invoice_number) = upper(btrim(p_invoice_number))
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT order_contact_matches(target, p_contact) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'invoice_number', target.invoice_number,
+    'status', target.status,
+    'message', CASE
+      WHEN target.status IN ('rejected', 'cancelled', 'refunded', 'partially_delivered') THEN target.rejection_message
+    END,
+    'created_at', target.created_at,
+    'items', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', item->>'name',
+        'variation', item->'selectedVariation'->>'name',
+        'quantity', (item->>'quantity')::integer
+      )), '[]'::jsonb)
+      FROM jsonb_array_elements(target.order_items) item
+    ),
+    'timeline', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'status', e.new_status,
+        'message', e.message,
+        'created_at', e.created_at
+      ) ORDER BY e.created_at), '[]'::jsonb)
+      FROM order_events e
+      WHERE e.order_id = target.id
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION track_order(text, text) TO anon, authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Customer order cancellation
+
+  Customers could not cancel an order placed by mistake without messaging support. They can
+  now cancel it themselves while it is still pending.
+
+  1. Changes
+    - `orders.customer_cancelled_at` (timestamptz) - set when the customer cancelled the order,
+      so the admin can tell customer cancellations from staff ones and be notified
+
+  2. Functions
+    - `cancel_order_by_customer(order_id, reason, contact)` - cancels the order only while it is
+      pending and unclaimed; the optional reason is stored as the order message and recorded in
+      order_events with actor `customer`. The caller proves the order is theirs with a contact
+      value or IGN from the order, checked the same way as by `track_order`.
+*/
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS customer_cancelled_at timestamptz;
+
+CREATE OR REPLACE FUNCTION cancel_order_by_customer(
+  p_order_id uuid,
+  p_reason text DEFAULT NULL,
+  p_contact text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT order_contact_matches(target, p_contact) THEN
+    RAISE EXCEPTION 'Enter the IGN or contact you used for this order'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF target.status <> 'pending' OR target.claimed_by IS NOT NULL THEN
+    RAISE EXCEPTION 'This order is already being processed and can no longer be cancelled'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE orders
+  SET
+    status = 'cancelled',
+    status_actor = 'customer',
+    rejection_message = NULLIF(btrim(COALESCE(p_reason, '')), ''),
+    customer_cancelled_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_order_by_customer(uuid, text, text) TO anon, authenticated;
@@ -0,0 +1,178 @@
+/*
+  # Server-side order pricing
+
+  Orders were inserted with `total_price` and `order_items` exactly as the browser computed them,
+  so anyone editing the cart in localStorage could pay any price. Orders are now created through
+  `create_order`, which re-prices every line from the database and rejects orders whose submitted
+  total does not match.
+
+  1. Functions
+    - `get_order_line_unit_price(line, member_id)` - unit price of one cart line, using the same
+      rules as the storefront: reseller_price / member_price for the member's user_type, then the
+      reseller's member_discounts selling_price, then the game's active discount, then the base
+      variation price; add-ons are added at their listed price
+    - `create_order(...)` - validates and re-prices all lines, stores the server prices on the
+      order lines and rejects the order (check_violation) when the submitted total differs
+
+  2. Security
+    - Direct inserts into `orders` are no longer allowed for anon; `create_order` is the only way
+      for customers to create an order
+*/
+
+CREATE OR REPLACE FUNCTION get_order_line_unit_price(p_line jsonb, p_member_id uuid)
+RETURNS numeric AS $$
+DECLARE
+  menu_item_key text;
+  item menu_items;
+  variation variations;
+  member members;
+  member_selling_price numeric;
+  add_on jsonb;
+  add_on_price numeric;
+  add_on_quantity integer;
+  unit_price numeric;
+BEGIN
+  -- Cart line ids are "<menu item id>:::CART:::<suffix>"
+  menu_item_key := split_part(COALESCE(p_line->>'id', ''), ':::CART:::', 1);
+  IF menu_item_key !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Unknown item in order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO item FROM menu_items WHERE id = menu_item_key::uuid;
+  IF NOT FOUND OR item.available IS FALSE THEN
+    RAISE EXCEPTION '% is no longer available', COALESCE(p_line->>'name', 'An item')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT * INTO member FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  unit_price := COALESCE(item.base_price, 0);
+
+  IF p_line->'selectedVariation'->>'id' IS NOT NULL THEN
+    SELECT * INTO variation
+    FROM variations
+    WHERE id::text = p_line->'selectedVariation'->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% – % is no longer available', item.name, COALESCE(p_line->'selectedVariation'->>'name', 'package')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF member.user_type = 'reseller' THEN
+      SELECT selling_price INTO member_selling_price
+      FROM member_discounts
+      WHERE member_id = member.id AND menu_item_id = item.id AND variation_id = variation.id;
+    END IF;
+
+    -- Same priority as MenuItemCard.getDiscountedPriceSync
+    unit_price := unit_price + CASE
+      WHEN member.user_type = 'reseller' AND variation.reseller_price IS NOT NULL THEN variation.reseller_price
+      WHEN member.user_type = 'end_user' AND variation.member_price IS NOT NULL THEN variation.member_price
+      WHEN member.user_type = 'reseller' AND COALESCE(member_selling_price, 0) > 0 THEN member_selling_price
+      WHEN item.discount_active AND item.discount_price IS NOT NULL THEN variation.price - variation.price * item.discount_price
+      ELSE variation.price
+    END;
+  END IF;
+
+  FOR add_on IN SELECT * FROM jsonb_array_elements(COALESCE(p_line->'selectedAddOns', '[]'::jsonb)) LOOP
+    SELECT price INTO add_on_price
+    FROM add_ons
+    WHERE id::text = add_on->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Add-on % is no longer available', COALESCE(add_on->>'name', '')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    add_on_quantity := COALESCE((add_on->>'quantity')::integer, 1);
+    IF add_on_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid add-on quantity' USING ERRCODE = 'check_violation';
+    END IF;
+    unit_price := unit_price + add_on_price * add_on_quantity;
+  END LOOP;
+
+  RETURN round(unit_price, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: member discount prices should not be readable by member id
+REVOKE EXECUTE ON FUNCTION get_order_line_unit_price(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_id uuid DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  unit_price numeric;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    unit_price := get_order_line_unit_price(line, p_member_id);
+    computed_total := computed_total + unit_price * line_quantity;
+
+    -- Keep the line as submitted, but with the server's unit price
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride') || jsonb_build_object('totalPrice', unit_price)
+    );
+  END LOOP;
+
+  IF abs(computed_total - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s', p_total_price, computed_total);
+  END IF;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    p_payment_method_id,
+    p_receipt_url,
+    computed_total,
+    p_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending'
+  )
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, uuid, text, text) TO anon, authenticated;
+
+-- Customers go through create_order; the admin (authenticated) policy is unchanged
+DROP POLICY IF EXISTS "Anyone can insert orders" ON orders;
+DROP POLICY IF EXISTS "Public can insert orders" ON orders;
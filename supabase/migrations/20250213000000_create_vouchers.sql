@@ -0,0 +1,313 @@
+/*
+  # Vouchers
+
+  Promo codes that customers can apply at checkout. Vouchers are validated by the server both
+  when applied (`validate_voucher`) and again when the order is created (`create_order`).
+
+  1. New Tables
+    - `vouchers`
+      - `code` (text, unique, stored upper-case)
+      - `description` (text) - shown to the customer when the voucher is applied
+      - `discount_type` (text) - `percentage` or `fixed`
+      - `discount_value` (numeric) - percent off (0-100) or amount off in ₱
+      - `max_discount` (numeric, nullable) - cap for percentage vouchers
+      - `min_spend` (numeric) - minimum subtotal of the items the voucher applies to
+      - `menu_item_ids` (uuid[]) / `categories` (text[]) - scope; when both are empty the voucher
+        applies to the whole cart, otherwise only to lines of those games or categories
+      - `member_types` (text[]) - when not empty only logged-in members of these user types
+        (end_user / reseller) can use the voucher
+      - `usage_limit` (integer, nullable) - total number of orders that can use the voucher
+      - `per_member_limit` (integer, nullable) - orders per member; requires a logged-in member
+      - `starts_at` / `ends_at` (timestamptz, nullable) - validity window
+      - `active` (boolean)
+
+  2. Changes
+    - `orders.voucher_id`, `orders.voucher_code`, `orders.voucher_discount` - voucher used by the
+      order; `total_price` is the amount after the discount. Rejected and cancelled orders do
+      not count towards usage limits.
+
+  3. Functions
+    - `evaluate_voucher(code, order_items, member_id)` - internal; returns the voucher and the
+      discount for the given lines or raises (check_violation) with the reason it cannot be used
+    - `validate_voucher(code, order_items, member_id)` - checkout preview of the discount
+    - `create_order(...)` - now takes an optional voucher code
+
+  4. Security
+    - Only authenticated (staff) users can read and manage vouchers, so codes cannot be listed
+      from the storefront. Customers only reach them through `validate_voucher` / `create_order`.
+*/
+
+CREATE TABLE IF NOT EXISTS vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code = upper(btrim(code)) AND code <> ''),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric(10,2) NOT NULL CHECK (discount_value > 0),
+  max_discount numeric(10,2) CHECK (max_discount IS NULL OR max_discount > 0),
+  min_spend numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  menu_item_ids uuid[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  member_types text[] NOT NULL DEFAULT '{}' CHECK (member_types <@ ARRAY['end_user', 'reseller']),
+  usage_limit integer CHECK (usage_limit IS NULL OR usage_limit > 0),
+  per_member_limit integer CHECK (per_member_limit IS NULL OR per_member_limit > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+ALTER TABLE vouchers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read vouchers" ON vouchers;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'vouchers'
+    AND policyname = 'Authenticated users can manage vouchers'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage vouchers"
+      ON vouchers
+      FOR ALL
+      TO authenticated
+      USING (true)
+      WITH CHECK (true);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_vouchers_updated_at ON vouchers;
+CREATE TRIGGER update_vouchers_updated_at
+  BEFORE UPDATE ON vouchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS voucher_id uuid REFERENCES vouchers(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS voucher_code text,
+ADD COLUMN IF NOT EXISTS voucher_discount numeric(10,2);
+
+CREATE INDEX IF NOT EXISTS idx_orders_voucher_id ON orders(voucher_id) WHERE voucher_id IS NOT NULL;
+
+-- Voucher and discount for the given (unpriced) cart lines. With p_lock the voucher row is locked
+-- so concurrent orders cannot both take the last use.
+CREATE OR REPLACE FUNCTION evaluate_voucher(
+  p_code text,
+  p_order_items jsonb,
+  p_member_id uuid,
+  p_lock boolean DEFAULT false,
+  OUT voucher_id uuid,
+  OUT voucher_code text,
+  OUT voucher_description text,
+  OUT discount numeric
+) AS $$
+-- orders.voucher_id in the usage queries is the column, not the OUT parameter
+#variable_conflict use_column
+DECLARE
+  voucher vouchers;
+  member members;
+  line jsonb;
+  line_item menu_items;
+  eligible_subtotal numeric := 0;
+  used_count integer;
+BEGIN
+  IF p_lock THEN
+    SELECT * INTO voucher FROM vouchers WHERE code = upper(btrim(p_code)) FOR UPDATE;
+  ELSE
+    SELECT * INTO voucher FROM vouchers WHERE code = upper(btrim(p_code));
+  END IF;
+
+  IF NOT FOUND OR NOT voucher.active THEN
+    RAISE EXCEPTION 'Voucher code is not valid' USING ERRCODE = 'check_violation';
+  END IF;
+  IF voucher.starts_at IS NOT NULL AND now() < voucher.starts_at THEN
+    RAISE EXCEPTION 'This voucher is not active yet' USING ERRCODE = 'check_violation';
+  END IF;
+  IF voucher.ends_at IS NOT NULL AND now() >= voucher.ends_at THEN
+    RAISE EXCEPTION 'This voucher has expired' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT * INTO member FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  IF cardinality(voucher.member_types) > 0 AND (member.id IS NULL OR NOT member.user_type = ANY(voucher.member_types)) THEN
+    RAISE EXCEPTION 'This voucher is not available for your account' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF voucher.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO used_count
+    FROM orders
+    WHERE voucher_id = voucher.id AND status NOT IN ('rejected', 'cancelled');
+    IF used_count >= voucher.usage_limit THEN
+      RAISE EXCEPTION 'This voucher has been fully redeemed' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF voucher.per_member_limit IS NOT NULL THEN
+    IF member.id IS NULL THEN
+      RAISE EXCEPTION 'Please log in to use this voucher' USING ERRCODE = 'check_violation';
+    END IF;
+    SELECT count(*) INTO used_count
+    FROM orders
+    WHERE voucher_id = voucher.id AND member_id = member.id AND status NOT IN ('rejected', 'cancelled');
+    IF used_count >= voucher.per_member_limit THEN
+      RAISE EXCEPTION 'You have already used this voucher' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(COALESCE(p_order_items, '[]'::jsonb)) LOOP
+    SELECT * INTO line_item
+    FROM menu_items
+    WHERE id::text = split_part(COALESCE(line->>'id', ''), ':::CART:::', 1);
+
+    IF (cardinality(voucher.menu_item_ids) = 0 AND cardinality(voucher.categories) = 0)
+      OR line_item.id = ANY(voucher.menu_item_ids)
+      OR line_item.category = ANY(voucher.categories) THEN
+      eligible_subtotal := eligible_subtotal
+        + get_order_line_unit_price(line, p_member_id) * GREATEST(COALESCE((line->>'quantity')::integer, 0), 0);
+    END IF;
+  END LOOP;
+
+  IF eligible_subtotal = 0 THEN
+    RAISE EXCEPTION 'This voucher does not apply to the items in your cart' USING ERRCODE = 'check_violation';
+  END IF;
+  IF eligible_subtotal < voucher.min_spend THEN
+    RAISE EXCEPTION 'Spend at least ₱% on eligible items to use this voucher', voucher.min_spend
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF voucher.discount_type = 'percentage' THEN
+    discount := eligible_subtotal * voucher.discount_value / 100;
+    IF voucher.max_discount IS NOT NULL THEN
+      discount := LEAST(discount, voucher.max_discount);
+    END IF;
+  ELSE
+    discount := voucher.discount_value;
+  END IF;
+
+  discount := round(LEAST(discount, eligible_subtotal), 2);
+  voucher_id := voucher.id;
+  voucher_code := voucher.code;
+  voucher_description := voucher.description;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION evaluate_voucher(text, jsonb, uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION validate_voucher(p_code text, p_order_items jsonb, p_member_id uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  result record;
+BEGIN
+  SELECT * INTO result FROM evaluate_voucher(p_code, p_order_items, p_member_id);
+
+  RETURN jsonb_build_object(
+    'voucher_id', result.voucher_id,
+    'code', result.voucher_code,
+    'description', result.voucher_description,
+    'discount', result.discount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION validate_voucher(text, jsonb, uuid) TO anon, authenticated;
+
+-- create_order gains the voucher code; the old signature is replaced
+DROP FUNCTION IF EXISTS create_order(jsonb, jsonb, text, text, numeric, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_id uuid DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL,
+  p_voucher_code text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  unit_price numeric;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  applied_voucher_id uuid;
+  applied_voucher_code text;
+  applied_discount numeric;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    unit_price := get_order_line_unit_price(line, p_member_id);
+    computed_total := computed_total + unit_price * line_quantity;
+
+    -- Keep the line as submitted, but with the server's unit price
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride') || jsonb_build_object('totalPrice', unit_price)
+    );
+  END LOOP;
+
+  IF NULLIF(btrim(COALESCE(p_voucher_code, '')), '') IS NOT NULL THEN
+    SELECT voucher_id, voucher_code, discount
+    INTO applied_voucher_id, applied_voucher_code, applied_discount
+    FROM evaluate_voucher(p_voucher_code, p_order_items, p_member_id, true);
+    computed_total := computed_total - applied_discount;
+  END IF;
+
+  IF abs(computed_total - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s', p_total_price, computed_total);
+  END IF;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status,
+    voucher_id,
+    voucher_code,
+    voucher_discount
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    p_payment_method_id,
+    p_receipt_url,
+    computed_total,
+    p_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending',
+    applied_voucher_id,
+    applied_voucher_code,
+    applied_discount
+  )
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text) TO anon, authenticated;
@@ -0,0 +1,93 @@
+/*
+  # Scheduled menu discounts
+
+  `menu_items.discount_start_date` / `discount_end_date` existed but were ignored: a discount was
+  live whenever `discount_active` was set. The storefront now only applies a game's discount
+  inside its window (entered in Manila time by the admin), and the server must agree so that
+  orders placed around the start / end of a sale are priced the same on both sides.
+
+  1. Functions
+    - `get_order_line_unit_price(line, member_id)` - the game discount only applies while
+      `is_discount_active(discount_active, discount_start_date, discount_end_date)` is true;
+      everything else is unchanged
+*/
+
+CREATE OR REPLACE FUNCTION get_order_line_unit_price(p_line jsonb, p_member_id uuid)
+RETURNS numeric AS $$
+DECLARE
+  menu_item_key text;
+  item menu_items;
+  variation variations;
+  member members;
+  member_selling_price numeric;
+  add_on jsonb;
+  add_on_price numeric;
+  add_on_quantity integer;
+  unit_price numeric;
+BEGIN
+  -- Cart line ids are "<menu item id>:::CART:::<suffix>"
+  menu_item_key := split_part(COALESCE(p_line->>'id', ''), ':::CART:::', 1);
+  IF menu_item_key !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Unknown item in order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO item FROM menu_items WHERE id = menu_item_key::uuid;
+  IF NOT FOUND OR item.available IS FALSE THEN
+    RAISE EXCEPTION '% is no longer available', COALESCE(p_line->>'name', 'An item')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT * INTO member FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  unit_price := COALESCE(item.base_price, 0);
+
+  IF p_line->'selectedVariation'->>'id' IS NOT NULL THEN
+    SELECT * INTO variation
+    FROM variations
+    WHERE id::text = p_line->'selectedVariation'->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% – % is no longer available', item.name, COALESCE(p_line->'selectedVariation'->>'name', 'package')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF member.user_type = 'reseller' THEN
+      SELECT selling_price INTO member_selling_price
+      FROM member_discounts
+      WHERE member_id = member.id AND menu_item_id = item.id AND variation_id = variation.id;
+    END IF;
+
+    -- Same priority as getVariationPriceForMember (src/lib/pricing.ts)
+    unit_price := unit_price + CASE
+      WHEN member.user_type = 'reseller' AND variation.reseller_price IS NOT NULL THEN variation.reseller_price
+      WHEN member.user_type = 'end_user' AND variation.member_price IS NOT NULL THEN variation.member_price
+      WHEN member.user_type = 'reseller' AND COALESCE(member_selling_price, 0) > 0 THEN member_selling_price
+      WHEN is_discount_active(item.discount_active, item.discount_start_date, item.discount_end_date)
+        AND item.discount_price IS NOT NULL THEN variation.price - variation.price * item.discount_price
+      ELSE variation.price
+    END;
+  END IF;
+
+  FOR add_on IN SELECT * FROM jsonb_array_elements(COALESCE(p_line->'selectedAddOns', '[]'::jsonb)) LOOP
+    SELECT price INTO add_on_price
+    FROM add_ons
+    WHERE id::text = add_on->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Add-on % is no longer available', COALESCE(add_on->>'name', '')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    add_on_quantity := COALESCE((add_on->>'quantity')::integer, 1);
+    IF add_on_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid add-on quantity' USING ERRCODE = 'check_violation';
+    END IF;
+    unit_price := unit_price + add_on_price * add_on_quantity;
+  END LOOP;
+
+  RETURN round(unit_price, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: member discount prices should not be readable by member id
+REVOKE EXECUTE ON FUNCTION get_order_line_unit_price(jsonb, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,459 @@
+/*
+  # Flash sales
+
+  Time-boxed sales on a single package (variation) at a fixed price, limited to the first N units
+  sold and optionally to a number of units per member (e.g. first 50 Weekly Diamond Passes at ₱85,
+  2 per member). The sale price applies automatically while the sale is live and units remain,
+  unless the customer's own price for the package is already lower.
+
+  1. New Tables
+    - `flash_sales`
+      - `variation_id` (uuid) - the package on sale
+      - `sale_price` (numeric) - fixed price of the package during the sale
+      - `quantity_cap` (integer) - units available at the sale price
+      - `per_member_cap` (integer, nullable) - units per member; requires a logged-in member
+      - `starts_at` / `ends_at` (timestamptz) - sale window
+      - `active` (boolean)
+      - `sold_count` (integer) - units taken by orders that were not rejected or cancelled;
+        maintained by `create_order` and the orders trigger below, readable by anyone so the
+        storefront can show the remaining count (Realtime)
+    - `flash_sale_claims` - units of a flash sale taken by an order (and member)
+
+  2. Functions
+    - `get_live_flash_sale(variation_id, member_id)` - internal; the cheapest live sale for the
+      package with units left for this member
+    - `price_order_line(line, member_id)` - internal; unit price of a cart line and the flash
+      sale it used. `get_order_line_unit_price` is now a wrapper around it
+    - `create_order(...)` - locks the flash sales used by the order and rejects it
+      (check_violation) when the global or per-member cap would be exceeded
+    - `get_member_flash_sale_claims(member_id)` - units a member already bought per live sale
+
+  3. Triggers
+    - `release_flash_sale_claims` - gives the units back when an order is rejected or cancelled
+
+  4. Security
+    - Same as vouchers: public read for the storefront, authenticated manage
+    - Claims are only readable by authenticated (admin) users
+*/
+
+CREATE TABLE IF NOT EXISTS flash_sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  variation_id uuid NOT NULL REFERENCES variations(id) ON DELETE CASCADE,
+  sale_price numeric(10,2) NOT NULL CHECK (sale_price >= 0),
+  quantity_cap integer NOT NULL CHECK (quantity_cap > 0),
+  per_member_cap integer CHECK (per_member_cap IS NULL OR per_member_cap > 0),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  active boolean NOT NULL DEFAULT true,
+  sold_count integer NOT NULL DEFAULT 0 CHECK (sold_count >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_sales_variation_id ON flash_sales(variation_id);
+
+CREATE TABLE IF NOT EXISTS flash_sale_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  flash_sale_id uuid NOT NULL REFERENCES flash_sales(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  member_id uuid REFERENCES members(id) ON DELETE SET NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  released_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flash_sale_claims_sale_member ON flash_sale_claims(flash_sale_id, member_id)
+  WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_flash_sale_claims_order_id ON flash_sale_claims(order_id);
+
+ALTER TABLE flash_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flash_sale_claims ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'flash_sales'
+    AND policyname = 'Anyone can read flash sales'
+  ) THEN
+    CREATE POLICY "Anyone can read flash sales"
+      ON flash_sales
+      FOR SELECT
+      TO public
+      USING (true);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'flash_sales'
+    AND policyname = 'Authenticated users can manage flash sales'
+  ) THEN
+    CREATE POLICY "Authenticated users can manage flash sales"
+      ON flash_sales
+      FOR ALL
+      TO authenticated
+      USING (true)
+      WITH CHECK (true);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'flash_sale_claims'
+    AND policyname = 'Authenticated users can read flash sale claims'
+  ) THEN
+    CREATE POLICY "Authenticated users can read flash sale claims"
+      ON flash_sale_claims
+      FOR SELECT
+      TO authenticated
+      USING (true);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_flash_sales_updated_at ON flash_sales;
+CREATE TRIGGER update_flash_sales_updated_at
+  BEFORE UPDATE ON flash_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Live remaining counts on the storefront
+-- If you see "already member of publication", realtime was already enabled.
+ALTER PUBLICATION supabase_realtime ADD TABLE flash_sales;
+
+-- Cheapest live sale for the package that still has units left for this member (NULL when none).
+-- Not locked: create_order re-checks the caps with the sale rows locked.
+CREATE OR REPLACE FUNCTION get_live_flash_sale(p_variation_id uuid, p_member_id uuid)
+RETURNS flash_sales AS $$
+DECLARE
+  sale flash_sales;
+BEGIN
+  SELECT fs.* INTO sale
+  FROM flash_sales fs
+  WHERE fs.variation_id = p_variation_id
+    AND fs.active
+    AND now() >= fs.starts_at
+    AND now() < fs.ends_at
+    AND fs.sold_count < fs.quantity_cap
+    AND (
+      fs.per_member_cap IS NULL
+      OR (
+        p_member_id IS NOT NULL
+        AND fs.per_member_cap > (
+          SELECT COALESCE(sum(c.quantity), 0)
+          FROM flash_sale_claims c
+          WHERE c.flash_sale_id = fs.id AND c.member_id = p_member_id AND c.released_at IS NULL
+        )
+      )
+    )
+  ORDER BY fs.sale_price, fs.ends_at
+  LIMIT 1;
+
+  RETURN sale;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_live_flash_sale(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION price_order_line(
+  p_line jsonb,
+  p_member_id uuid,
+  OUT unit_price numeric,
+  OUT flash_sale_id uuid
+) AS $$
+DECLARE
+  menu_item_key text;
+  item menu_items;
+  variation variations;
+  member members;
+  member_selling_price numeric;
+  variation_price numeric;
+  sale flash_sales;
+  add_on jsonb;
+  add_on_price numeric;
+  add_on_quantity integer;
+BEGIN
+  -- Cart line ids are "<menu item id>:::CART:::<suffix>"
+  menu_item_key := split_part(COALESCE(p_line->>'id', ''), ':::CART:::', 1);
+  IF menu_item_key !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Unknown item in order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO item FROM menu_items WHERE id = menu_item_key::uuid;
+  IF NOT FOUND OR item.available IS FALSE THEN
+    RAISE EXCEPTION '% is no longer available', COALESCE(p_line->>'name', 'An item')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT * INTO member FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  unit_price := COALESCE(item.base_price, 0);
+
+  IF p_line->'selectedVariation'->>'id' IS NOT NULL THEN
+    SELECT * INTO variation
+    FROM variations
+    WHERE id::text = p_line->'selectedVariation'->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% – % is no longer available', item.name, COALESCE(p_line->'selectedVariation'->>'name', 'package')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF member.user_type = 'reseller' THEN
+      SELECT selling_price INTO member_selling_price
+      FROM member_discounts
+      WHERE member_id = member.id AND menu_item_id = item.id AND variation_id = variation.id;
+    END IF;
+
+    -- Same priority as getVariationPriceForMember (src/lib/pricing.ts)
+    variation_price := CASE
+      WHEN member.user_type = 'reseller' AND variation.reseller_price IS NOT NULL THEN variation.reseller_price
+      WHEN member.user_type = 'end_user' AND variation.member_price IS NOT NULL THEN variation.member_price
+      WHEN member.user_type = 'reseller' AND COALESCE(member_selling_price, 0) > 0 THEN member_selling_price
+      WHEN is_discount_active(item.discount_active, item.discount_start_date, item.discount_end_date)
+        AND item.discount_price IS NOT NULL THEN variation.price - variation.price * item.discount_price
+      ELSE variation.price
+    END;
+
+    -- A flash sale only applies when it beats the customer's own price
+    sale := get_live_flash_sale(variation.id, member.id);
+    IF sale.id IS NOT NULL AND sale.sale_price < variation_price THEN
+      variation_price := sale.sale_price;
+      flash_sale_id := sale.id;
+    END IF;
+
+    unit_price := unit_price + variation_price;
+  END IF;
+
+  FOR add_on IN SELECT * FROM jsonb_array_elements(COALESCE(p_line->'selectedAddOns', '[]'::jsonb)) LOOP
+    SELECT price INTO add_on_price
+    FROM add_ons
+    WHERE id::text = add_on->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Add-on % is no longer available', COALESCE(add_on->>'name', '')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    add_on_quantity := COALESCE((add_on->>'quantity')::integer, 1);
+    IF add_on_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid add-on quantity' USING ERRCODE = 'check_violation';
+    END IF;
+    unit_price := unit_price + add_on_price * add_on_quantity;
+  END LOOP;
+
+  unit_price := round(unit_price, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION price_order_line(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_order_line_unit_price(p_line jsonb, p_member_id uuid)
+RETURNS numeric AS $$
+BEGIN
+  RETURN (price_order_line(p_line, p_member_id)).unit_price;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: member discount prices should not be readable by member id
+REVOKE EXECUTE ON FUNCTION get_order_line_unit_price(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_id uuid DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL,
+  p_voucher_code text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  priced record;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  applied_voucher_id uuid;
+  applied_voucher_code text;
+  applied_discount numeric;
+  active_member_id uuid;
+  flash_quantities jsonb := '{}'::jsonb;
+  flash_key text;
+  flash_quantity integer;
+  sale flash_sales;
+  member_claimed integer;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT id INTO active_member_id FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO priced FROM price_order_line(line, p_member_id);
+    computed_total := computed_total + priced.unit_price * line_quantity;
+
+    IF priced.flash_sale_id IS NOT NULL THEN
+      flash_quantities := flash_quantities || jsonb_build_object(
+        priced.flash_sale_id::text,
+        COALESCE((flash_quantities->>priced.flash_sale_id::text)::integer, 0) + line_quantity
+      );
+    END IF;
+
+    -- Keep the line as submitted, but with the server's unit price and flash sale
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride' - 'flashSaleId')
+        || jsonb_build_object('totalPrice', priced.unit_price)
+        || CASE WHEN priced.flash_sale_id IS NOT NULL
+             THEN jsonb_build_object('flashSaleId', priced.flash_sale_id)
+             ELSE '{}'::jsonb
+           END
+    );
+  END LOOP;
+
+  IF NULLIF(btrim(COALESCE(p_voucher_code, '')), '') IS NOT NULL THEN
+    SELECT voucher_id, voucher_code, discount
+    INTO applied_voucher_id, applied_voucher_code, applied_discount
+    FROM evaluate_voucher(p_voucher_code, p_order_items, p_member_id, true);
+    computed_total := computed_total - applied_discount;
+  END IF;
+
+  IF abs(computed_total - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s', p_total_price, computed_total);
+  END IF;
+
+  -- Take the flash sale units with the sale rows locked (in id order) so concurrent orders cannot
+  -- oversell the caps
+  FOR flash_key, flash_quantity IN
+    SELECT key, value::integer FROM jsonb_each_text(flash_quantities) ORDER BY key
+  LOOP
+    SELECT * INTO sale FROM flash_sales WHERE id = flash_key::uuid FOR UPDATE;
+
+    IF sale.sold_count + flash_quantity > sale.quantity_cap THEN
+      RAISE EXCEPTION 'Only % left in the flash sale. Please update your cart and try again.',
+        GREATEST(sale.quantity_cap - sale.sold_count, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF sale.per_member_cap IS NOT NULL THEN
+      SELECT COALESCE(sum(quantity), 0) INTO member_claimed
+      FROM flash_sale_claims
+      WHERE flash_sale_id = sale.id AND member_id = active_member_id AND released_at IS NULL;
+      IF member_claimed + flash_quantity > sale.per_member_cap THEN
+        RAISE EXCEPTION 'The flash sale is limited to % per customer. Please update your cart and try again.',
+          sale.per_member_cap
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    UPDATE flash_sales SET sold_count = sold_count + flash_quantity WHERE id = sale.id;
+  END LOOP;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status,
+    voucher_id,
+    voucher_code,
+    voucher_discount
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    p_payment_method_id,
+    p_receipt_url,
+    computed_total,
+    p_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending',
+    applied_voucher_id,
+    applied_voucher_code,
+    applied_discount
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO flash_sale_claims (flash_sale_id, order_id, member_id, quantity)
+  SELECT key::uuid, created.id, active_member_id, value::integer
+  FROM jsonb_each_text(flash_quantities);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text) TO anon, authenticated;
+
+-- Rejected and cancelled orders give their flash sale units back
+CREATE OR REPLACE FUNCTION release_flash_sale_claims()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('rejected', 'cancelled') AND OLD.status NOT IN ('rejected', 'cancelled') THEN
+    UPDATE flash_sales fs
+    SET sold_count = GREATEST(fs.sold_count - released.quantity, 0)
+    FROM (
+      SELECT flash_sale_id, sum(quantity)::integer AS quantity
+      FROM flash_sale_claims
+      WHERE order_id = NEW.id AND released_at IS NULL
+      GROUP BY flash_sale_id
+    ) released
+    WHERE fs.id = released.flash_sale_id;
+
+    UPDATE flash_sale_claims
+    SET released_at = now()
+    WHERE order_id = NEW.id AND released_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_flash_sale_claims ON orders;
+CREATE TRIGGER release_flash_sale_claims
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION release_flash_sale_claims();
+
+-- Units the member already holds in each live flash sale, for the per-member cap on the storefront
+CREATE OR REPLACE FUNCTION get_member_flash_sale_claims(p_member_id uuid)
+RETURNS TABLE (flash_sale_id uuid, quantity integer) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.flash_sale_id, sum(c.quantity)::integer
+  FROM flash_sale_claims c
+  JOIN flash_sales fs ON fs.id = c.flash_sale_id
+  WHERE c.member_id = p_member_id
+    AND c.released_at IS NULL
+    AND fs.ends_at > now()
+  GROUP BY c.flash_sale_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_member_flash_sale_claims(uuid) TO anon, authenticated;
@@ -0,0 +1,119 @@
+/*
+  # Per-package availability and stock
+
+  Only whole games could be marked unavailable. Packages (variations) can now be switched off on
+  their own and can optionally track stock.
+
+  1. Changes
+    - `variations.available` (boolean, default true) - package can be ordered
+    - `variations.stock` (integer, nullable) - units left; NULL means unlimited
+    - `orders.stock_deducted_at` (timestamptz, nullable) - set while the order holds stock
+
+  2. Functions / Triggers
+    - `order_variation_quantities(order_items)` - quantity per package in an order
+    - `check_order_stock` (BEFORE INSERT on orders) - new orders cannot include packages that are
+      switched off or sold out, or more units than are in stock
+    - `sync_variation_stock` (BEFORE UPDATE OF status on orders) - takes the stock when the order
+      is approved (`paid_verified`) and rejects the approval when there is not enough left; gives
+      it back when an order holding stock is rejected, cancelled or refunded
+
+  Stock is not reserved while an order is pending, so approving can fail when other orders were
+  approved first.
+*/
+
+ALTER TABLE variations
+ADD COLUMN IF NOT EXISTS available boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS stock integer CHECK (stock IS NULL OR stock >= 0);
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS stock_deducted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION order_variation_quantities(p_order_items jsonb)
+RETURNS TABLE (variation_id uuid, quantity integer) AS $$
+  SELECT (line->'selectedVariation'->>'id')::uuid, sum(COALESCE((line->>'quantity')::integer, 0))::integer
+  FROM jsonb_array_elements(COALESCE(p_order_items, '[]'::jsonb)) AS line
+  WHERE line->'selectedVariation'->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  GROUP BY 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION check_order_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT q.quantity, v.name AS variation_name, v.available, v.stock, mi.name AS item_name
+    FROM order_variation_quantities(NEW.order_items) q
+    JOIN variations v ON v.id = q.variation_id
+    JOIN menu_items mi ON mi.id = v.menu_item_id
+  LOOP
+    IF r.available IS FALSE OR r.stock = 0 THEN
+      RAISE EXCEPTION '% – % is sold out', r.item_name, r.variation_name
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF r.stock IS NOT NULL AND r.stock < r.quantity THEN
+      RAISE EXCEPTION 'Only % left of % – %. Please update your cart and try again.',
+        r.stock, r.item_name, r.variation_name
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_order_stock ON orders;
+CREATE TRIGGER check_order_stock
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_stock();
+
+-- Runs after enforce_order_status_transition (triggers fire in name order), so only valid
+-- transitions move stock
+CREATE OR REPLACE FUNCTION sync_variation_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  r record;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'paid_verified' AND NEW.stock_deducted_at IS NULL THEN
+    -- Lock the packages in id order so concurrent approvals cannot oversell
+    FOR r IN
+      SELECT v.id, v.name AS variation_name, v.stock, q.quantity, mi.name AS item_name
+      FROM variations v
+      JOIN order_variation_quantities(NEW.order_items) q ON q.variation_id = v.id
+      JOIN menu_items mi ON mi.id = v.menu_item_id
+      WHERE v.stock IS NOT NULL
+      ORDER BY v.id
+      FOR UPDATE OF v
+    LOOP
+      IF r.stock < r.quantity THEN
+        RAISE EXCEPTION 'Not enough stock to approve this order: only % left of % – %',
+          r.stock, r.item_name, r.variation_name
+          USING ERRCODE = 'check_violation';
+      END IF;
+      UPDATE variations SET stock = stock - r.quantity WHERE id = r.id;
+    END LOOP;
+
+    NEW.stock_deducted_at := now();
+  ELSIF NEW.status IN ('rejected', 'cancelled', 'refunded') AND NEW.stock_deducted_at IS NOT NULL THEN
+    UPDATE variations v
+    SET stock = v.stock + q.quantity
+    FROM order_variation_quantities(NEW.order_items) q
+    WHERE v.id = q.variation_id AND v.stock IS NOT NULL;
+
+    NEW.stock_deducted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_variation_stock ON orders;
+CREATE TRIGGER sync_variation_stock
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_variation_stock();
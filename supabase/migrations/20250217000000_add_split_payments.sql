@@ -0,0 +1,345 @@
+/*
+  # Split payments
+
+  Payment methods with a `max_order_amount` are hidden at checkout once the total reaches it, so
+  large (reseller) orders often had no usable method left. The customer can now split the total
+  across several payment methods / admin accounts, each part with its own amount and receipt.
+
+  1. Changes
+    - `orders.payment_parts` (jsonb) - empty for a single payment, otherwise one entry per part:
+      [{ "payment_method_id", "payment_method_uuid", "payment_method_name", "account_name",
+         "admin_name", "amount", "receipt_url", "verified_at", "verified_by" }, ...]
+      Parts refer to the method by `uuid_id`, since the same `id` can exist in several admin groups.
+      `orders.payment_method_id` / `receipt_url` keep the first part so existing lists and
+      filters still work.
+
+  2. Functions
+    - `create_order(...)` takes `p_payment_parts`. Every part needs an active payment method, an
+      amount below that method's `max_order_amount` and a receipt; the parts must add up to the
+      order total.
+    - `set_order_payment_verified(order_id, part_index, verified, actor)` marks one part verified
+      (or not) while the order is pending or processing. Verifying the last part approves the
+      order (paid_verified).
+
+  3. Triggers
+    - `enforce_order_payments_verified` (BEFORE UPDATE OF status) - a split order can only move to
+      paid_verified when all parts are verified
+    - `enforce_order_claim` now also protects `payment_parts` changes on claimed orders
+*/
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS payment_parts jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE OR REPLACE FUNCTION enforce_order_claim()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.claimed_by IS DISTINCT FROM OLD.claimed_by THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.claimed_by IS NOT NULL
+    AND (
+      NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.item_fulfillment IS DISTINCT FROM OLD.item_fulfillment
+      OR NEW.payment_parts IS DISTINCT FROM OLD.payment_parts
+    )
+    AND COALESCE(NEW.status_actor, '') <> OLD.claimed_by
+  THEN
+    RAISE EXCEPTION 'Order is claimed by %. Take it over to make changes.', OLD.claimed_by
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'processing' AND OLD.status IS DISTINCT FROM 'processing'
+    AND OLD.claimed_by IS NULL AND NULLIF(btrim(NEW.status_actor), '') IS NOT NULL
+  THEN
+    NEW.claimed_by := btrim(NEW.status_actor);
+    NEW.claimed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION enforce_order_payments_verified()
+RETURNS TRIGGER AS $$
+DECLARE
+  unverified_count integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status <> 'paid_verified' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO unverified_count
+  FROM jsonb_array_elements(NEW.payment_parts) AS part
+  WHERE part->>'verified_at' IS NULL;
+
+  IF unverified_count > 0 THEN
+    RAISE EXCEPTION '% of % payments are not verified yet', unverified_count, jsonb_array_length(NEW.payment_parts)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_payments_verified ON orders;
+CREATE TRIGGER enforce_order_payments_verified
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_payments_verified();
+
+-- Same as before, plus the payment parts
+DROP FUNCTION IF EXISTS create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_id uuid DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL,
+  p_voucher_code text DEFAULT NULL,
+  p_payment_parts jsonb DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  priced record;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  applied_voucher_id uuid;
+  applied_voucher_code text;
+  applied_discount numeric;
+  active_member_id uuid;
+  flash_quantities jsonb := '{}'::jsonb;
+  flash_key text;
+  flash_quantity integer;
+  sale flash_sales;
+  member_claimed integer;
+  part jsonb;
+  part_amount numeric;
+  part_method payment_methods;
+  parts jsonb := '[]'::jsonb;
+  parts_total numeric := 0;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT id INTO active_member_id FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO priced FROM price_order_line(line, p_member_id);
+    computed_total := computed_total + priced.unit_price * line_quantity;
+
+    IF priced.flash_sale_id IS NOT NULL THEN
+      flash_quantities := flash_quantities || jsonb_build_object(
+        priced.flash_sale_id::text,
+        COALESCE((flash_quantities->>priced.flash_sale_id::text)::integer, 0) + line_quantity
+      );
+    END IF;
+
+    -- Keep the line as submitted, but with the server's unit price and flash sale
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride' - 'flashSaleId')
+        || jsonb_build_object('totalPrice', priced.unit_price)
+        || CASE WHEN priced.flash_sale_id IS NOT NULL
+             THEN jsonb_build_object('flashSaleId', priced.flash_sale_id)
+             ELSE '{}'::jsonb
+           END
+    );
+  END LOOP;
+
+  IF NULLIF(btrim(COALESCE(p_voucher_code, '')), '') IS NOT NULL THEN
+    SELECT voucher_id, voucher_code, discount
+    INTO applied_voucher_id, applied_voucher_code, applied_discount
+    FROM evaluate_voucher(p_voucher_code, p_order_items, p_member_id, true);
+    computed_total := computed_total - applied_discount;
+  END IF;
+
+  IF abs(computed_total - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s', p_total_price, computed_total);
+  END IF;
+
+  -- Split payment: each part is checked against its payment method, and together they must pay
+  -- the whole order
+  IF jsonb_typeof(p_payment_parts) = 'array' AND jsonb_array_length(p_payment_parts) > 0 THEN
+    FOR part IN SELECT * FROM jsonb_array_elements(p_payment_parts) LOOP
+      SELECT * INTO part_method
+      FROM payment_methods
+      WHERE uuid_id::text = part->>'payment_method_uuid' AND active;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'A selected payment method is no longer available. Please choose another one.'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      part_amount := round(COALESCE((part->>'amount')::numeric, 0), 2);
+      IF part_amount <= 0 THEN
+        RAISE EXCEPTION 'Please enter the amount paid with %', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+      IF part_method.max_order_amount IS NOT NULL AND part_amount >= part_method.max_order_amount THEN
+        RAISE EXCEPTION 'Payments with % must be below ₱%', part_method.name, part_method.max_order_amount
+          USING ERRCODE = 'check_violation';
+      END IF;
+      IF NULLIF(btrim(COALESCE(part->>'receipt_url', '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Please upload the receipt for your % payment', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      parts_total := parts_total + part_amount;
+      parts := parts || jsonb_build_array(jsonb_build_object(
+        'payment_method_id', part_method.id,
+        'payment_method_uuid', part_method.uuid_id,
+        'payment_method_name', part_method.name,
+        'account_name', part_method.account_name,
+        'admin_name', part_method.admin_name,
+        'amount', part_amount,
+        'receipt_url', part->>'receipt_url',
+        'verified_at', NULL,
+        'verified_by', NULL
+      ));
+    END LOOP;
+
+    IF abs(parts_total - computed_total) > 0.01 THEN
+      RAISE EXCEPTION 'Your payments add up to ₱% but the order total is ₱%', parts_total, computed_total
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Take the flash sale units with the sale rows locked (in id order) so concurrent orders cannot
+  -- oversell the caps
+  FOR flash_key, flash_quantity IN
+    SELECT key, value::integer FROM jsonb_each_text(flash_quantities) ORDER BY key
+  LOOP
+    SELECT * INTO sale FROM flash_sales WHERE id = flash_key::uuid FOR UPDATE;
+
+    IF sale.sold_count + flash_quantity > sale.quantity_cap THEN
+      RAISE EXCEPTION 'Only % left in the flash sale. Please update your cart and try again.',
+        GREATEST(sale.quantity_cap - sale.sold_count, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF sale.per_member_cap IS NOT NULL THEN
+      SELECT COALESCE(sum(quantity), 0) INTO member_claimed
+      FROM flash_sale_claims
+      WHERE flash_sale_id = sale.id AND member_id = active_member_id AND released_at IS NULL;
+      IF member_claimed + flash_quantity > sale.per_member_cap THEN
+        RAISE EXCEPTION 'The flash sale is limited to % per customer. Please update your cart and try again.',
+          sale.per_member_cap
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    UPDATE flash_sales SET sold_count = sold_count + flash_quantity WHERE id = sale.id;
+  END LOOP;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    payment_parts,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status,
+    voucher_id,
+    voucher_code,
+    voucher_discount
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    COALESCE(parts->0->>'payment_method_id', p_payment_method_id),
+    COALESCE(parts->0->>'receipt_url', p_receipt_url),
+    parts,
+    computed_total,
+    p_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending',
+    applied_voucher_id,
+    applied_voucher_code,
+    applied_discount
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO flash_sale_claims (flash_sale_id, order_id, member_id, quantity)
+  SELECT key::uuid, created.id, active_member_id, value::integer
+  FROM jsonb_each_text(flash_quantities);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text, jsonb) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_order_payment_verified(
+  p_order_id uuid,
+  p_part_index integer,
+  p_verified boolean,
+  p_actor text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+  part_count integer;
+  unverified_count integer;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Payments can only be verified before the order is approved (order is %)', target.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  part_count := jsonb_array_length(target.payment_parts);
+  IF p_part_index < 0 OR p_part_index >= part_count THEN
+    RAISE EXCEPTION 'Order has no payment %', p_part_index USING ERRCODE = 'check_violation';
+  END IF;
+
+  target.payment_parts := jsonb_set(
+    target.payment_parts,
+    ARRAY[p_part_index::text],
+    (target.payment_parts->p_part_index) || CASE
+      WHEN p_verified THEN jsonb_build_object('verified_at', now(), 'verified_by', COALESCE(p_actor, 'admin'))
+      ELSE jsonb_build_object('verified_at', NULL, 'verified_by', NULL)
+    END
+  );
+
+  SELECT count(*) INTO unverified_count
+  FROM jsonb_array_elements(target.payment_parts) AS part
+  WHERE part->>'verified_at' IS NULL;
+
+  UPDATE orders
+  SET
+    payment_parts = target.payment_parts,
+    status = CASE WHEN unverified_count = 0 THEN 'paid_verified' ELSE status END,
+    status_actor = COALESCE(p_actor, 'admin')
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_order_payment_verified(uuid, integer, boolean, text) TO anon, authenticated;
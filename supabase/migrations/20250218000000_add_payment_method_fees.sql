@@ -0,0 +1,263 @@
+/*
+  # Payment method fees
+
+  Some channels (bank transfer, certain e-wallets) cost us a fee. Payment methods can now charge
+  the customer a convenience fee: a fixed amount, a percentage of the amount paid with the method,
+  or both.
+
+  1. Changes
+    - `payment_methods.fee_fixed` (numeric, default 0) - fixed fee in PHP
+    - `payment_methods.fee_percent` (numeric, default 0) - percentage of the amount paid
+    - `orders.payment_fee` (numeric, default 0) - fee charged on the order. `total_price` includes
+      it, so sales are `total_price - payment_fee`.
+    - Split payment parts also store their `fee`; their `amount` is what the customer sends
+      (the share of the order plus the fee).
+
+  2. Functions
+    - `get_payment_fee(fee_fixed, fee_percent, amount)` - fee for paying `amount` with a method,
+      rounded to centavos
+    - `create_order(...)` adds the fee of the payment method (or of every split part) to the total
+      and takes `p_payment_method_uuid` to find the exact method, since the same id can exist in
+      several admin groups. Fees apply to the amount after the voucher discount. A split part
+      plus its fee has to stay below the method's `max_order_amount`, and a single payment
+      method has to be active.
+*/
+
+ALTER TABLE payment_methods
+ADD COLUMN IF NOT EXISTS fee_fixed numeric(10,2) NOT NULL DEFAULT 0 CHECK (fee_fixed >= 0),
+ADD COLUMN IF NOT EXISTS fee_percent numeric(5,2) NOT NULL DEFAULT 0 CHECK (fee_percent >= 0 AND fee_percent <= 100);
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS payment_fee numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION get_payment_fee(p_fee_fixed numeric, p_fee_percent numeric, p_amount numeric)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN COALESCE(p_amount, 0) <= 0 THEN 0
+    ELSE round(COALESCE(p_fee_fixed, 0) + p_amount * COALESCE(p_fee_percent, 0) / 100, 2)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as before, plus the payment fee
+DROP FUNCTION IF EXISTS create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_id uuid DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL,
+  p_voucher_code text DEFAULT NULL,
+  p_payment_parts jsonb DEFAULT NULL,
+  p_payment_method_uuid uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  priced record;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  applied_voucher_id uuid;
+  applied_voucher_code text;
+  applied_discount numeric;
+  active_member_id uuid;
+  flash_quantities jsonb := '{}'::jsonb;
+  flash_key text;
+  flash_quantity integer;
+  sale flash_sales;
+  member_claimed integer;
+  part jsonb;
+  part_amount numeric;
+  part_method payment_methods;
+  parts jsonb := '[]'::jsonb;
+  parts_total numeric := 0;
+  part_fee numeric;
+  order_method payment_methods;
+  order_fee numeric := 0;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT id INTO active_member_id FROM members WHERE id = p_member_id AND status = 'active';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO priced FROM price_order_line(line, p_member_id);
+    computed_total := computed_total + priced.unit_price * line_quantity;
+
+    IF priced.flash_sale_id IS NOT NULL THEN
+      flash_quantities := flash_quantities || jsonb_build_object(
+        priced.flash_sale_id::text,
+        COALESCE((flash_quantities->>priced.flash_sale_id::text)::integer, 0) + line_quantity
+      );
+    END IF;
+
+    -- Keep the line as submitted, but with the server's unit price and flash sale
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride' - 'flashSaleId')
+        || jsonb_build_object('totalPrice', priced.unit_price)
+        || CASE WHEN priced.flash_sale_id IS NOT NULL
+             THEN jsonb_build_object('flashSaleId', priced.flash_sale_id)
+             ELSE '{}'::jsonb
+           END
+    );
+  END LOOP;
+
+  IF NULLIF(btrim(COALESCE(p_voucher_code, '')), '') IS NOT NULL THEN
+    SELECT voucher_id, voucher_code, discount
+    INTO applied_voucher_id, applied_voucher_code, applied_discount
+    FROM evaluate_voucher(p_voucher_code, p_order_items, p_member_id, true);
+    computed_total := computed_total - applied_discount;
+  END IF;
+
+  -- Split payment: each part is checked against its payment method, and together they must pay
+  -- the whole order. Every part adds its method's fee on top of the amount it covers.
+  IF jsonb_typeof(p_payment_parts) = 'array' AND jsonb_array_length(p_payment_parts) > 0 THEN
+    FOR part IN SELECT * FROM jsonb_array_elements(p_payment_parts) LOOP
+      SELECT * INTO part_method
+      FROM payment_methods
+      WHERE uuid_id::text = part->>'payment_method_uuid' AND active;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'A selected payment method is no longer available. Please choose another one.'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      part_amount := round(COALESCE((part->>'amount')::numeric, 0), 2);
+      IF part_amount <= 0 THEN
+        RAISE EXCEPTION 'Please enter the amount paid with %', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+      -- The customer sends the part plus its fee, so that is what has to stay below the limit
+      part_fee := get_payment_fee(part_method.fee_fixed, part_method.fee_percent, part_amount);
+      IF part_method.max_order_amount IS NOT NULL AND part_amount + part_fee >= part_method.max_order_amount THEN
+        RAISE EXCEPTION 'Payments with % must be below ₱% (fee included)', part_method.name, part_method.max_order_amount
+          USING ERRCODE = 'check_violation';
+      END IF;
+      IF NULLIF(btrim(COALESCE(part->>'receipt_url', '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Please upload the receipt for your % payment', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      parts_total := parts_total + part_amount;
+      order_fee := order_fee + part_fee;
+      parts := parts || jsonb_build_array(jsonb_build_object(
+        'payment_method_id', part_method.id,
+        'payment_method_uuid', part_method.uuid_id,
+        'payment_method_name', part_method.name,
+        'account_name', part_method.account_name,
+        'admin_name', part_method.admin_name,
+        'amount', part_amount + part_fee,
+        'fee', part_fee,
+        'receipt_url', part->>'receipt_url',
+        'verified_at', NULL,
+        'verified_by', NULL
+      ));
+    END LOOP;
+
+    IF abs(parts_total - computed_total) > 0.01 THEN
+      RAISE EXCEPTION 'Your payments add up to ₱% but the order total is ₱%', parts_total, computed_total
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    -- The same id can exist in several admin groups; prefer the exact method when it is given
+    SELECT * INTO order_method
+    FROM payment_methods
+    WHERE CASE WHEN p_payment_method_uuid IS NOT NULL THEN uuid_id = p_payment_method_uuid ELSE id = p_payment_method_id END
+    AND active
+    LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The selected payment method is no longer available. Please choose another one.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    order_fee := get_payment_fee(order_method.fee_fixed, order_method.fee_percent, computed_total);
+  END IF;
+
+  IF abs(computed_total + order_fee - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s (payment fee %s)', p_total_price, computed_total + order_fee, order_fee);
+  END IF;
+
+  -- Take the flash sale units with the sale rows locked (in id order) so concurrent orders cannot
+  -- oversell the caps
+  FOR flash_key, flash_quantity IN
+    SELECT key, value::integer FROM jsonb_each_text(flash_quantities) ORDER BY key
+  LOOP
+    SELECT * INTO sale FROM flash_sales WHERE id = flash_key::uuid FOR UPDATE;
+
+    IF sale.sold_count + flash_quantity > sale.quantity_cap THEN
+      RAISE EXCEPTION 'Only % left in the flash sale. Please update your cart and try again.',
+        GREATEST(sale.quantity_cap - sale.sold_count, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF sale.per_member_cap IS NOT NULL THEN
+      SELECT COALESCE(sum(quantity), 0) INTO member_claimed
+      FROM flash_sale_claims
+      WHERE flash_sale_id = sale.id AND member_id = active_member_id AND released_at IS NULL;
+      IF member_claimed + flash_quantity > sale.per_member_cap THEN
+        RAISE EXCEPTION 'The flash sale is limited to % per customer. Please update your cart and try again.',
+          sale.per_member_cap
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    UPDATE flash_sales SET sold_count = sold_count + flash_quantity WHERE id = sale.id;
+  END LOOP;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    payment_parts,
+    payment_fee,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status,
+    voucher_id,
+    voucher_code,
+    voucher_discount
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    COALESCE(parts->0->>'payment_method_id', p_payment_method_id),
+    COALESCE(parts->0->>'receipt_url', p_receipt_url),
+    parts,
+    order_fee,
+    computed_total + order_fee,
+    p_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending',
+    applied_voucher_id,
+    applied_voucher_code,
+    applied_discount
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO flash_sale_claims (flash_sale_id, order_id, member_id, quantity)
+  SELECT key::uuid, created.id, active_member_id, value::integer
+  FROM jsonb_each_text(flash_quantities);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text, jsonb, uuid) TO anon, authenticated;
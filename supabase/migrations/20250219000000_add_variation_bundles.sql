@@ -0,0 +1,98 @@
+/*
+  # Bundle packages
+
+  A package (variation) can now be a bundle of other packages of the same game, e.g.
+  "Weekly Pass x4 + 500 Diamonds". The bundle is sold as one package at its own price; staff
+  deliver the packages it contains.
+
+  1. Changes
+    - `variations.bundle_items` (jsonb, default '[]') - packages in the bundle:
+      `[{ "variation_id": uuid, "quantity": integer }]`. Empty for regular packages.
+
+  2. Functions / Triggers
+    - `attach_order_bundle_items` (BEFORE INSERT on orders) - copies the contents of every bundle
+      in the order onto its line as `bundleItems` (`[{ variationId, name, quantity }]`, quantity
+      per bundle). Rejects the order when a package in a bundle was removed. Fires before
+      `check_order_stock` (triggers fire in name order).
+    - `order_variation_quantities(order_items)` - also counts the packages inside bundles, so
+      stock is checked, taken and given back for them (and for the bundle itself when it tracks
+      stock)
+
+  Bundles are priced like any other package; the contents stored on the order do not change when
+  the bundle is edited later.
+*/
+
+ALTER TABLE variations
+ADD COLUMN IF NOT EXISTS bundle_items jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(bundle_items) = 'array');
+
+CREATE OR REPLACE FUNCTION attach_order_bundle_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  line jsonb;
+  component record;
+  contents jsonb;
+  lines jsonb := '[]'::jsonb;
+BEGIN
+  FOR line IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.order_items, '[]'::jsonb)) LOOP
+    contents := '[]'::jsonb;
+
+    IF line->'selectedVariation'->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      FOR component IN
+        SELECT v.name AS bundle_name, c.id, c.name, GREATEST(COALESCE((e.item->>'quantity')::integer, 1), 1) AS quantity
+        FROM variations v
+        CROSS JOIN LATERAL jsonb_array_elements(v.bundle_items) WITH ORDINALITY AS e(item, item_order)
+        LEFT JOIN variations c ON c.id::text = e.item->>'variation_id'
+        WHERE v.id = (line->'selectedVariation'->>'id')::uuid
+        ORDER BY e.item_order
+      LOOP
+        IF component.id IS NULL THEN
+          RAISE EXCEPTION '% – % is no longer available', COALESCE(line->>'name', 'An item'), component.bundle_name
+            USING ERRCODE = 'check_violation';
+        END IF;
+        contents := contents || jsonb_build_array(
+          jsonb_build_object('variationId', component.id, 'name', component.name, 'quantity', component.quantity)
+        );
+      END LOOP;
+    END IF;
+
+    -- Contents always come from the database, never from the submitted line
+    lines := lines || jsonb_build_array(
+      CASE WHEN jsonb_array_length(contents) > 0
+        THEN line || jsonb_build_object('bundleItems', contents)
+        ELSE line - 'bundleItems'
+      END
+    );
+  END LOOP;
+
+  NEW.order_items := lines;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_order_bundle_items ON orders;
+CREATE TRIGGER attach_order_bundle_items
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_order_bundle_items();
+
+-- Same result columns as before, plus the packages inside bundles
+CREATE OR REPLACE FUNCTION order_variation_quantities(p_order_items jsonb)
+RETURNS TABLE (variation_id uuid, quantity integer) AS $$
+  SELECT q.line_variation_id, sum(q.line_quantity)::integer
+  FROM (
+    SELECT (line->'selectedVariation'->>'id')::uuid AS line_variation_id,
+           COALESCE((line->>'quantity')::integer, 0) AS line_quantity
+    FROM jsonb_array_elements(COALESCE(p_order_items, '[]'::jsonb)) AS line
+    WHERE line->'selectedVariation'->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+
+    UNION ALL
+
+    SELECT (item->>'variationId')::uuid,
+           COALESCE((line->>'quantity')::integer, 0) * COALESCE((item->>'quantity')::integer, 0)
+    FROM jsonb_array_elements(COALESCE(p_order_items, '[]'::jsonb)) AS line
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(line->'bundleItems', '[]'::jsonb)) AS item
+    WHERE item->>'variationId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  ) q
+  GROUP BY 1;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,382 @@
+/*
+  # Server-side member authentication
+
+  Member passwords used to be hashed with unsalted SHA-256 in the browser, checked against the
+  `password_hash` read from the members table, and the "session" was the member id in
+  localStorage. Accounts are now handled by the `member-auth` edge function:
+
+  - Passwords are hashed with salted PBKDF2-SHA256 (`pbkdf2_sha256$<iterations>$<salt>$<hash>`).
+    Old SHA-256 hashes keep working and are replaced with a PBKDF2 hash at the member's next login.
+  - Logging in or registering opens a session: a random token that expires after 30 days. Only
+    the SHA-256 of the token is stored, so a leaked table cannot be used to log in.
+
+  1. New Tables
+    - `member_sessions`
+      - `id` (uuid, primary key)
+      - `member_id` (uuid, foreign key) - logged in member
+      - `token_hash` (text, unique) - hex SHA-256 of the session token
+      - `expires_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - `member_sessions` has RLS and no policies; only the edge function (service role) uses it
+    - Members are no longer inserted from the browser ("Anyone can register as member" dropped)
+    - `members.password_hash` can no longer be read or written by anon/authenticated (column
+      grants); the other columns stay as they were
+
+  3. Functions
+    - `member_session_member_id(token)` - active member of an unexpired session, or null.
+      Internal; not callable from the API.
+    - `create_order(...)`, `validate_voucher(...)` and `get_member_flash_sale_claims(...)` take the
+      session token (`p_member_session`) instead of a member id, so member prices, vouchers and
+      flash sale caps can no longer be claimed by sending someone else's id. `create_order` rejects
+      an expired session instead of placing the order as a guest.
+    - `cancel_order_by_customer(...)` also takes `p_member_session`: a member's order can only be
+      cancelled with that member's session. Guest orders still need a matching contact or IGN.
+*/
+
+CREATE TABLE IF NOT EXISTS member_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id uuid NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_sessions_member_id ON member_sessions(member_id);
+
+ALTER TABLE member_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can register as member" ON members;
+
+REVOKE SELECT, INSERT, UPDATE ON members FROM anon, authenticated;
+GRANT SELECT (id, username, email, mobile_no, level, status, user_type, created_at, updated_at) ON members TO anon, authenticated;
+GRANT UPDATE (username, email, mobile_no, level, status, user_type) ON members TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION member_session_member_id(p_session text)
+RETURNS uuid AS $$
+  SELECT s.member_id
+  FROM member_sessions s
+  JOIN members m ON m.id = s.member_id
+  WHERE s.token_hash = encode(sha256(convert_to(p_session, 'UTF8')), 'hex')
+    AND s.expires_at > now()
+    AND m.status = 'active';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION member_session_member_id(text) FROM PUBLIC, anon, authenticated;
+
+-- Same as before; the member comes from the session
+DROP FUNCTION IF EXISTS validate_voucher(text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION validate_voucher(p_code text, p_order_items jsonb, p_member_session text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  result record;
+BEGIN
+  SELECT * INTO result FROM evaluate_voucher(p_code, p_order_items, member_session_member_id(p_member_session));
+
+  RETURN jsonb_build_object(
+    'voucher_id', result.voucher_id,
+    'code', result.voucher_code,
+    'description', result.voucher_description,
+    'discount', result.discount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION validate_voucher(text, jsonb, text) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS get_member_flash_sale_claims(uuid);
+
+CREATE OR REPLACE FUNCTION get_member_flash_sale_claims(p_member_session text)
+RETURNS TABLE (flash_sale_id uuid, quantity integer) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.flash_sale_id, sum(c.quantity)::integer
+  FROM flash_sale_claims c
+  JOIN flash_sales fs ON fs.id = c.flash_sale_id
+  WHERE c.member_id = member_session_member_id(p_member_session)
+    AND c.released_at IS NULL
+    AND fs.ends_at > now()
+  GROUP BY c.flash_sale_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_member_flash_sale_claims(text) TO anon, authenticated;
+
+-- Same as before; p_member_id is replaced by the session token
+DROP FUNCTION IF EXISTS create_order(jsonb, jsonb, text, text, numeric, uuid, text, text, text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION create_order(
+  p_order_items jsonb,
+  p_customer_info jsonb,
+  p_payment_method_id text,
+  p_receipt_url text,
+  p_total_price numeric,
+  p_member_session text DEFAULT NULL,
+  p_order_option text DEFAULT 'place_order',
+  p_invoice_number text DEFAULT NULL,
+  p_voucher_code text DEFAULT NULL,
+  p_payment_parts jsonb DEFAULT NULL,
+  p_payment_method_uuid uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  line jsonb;
+  line_quantity integer;
+  priced record;
+  priced_items jsonb := '[]'::jsonb;
+  computed_total numeric := 0;
+  applied_voucher_id uuid;
+  applied_voucher_code text;
+  applied_discount numeric;
+  active_member_id uuid;
+  flash_quantities jsonb := '{}'::jsonb;
+  flash_key text;
+  flash_quantity integer;
+  sale flash_sales;
+  member_claimed integer;
+  part jsonb;
+  part_amount numeric;
+  part_method payment_methods;
+  parts jsonb := '[]'::jsonb;
+  parts_total numeric := 0;
+  part_fee numeric;
+  order_method payment_methods;
+  order_fee numeric := 0;
+  created orders;
+BEGIN
+  IF jsonb_typeof(p_order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The member comes from the session, never from the request
+  IF p_member_session IS NOT NULL THEN
+    active_member_id := member_session_member_id(p_member_session);
+    IF active_member_id IS NULL THEN
+      RAISE EXCEPTION 'Your session has expired. Please log in again.'
+        USING ERRCODE = 'invalid_authorization_specification';
+    END IF;
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_order_items) LOOP
+    line_quantity := COALESCE((line->>'quantity')::integer, 0);
+    IF line_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', COALESCE(line->>'name', 'an item')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO priced FROM price_order_line(line, active_member_id);
+    computed_total := computed_total + priced.unit_price * line_quantity;
+
+    IF priced.flash_sale_id IS NOT NULL THEN
+      flash_quantities := flash_quantities || jsonb_build_object(
+        priced.flash_sale_id::text,
+        COALESCE((flash_quantities->>priced.flash_sale_id::text)::integer, 0) + line_quantity
+      );
+    END IF;
+
+    -- Keep the line as submitted, but with the server's unit price and flash sale
+    priced_items := priced_items || jsonb_build_array(
+      (line - 'effectiveUnitPriceOverride' - 'flashSaleId')
+        || jsonb_build_object('totalPrice', priced.unit_price)
+        || CASE WHEN priced.flash_sale_id IS NOT NULL
+             THEN jsonb_build_object('flashSaleId', priced.flash_sale_id)
+             ELSE '{}'::jsonb
+           END
+    );
+  END LOOP;
+
+  IF NULLIF(btrim(COALESCE(p_voucher_code, '')), '') IS NOT NULL THEN
+    SELECT voucher_id, voucher_code, discount
+    INTO applied_voucher_id, applied_voucher_code, applied_discount
+    FROM evaluate_voucher(p_voucher_code, p_order_items, active_member_id, true);
+    computed_total := computed_total - applied_discount;
+  END IF;
+
+  -- Split payment: each part is checked against its payment method, and together they must pay
+  -- the whole order. Every part adds its method's fee on top of the amount it covers.
+  IF jsonb_typeof(p_payment_parts) = 'array' AND jsonb_array_length(p_payment_parts) > 0 THEN
+    FOR part IN SELECT * FROM jsonb_array_elements(p_payment_parts) LOOP
+      SELECT * INTO part_method
+      FROM payment_methods
+      WHERE uuid_id::text = part->>'payment_method_uuid' AND active;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'A selected payment method is no longer available. Please choose another one.'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      part_amount := round(COALESCE((part->>'amount')::numeric, 0), 2);
+      IF part_amount <= 0 THEN
+        RAISE EXCEPTION 'Please enter the amount paid with %', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+      -- The customer sends the part plus its fee, so that is what has to stay below the limit
+      part_fee := get_payment_fee(part_method.fee_fixed, part_method.fee_percent, part_amount);
+      IF part_method.max_order_amount IS NOT NULL AND part_amount + part_fee >= part_method.max_order_amount THEN
+        RAISE EXCEPTION 'Payments with % must be below ₱% (fee included)', part_method.name, part_method.max_order_amount
+          USING ERRCODE = 'check_violation';
+      END IF;
+      IF NULLIF(btrim(COALESCE(part->>'receipt_url', '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Please upload the receipt for your % payment', part_method.name
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      parts_total := parts_total + part_amount;
+      order_fee := order_fee + part_fee;
+      parts := parts || jsonb_build_array(jsonb_build_object(
+        'payment_method_id', part_method.id,
+        'payment_method_uuid', part_method.uuid_id,
+        'payment_method_name', part_method.name,
+        'account_name', part_method.account_name,
+        'admin_name', part_method.admin_name,
+        'amount', part_amount + part_fee,
+        'fee', part_fee,
+        'receipt_url', part->>'receipt_url',
+        'verified_at', NULL,
+        'verified_by', NULL
+      ));
+    END LOOP;
+
+    IF abs(parts_total - computed_total) > 0.01 THEN
+      RAISE EXCEPTION 'Your payments add up to ₱% but the order total is ₱%', parts_total, computed_total
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSE
+    -- The same id can exist in several admin groups; prefer the exact method when it is given
+    SELECT * INTO order_method
+    FROM payment_methods
+    WHERE CASE WHEN p_payment_method_uuid IS NOT NULL THEN uuid_id = p_payment_method_uuid ELSE id = p_payment_method_id END
+    AND active
+    LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The selected payment method is no longer available. Please choose another one.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    order_fee := get_payment_fee(order_method.fee_fixed, order_method.fee_percent, computed_total);
+  END IF;
+
+  IF abs(computed_total + order_fee - round(COALESCE(p_total_price, 0), 2)) > 0.01 THEN
+    RAISE EXCEPTION 'The prices in your cart have changed. Please review your cart and try again.'
+      USING ERRCODE = 'check_violation',
+            DETAIL = format('Submitted total %s, current total %s (payment fee %s)', p_total_price, computed_total + order_fee, order_fee);
+  END IF;
+
+  -- Take the flash sale units with the sale rows locked (in id order) so concurrent orders cannot
+  -- oversell the caps
+  FOR flash_key, flash_quantity IN
+    SELECT key, value::integer FROM jsonb_each_text(flash_quantities) ORDER BY key
+  LOOP
+    SELECT * INTO sale FROM flash_sales WHERE id = flash_key::uuid FOR UPDATE;
+
+    IF sale.sold_count + flash_quantity > sale.quantity_cap THEN
+      RAISE EXCEPTION 'Only % left in the flash sale. Please update your cart and try again.',
+        GREATEST(sale.quantity_cap - sale.sold_count, 0)
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF sale.per_member_cap IS NOT NULL THEN
+      SELECT COALESCE(sum(quantity), 0) INTO member_claimed
+      FROM flash_sale_claims
+      WHERE flash_sale_id = sale.id AND member_id = active_member_id AND released_at IS NULL;
+      IF member_claimed + flash_quantity > sale.per_member_cap THEN
+        RAISE EXCEPTION 'The flash sale is limited to % per customer. Please update your cart and try again.',
+          sale.per_member_cap
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    UPDATE flash_sales SET sold_count = sold_count + flash_quantity WHERE id = sale.id;
+  END LOOP;
+
+  INSERT INTO orders (
+    order_items,
+    customer_info,
+    payment_method_id,
+    receipt_url,
+    payment_parts,
+    payment_fee,
+    total_price,
+    member_id,
+    order_option,
+    invoice_number,
+    status,
+    voucher_id,
+    voucher_code,
+    voucher_discount
+  )
+  VALUES (
+    priced_items,
+    p_customer_info,
+    COALESCE(parts->0->>'payment_method_id', p_payment_method_id),
+    COALESCE(parts->0->>'receipt_url', p_receipt_url),
+    parts,
+    order_fee,
+    computed_total + order_fee,
+    active_member_id,
+    COALESCE(p_order_option, 'place_order'),
+    p_invoice_number,
+    'pending',
+    applied_voucher_id,
+    applied_voucher_code,
+    applied_discount
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO flash_sale_claims (flash_sale_id, order_id, member_id, quantity)
+  SELECT key::uuid, created.id, active_member_id, value::integer
+  FROM jsonb_each_text(flash_quantities);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order(jsonb, jsonb, text, text, numeric, text, text, text, text, jsonb, uuid) TO anon, authenticated;
+
+-- Same as before; member orders are proven by the member's session instead of a contact
+DROP FUNCTION IF EXISTS cancel_order_by_customer(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION cancel_order_by_customer(
+  p_order_id uuid,
+  p_reason text DEFAULT NULL,
+  p_contact text DEFAULT NULL,
+  p_member_session text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  target orders;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.member_id IS NOT NULL THEN
+    IF member_session_member_id(p_member_session) IS DISTINCT FROM target.member_id THEN
+      RAISE EXCEPTION 'Log in to the account that placed this order to cancel it'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT order_contact_matches(target, p_contact) THEN
+    RAISE EXCEPTION 'Enter the IGN or contact you used for this order'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF target.status <> 'pending' OR target.claimed_by IS NOT NULL THEN
+    RAISE EXCEPTION 'This order is already being processed and can no longer be cancelled'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE orders
+  SET
+    status = 'cancelled',
+    status_actor = 'customer',
+    rejection_message = NULLIF(btrim(COALESCE(p_reason, '')), ''),
+    customer_cancelled_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_order_by_customer(uuid, text, text, text) TO anon, authenticated;
@@ -0,0 +1,167 @@
+/*
+  # Member email verification and password reset
+
+  Members can now reset a forgotten password and have to confirm their email address. Both work
+  with one-time links sent by the `member-auth` edge function through its mail transport (SMTP,
+  or a console / file stand-in for development; see supabase/functions/member-auth/README.md).
+
+  1. Changes
+    - `members.email_verified_at` (timestamptz, nullable) - when the member confirmed their email.
+      Existing members start unverified and get a link from their profile.
+
+  2. New Tables
+    - `member_tokens`
+      - `id` (uuid, primary key)
+      - `member_id` (uuid, foreign key)
+      - `purpose` (text) - verify_email, reset_password
+      - `token_hash` (text, unique) - hex SHA-256 of the token in the link
+      - `expires_at` (timestamptz) - 48 hours for verification, 1 hour for password reset
+      - `used_at` (timestamptz, nullable) - set when the link is used; links work once
+      - `created_at` (timestamptz)
+
+  3. Security
+    - `member_tokens` has RLS and no policies; only the edge function (service role) uses it
+    - `members.email_verified_at` is readable like the other member columns but can only be set
+      by the edge function
+
+  4. Functions / Triggers
+    - `reset_member_email_verification` (BEFORE UPDATE OF email on members) - clears
+      `email_verified_at` when the email changes
+    - `price_order_line(...)` prices a reseller who has not verified their email like any other
+      member (no reseller_price or member_discounts selling price). The storefront does the same
+      (hasResellerPricing in src/lib/pricing.ts).
+*/
+
+ALTER TABLE members
+ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS member_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id uuid NOT NULL REFERENCES members(id) ON DELETE CASCADE,
+  purpose text NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_tokens_member_id ON member_tokens(member_id);
+
+ALTER TABLE member_tokens ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT (email_verified_at) ON members TO anon, authenticated;
+
+-- A changed email address has to be confirmed again
+CREATE OR REPLACE FUNCTION reset_member_email_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.email_verified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_member_email_verification ON members;
+CREATE TRIGGER reset_member_email_verification
+  BEFORE UPDATE OF email ON members
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_member_email_verification();
+
+-- Same as before, plus the verification check for reseller prices
+CREATE OR REPLACE FUNCTION price_order_line(
+  p_line jsonb,
+  p_member_id uuid,
+  OUT unit_price numeric,
+  OUT flash_sale_id uuid
+) AS $$
+DECLARE
+  menu_item_key text;
+  item menu_items;
+  variation variations;
+  member members;
+  member_selling_price numeric;
+  variation_price numeric;
+  sale flash_sales;
+  add_on jsonb;
+  add_on_price numeric;
+  add_on_quantity integer;
+BEGIN
+  -- Cart line ids are "<menu item id>:::CART:::<suffix>"
+  menu_item_key := split_part(COALESCE(p_line->>'id', ''), ':::CART:::', 1);
+  IF menu_item_key !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RAISE EXCEPTION 'Unknown item in order' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO item FROM menu_items WHERE id = menu_item_key::uuid;
+  IF NOT FOUND OR item.available IS FALSE THEN
+    RAISE EXCEPTION '% is no longer available', COALESCE(p_line->>'name', 'An item')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_member_id IS NOT NULL THEN
+    SELECT * INTO member FROM members WHERE id = p_member_id AND status = 'active';
+    -- Resellers get member prices until they verify their email
+    IF member.user_type = 'reseller' AND member.email_verified_at IS NULL THEN
+      member.user_type := 'end_user';
+    END IF;
+  END IF;
+
+  unit_price := COALESCE(item.base_price, 0);
+
+  IF p_line->'selectedVariation'->>'id' IS NOT NULL THEN
+    SELECT * INTO variation
+    FROM variations
+    WHERE id::text = p_line->'selectedVariation'->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% – % is no longer available', item.name, COALESCE(p_line->'selectedVariation'->>'name', 'package')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF member.user_type = 'reseller' THEN
+      SELECT selling_price INTO member_selling_price
+      FROM member_discounts
+      WHERE member_id = member.id AND menu_item_id = item.id AND variation_id = variation.id;
+    END IF;
+
+    -- Same priority as getVariationPriceForMember (src/lib/pricing.ts)
+    variation_price := CASE
+      WHEN member.user_type = 'reseller' AND variation.reseller_price IS NOT NULL THEN variation.reseller_price
+      WHEN member.user_type = 'end_user' AND variation.member_price IS NOT NULL THEN variation.member_price
+      WHEN member.user_type = 'reseller' AND COALESCE(member_selling_price, 0) > 0 THEN member_selling_price
+      WHEN is_discount_active(item.discount_active, item.discount_start_date, item.discount_end_date)
+        AND item.discount_price IS NOT NULL THEN variation.price - variation.price * item.discount_price
+      ELSE variation.price
+    END;
+
+    -- A flash sale only applies when it beats the customer's own price
+    sale := get_live_flash_sale(variation.id, member.id);
+    IF sale.id IS NOT NULL AND sale.sale_price < variation_price THEN
+      variation_price := sale.sale_price;
+      flash_sale_id := sale.id;
+    END IF;
+
+    unit_price := unit_price + variation_price;
+  END IF;
+
+  FOR add_on IN SELECT * FROM jsonb_array_elements(COALESCE(p_line->'selectedAddOns', '[]'::jsonb)) LOOP
+    SELECT price INTO add_on_price
+    FROM add_ons
+    WHERE id::text = add_on->>'id' AND menu_item_id = item.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Add-on % is no longer available', COALESCE(add_on->>'name', '')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    add_on_quantity := COALESCE((add_on->>'quantity')::integer, 1);
+    IF add_on_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid add-on quantity' USING ERRCODE = 'check_violation';
+    END IF;
+    unit_price := unit_price + add_on_price * add_on_quantity;
+  END LOOP;
+
+  unit_price := round(unit_price, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION price_order_line(jsonb, uuid) FROM PUBLIC, anon, authenticated;
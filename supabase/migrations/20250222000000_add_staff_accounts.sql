@@ -0,0 +1,341 @@
+/*
+  # Staff accounts with roles
+
+  The admin dashboard used one shared password kept in site_settings (readable by anyone) and
+  every write policy allowed any authenticated user. Staff now log in with their own Supabase Auth
+  account (email + password), and what they can change is decided by the role on that account:
+
+    - owner   - everything, including staff accounts, members (and their prices) and site settings
+    - manager - games and packages, categories, payment methods, vouchers and flash sales
+    - cashier - orders only
+
+  The dashboard only shows the tabs of the role (src/lib/staffRoles.ts), but the policies below
+  are what enforce it.
+
+  1. New Tables
+    - `staff_accounts`
+      - `user_id` (uuid, primary key, foreign key to auth.users)
+      - `display_name` (text, unique ignoring case) - shown on orders as the claim / actor name
+      - `role` (text) - owner, manager, cashier
+      - `active` (boolean) - inactive accounts keep their login but lose all staff access
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Functions
+    - `current_staff_role()` - role of the logged-in staff account, NULL for customers and
+      inactive accounts
+    - `has_staff_role(VARIADIC roles)` - used by the policies
+    - `current_staff_name()` - display name of the logged-in staff account
+
+  3. Triggers
+    - `apply_staff_actor` (BEFORE UPDATE on orders) - orders changed by a staff account record
+      that account's name as `status_actor` (and `claimed_by` when claiming), whatever name the
+      browser sent. Named so it runs before `enforce_order_claim`.
+    - `keep_staff_owner` (BEFORE UPDATE OR DELETE on staff_accounts) - the last active owner
+      cannot be demoted, deactivated or deleted
+
+  4. Security
+    - The "Authenticated users can manage ..." policies are replaced with role checks
+    - The public `admin_password` policies and setting are removed
+    - `admin_payment_groups` gets RLS (public read, owner / manager manage)
+    - Storage: uploading, replacing and deleting `menu-images` is limited to owners and managers,
+      `site-logo` and `hero-images` to owners. Reading stays public (the storefront shows them).
+    - Every staff role can read all payment methods (the public only sees active ones)
+    - Order RPCs (`claim_order`, `set_order_line_fulfillment`, `set_order_payment_verified`) run
+      as the caller, so they are limited to owners and cashiers by the orders policy
+
+  5. First owner
+    Create the user under Authentication > Users in the Supabase dashboard, then run:
+
+      INSERT INTO staff_accounts (user_id, display_name, role)
+      SELECT id, 'Owner', 'owner' FROM auth.users WHERE email = 'owner@example.com';
+
+    Further accounts are created from the Staff tab (staff-accounts edge function).
+*/
+
+CREATE TABLE IF NOT EXISTS staff_accounts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text NOT NULL CHECK (btrim(display_name) <> ''),
+  role text NOT NULL CHECK (role IN ('owner', 'manager', 'cashier')),
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Orders compare claim names, so two accounts cannot share one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_accounts_display_name ON staff_accounts (lower(btrim(display_name)));
+
+ALTER TABLE staff_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_staff_accounts_updated_at ON staff_accounts;
+CREATE TRIGGER update_staff_accounts_updated_at
+  BEFORE UPDATE ON staff_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS text AS $$
+  SELECT role FROM staff_accounts WHERE user_id = auth.uid() AND active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_staff_role(VARIADIC p_roles text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(current_staff_role() = ANY(p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_staff_name()
+RETURNS text AS $$
+  SELECT btrim(display_name) FROM staff_accounts WHERE user_id = auth.uid() AND active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_staff_role() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_staff_role(text[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION current_staff_name() TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION keep_staff_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner' AND OLD.active
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner' OR NOT NEW.active)
+    AND NOT EXISTS (
+      SELECT 1 FROM staff_accounts
+      WHERE role = 'owner' AND active AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'At least one active owner account is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_staff_owner ON staff_accounts;
+CREATE TRIGGER keep_staff_owner
+  BEFORE UPDATE OR DELETE ON staff_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_staff_owner();
+
+-- Staff accounts: everyone reads their own, owners manage all
+DROP POLICY IF EXISTS "Staff can read own account" ON staff_accounts;
+CREATE POLICY "Staff can read own account"
+  ON staff_accounts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can manage staff accounts" ON staff_accounts;
+CREATE POLICY "Owners can manage staff accounts"
+  ON staff_accounts
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner'))
+  WITH CHECK (has_staff_role('owner'));
+
+-- Menu: owner, manager
+DROP POLICY IF EXISTS "Authenticated users can manage menu items" ON menu_items;
+DROP POLICY IF EXISTS "Staff can manage menu items" ON menu_items;
+CREATE POLICY "Staff can manage menu items"
+  ON menu_items
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage variations" ON variations;
+DROP POLICY IF EXISTS "Staff can manage variations" ON variations;
+CREATE POLICY "Staff can manage variations"
+  ON variations
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage add-ons" ON add_ons;
+DROP POLICY IF EXISTS "Staff can manage add-ons" ON add_ons;
+CREATE POLICY "Staff can manage add-ons"
+  ON add_ons
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON categories;
+DROP POLICY IF EXISTS "Staff can manage categories" ON categories;
+CREATE POLICY "Staff can manage categories"
+  ON categories
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+-- Payments: owner, manager
+DROP POLICY IF EXISTS "Authenticated users can manage payment methods" ON payment_methods;
+DROP POLICY IF EXISTS "Public can manage payment methods" ON payment_methods;
+DROP POLICY IF EXISTS "Staff can manage payment methods" ON payment_methods;
+CREATE POLICY "Staff can manage payment methods"
+  ON payment_methods
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+-- Cashiers still see inactive methods on the orders that used them
+DROP POLICY IF EXISTS "Staff can read payment methods" ON payment_methods;
+CREATE POLICY "Staff can read payment methods"
+  ON payment_methods
+  FOR SELECT
+  TO authenticated
+  USING (has_staff_role('owner', 'manager', 'cashier'));
+
+ALTER TABLE admin_payment_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read admin payment groups" ON admin_payment_groups;
+CREATE POLICY "Anyone can read admin payment groups"
+  ON admin_payment_groups
+  FOR SELECT
+  TO public
+  USING (true);
+
+DROP POLICY IF EXISTS "Staff can manage admin payment groups" ON admin_payment_groups;
+CREATE POLICY "Staff can manage admin payment groups"
+  ON admin_payment_groups
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+-- Pricing: owner, manager
+DROP POLICY IF EXISTS "Authenticated users can manage vouchers" ON vouchers;
+DROP POLICY IF EXISTS "Staff can manage vouchers" ON vouchers;
+CREATE POLICY "Staff can manage vouchers"
+  ON vouchers
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage flash sales" ON flash_sales;
+DROP POLICY IF EXISTS "Staff can manage flash sales" ON flash_sales;
+CREATE POLICY "Staff can manage flash sales"
+  ON flash_sales
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'))
+  WITH CHECK (has_staff_role('owner', 'manager'));
+
+DROP POLICY IF EXISTS "Authenticated users can read flash sale claims" ON flash_sale_claims;
+DROP POLICY IF EXISTS "Staff can read flash sale claims" ON flash_sale_claims;
+CREATE POLICY "Staff can read flash sale claims"
+  ON flash_sale_claims
+  FOR SELECT
+  TO authenticated
+  USING (has_staff_role('owner', 'manager'));
+
+-- Orders: owner, cashier
+DROP POLICY IF EXISTS "Authenticated users can manage orders" ON orders;
+DROP POLICY IF EXISTS "Staff can manage orders" ON orders;
+CREATE POLICY "Staff can manage orders"
+  ON orders
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner', 'cashier'))
+  WITH CHECK (has_staff_role('owner', 'cashier'));
+
+-- Order history: read by every staff role
+DROP POLICY IF EXISTS "Authenticated users can read order events" ON order_events;
+DROP POLICY IF EXISTS "Staff can read order events" ON order_events;
+CREATE POLICY "Staff can read order events"
+  ON order_events
+  FOR SELECT
+  TO authenticated
+  USING (has_staff_role('owner', 'manager', 'cashier'));
+
+-- Menu and payment method images: owner, manager
+DROP POLICY IF EXISTS "Public can upload menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can update menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete menu images" ON storage.objects;
+DROP POLICY IF EXISTS "Staff can manage menu images" ON storage.objects;
+CREATE POLICY "Staff can manage menu images"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id = 'menu-images' AND has_staff_role('owner', 'manager'))
+  WITH CHECK (bucket_id = 'menu-images' AND has_staff_role('owner', 'manager'));
+
+-- Logo and hero images (site settings): owner
+DROP POLICY IF EXISTS "Public can upload site-logo" ON storage.objects;
+DROP POLICY IF EXISTS "Public can update site-logo" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete site-logo" ON storage.objects;
+DROP POLICY IF EXISTS "Public can upload hero-images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can update hero-images" ON storage.objects;
+DROP POLICY IF EXISTS "Public can delete hero-images" ON storage.objects;
+DROP POLICY IF EXISTS "Owners can manage site images" ON storage.objects;
+CREATE POLICY "Owners can manage site images"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id IN ('site-logo', 'hero-images') AND has_staff_role('owner'))
+  WITH CHECK (bucket_id IN ('site-logo', 'hero-images') AND has_staff_role('owner'));
+
+-- Members, their prices and site settings: owner
+DROP POLICY IF EXISTS "Authenticated users can manage member discounts" ON member_discounts;
+DROP POLICY IF EXISTS "Staff can manage member discounts" ON member_discounts;
+DROP POLICY IF EXISTS "Owners can manage member discounts" ON member_discounts;
+CREATE POLICY "Owners can manage member discounts"
+  ON member_discounts
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner'))
+  WITH CHECK (has_staff_role('owner'));
+
+DROP POLICY IF EXISTS "Members can update own profile" ON members;
+DROP POLICY IF EXISTS "Owners can update members" ON members;
+CREATE POLICY "Owners can update members"
+  ON members
+  FOR UPDATE
+  TO authenticated
+  USING (has_staff_role('owner'))
+  WITH CHECK (has_staff_role('owner'));
+
+DROP POLICY IF EXISTS "Authenticated users can manage site settings" ON site_settings;
+DROP POLICY IF EXISTS "Public can manage admin password" ON site_settings;
+DROP POLICY IF EXISTS "Owners can manage site settings" ON site_settings;
+CREATE POLICY "Owners can manage site settings"
+  ON site_settings
+  FOR ALL
+  TO authenticated
+  USING (has_staff_role('owner'))
+  WITH CHECK (has_staff_role('owner'));
+
+DELETE FROM site_settings WHERE id = 'admin_password';
+
+-- The staff account, not the browser, names who changed an order
+CREATE OR REPLACE FUNCTION apply_staff_actor()
+RETURNS TRIGGER AS $$
+DECLARE
+  staff_name text := current_staff_name();
+BEGIN
+  IF staff_name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status_actor := staff_name;
+  IF NEW.claimed_by IS NOT NULL AND NEW.claimed_by IS DISTINCT FROM OLD.claimed_by THEN
+    NEW.claimed_by := staff_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_staff_actor ON orders;
+CREATE TRIGGER apply_staff_actor
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_staff_actor();
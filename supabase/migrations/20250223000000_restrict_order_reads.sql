@@ -0,0 +1,71 @@
+/*
+  # Restrict reading orders to staff
+
+  "Anyone can select orders" let every visitor list all orders, with customer details, receipts
+  and member ids. Reading the table directly is now limited to staff accounts; customers get their
+  own orders through the functions below.
+
+  1. Functions
+    - `get_customer_order(order_id)` - one order by id, for the order status modal. The id is only
+      known to the browser that placed the order (create_order returns it), the same as for
+      `get_order_timeline`.
+    - `get_member_orders(member_session)` - order history of the logged-in member, newest first
+
+  2. Triggers
+    - `broadcast_order_update` (AFTER UPDATE on orders) - Realtime postgres_changes only delivers
+      rows the subscriber may read, so customers no longer get them. Each status change is sent as
+      a broadcast on the public `order-status-<order id>` topic instead (status and time only; the
+      modal reloads the order with get_customer_order).
+
+  3. Security
+    - The public SELECT policies on `orders` are removed
+    - Every staff role can read orders (managers see voucher usage and the dashboard counts);
+      changing them stays limited to owners and cashiers
+*/
+
+DROP POLICY IF EXISTS "Anyone can select orders" ON orders;
+DROP POLICY IF EXISTS "Public can select orders" ON orders;
+
+DROP POLICY IF EXISTS "Staff can read orders" ON orders;
+CREATE POLICY "Staff can read orders"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (has_staff_role('owner', 'manager', 'cashier'));
+
+CREATE OR REPLACE FUNCTION get_customer_order(p_order_id uuid)
+RETURNS orders AS $$
+  SELECT * FROM orders WHERE id = p_order_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_customer_order(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_member_orders(p_member_session text)
+RETURNS SETOF orders AS $$
+  SELECT *
+  FROM orders
+  WHERE member_id = member_session_member_id(p_member_session)
+  ORDER BY created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_member_orders(text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION broadcast_order_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('status', NEW.status, 'updated_at', NEW.updated_at),
+    'order_updated',
+    'order-status-' || NEW.id,
+    false
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS broadcast_order_update ON orders;
+CREATE TRIGGER broadcast_order_update
+  AFTER UPDATE ON orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.rejection_message IS DISTINCT FROM NEW.rejection_message)
+  EXECUTE FUNCTION broadcast_order_update();